@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "login_attempts" (
+    "key" VARCHAR(320) NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "last_failure_at" TIMESTAMPTZ(6) NOT NULL,
+    "locked_until" TIMESTAMPTZ(6),
+
+    CONSTRAINT "login_attempts_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "login_lockouts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "scope" VARCHAR(10) NOT NULL,
+    "identifier" VARCHAR(320) NOT NULL,
+    "user_id" UUID,
+    "ip_address" VARCHAR(45),
+    "failures" INTEGER NOT NULL,
+    "locked_until" TIMESTAMPTZ(6) NOT NULL,
+    "unlocked_at" TIMESTAMPTZ(6),
+    "unlocked_by_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_lockouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_lockouts_user_id_idx" ON "login_lockouts"("user_id");
+
+-- CreateIndex
+CREATE INDEX "login_lockouts_identifier_idx" ON "login_lockouts"("identifier");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "roles" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" VARCHAR(50) NOT NULL,
+    "description" VARCHAR(255),
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "is_system" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "roles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_name_key" ON "roles"("name");
+
+-- Seed the built-in roles so existing users keep their access
+INSERT INTO "roles" ("name", "description", "permissions", "is_system", "updated_at") VALUES
+    ('ADMIN', 'Full administrative access', ARRAY['listing:create', 'listing:moderate', 'catalog:create', 'catalog:manage', 'review:moderate', 'visit:manage', 'user:manage', 'role:manage'], true, CURRENT_TIMESTAMP),
+    ('AGENT', 'Lists apartments on behalf of sellers', ARRAY['listing:create', 'catalog:create', 'watchlist:use'], true, CURRENT_TIMESTAMP),
+    ('USER', 'Browses apartments and contacts listers', ARRAY['watchlist:use'], true, CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "users" ALTER COLUMN "role" SET DATA TYPE VARCHAR(50) USING "role"::TEXT,
+ALTER COLUMN "role" SET DEFAULT 'USER';
+
+-- DropEnum
+DROP TYPE "UserRole";
+
+-- CreateIndex
+CREATE INDEX "users_role_idx" ON "users"("role");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_role_fkey" FOREIGN KEY ("role") REFERENCES "roles"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "actor_id" UUID,
+    "action" VARCHAR(50) NOT NULL,
+    "entity_type" VARCHAR(30) NOT NULL,
+    "entity_id" UUID,
+    "changes" JSONB NOT NULL DEFAULT '{}',
+    "ip_address" VARCHAR(45),
+    "user_agent" VARCHAR(255),
+    "metadata" JSONB,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_actor_id_created_at_idx" ON "audit_events"("actor_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_entity_type_entity_id_created_at_idx" ON "audit_events"("entity_type", "entity_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_created_at_idx" ON "audit_events"("created_at");
+
+-- Grant the new audit:read permission to admins
+UPDATE "roles" SET "permissions" = array_append("permissions", 'audit:read') WHERE "name" = 'ADMIN' AND NOT ('audit:read' = ANY("permissions"));
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "impersonator_id" UUID,
+ADD COLUMN "impersonator_session_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "sessions_impersonator_id_idx" ON "sessions"("impersonator_id");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_impersonator_id_fkey" FOREIGN KEY ("impersonator_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Grant the new user:impersonate permission to admins
+UPDATE "roles" SET "permissions" = array_append("permissions", 'user:impersonate') WHERE "name" = 'ADMIN' AND NOT ('user:impersonate' = ANY("permissions"));
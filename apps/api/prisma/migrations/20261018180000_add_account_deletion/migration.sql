@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deletion_scheduled_at" TIMESTAMPTZ(6),
+ADD COLUMN "deleted_at" TIMESTAMPTZ(6);
+
+-- CreateIndex
+CREATE INDEX "users_deletion_scheduled_at_idx" ON "users"("deletion_scheduled_at");
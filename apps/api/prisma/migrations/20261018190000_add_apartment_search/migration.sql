@@ -0,0 +1,79 @@
+-- AlterTable
+ALTER TABLE "apartments" ADD COLUMN "search_vector" tsvector;
+
+-- Search document: unit name/number rank highest, then project and city, amenities, description.
+-- The 'simple' configuration keeps unit numbers and Arabic names intact (no stemming or stop words).
+CREATE FUNCTION apartments_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('simple', coalesce(NEW.unit_name, '') || ' ' || coalesce(NEW.unit_number, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce((
+      SELECT p.name || ' ' || c.name
+      FROM projects p
+      JOIN cities c ON c.id = p.city_id
+      WHERE p.id = NEW.project_id
+    ), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce((
+      SELECT string_agg(am.amenity, ' ')
+      FROM apartment_amenities am
+      WHERE am.apartment_id = NEW.id
+    ), '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(NEW.description, '')), 'D');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apartments_search_vector_update
+  BEFORE INSERT OR UPDATE ON "apartments"
+  FOR EACH ROW EXECUTE FUNCTION apartments_search_vector_update();
+
+-- Changes to related rows touch the apartment, which recomputes its vector
+CREATE FUNCTION apartment_amenities_search_vector_refresh() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE apartments SET search_vector = NULL WHERE id = OLD.apartment_id;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE apartments SET search_vector = NULL WHERE id = NEW.apartment_id;
+  END IF;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apartment_amenities_search_vector_refresh
+  AFTER INSERT OR UPDATE OR DELETE ON "apartment_amenities"
+  FOR EACH ROW EXECUTE FUNCTION apartment_amenities_search_vector_refresh();
+
+CREATE FUNCTION projects_search_vector_refresh() RETURNS trigger AS $$
+BEGIN
+  UPDATE apartments SET search_vector = NULL WHERE project_id = NEW.id;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER projects_search_vector_refresh
+  AFTER UPDATE OF name, city_id ON "projects"
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name OR OLD.city_id IS DISTINCT FROM NEW.city_id)
+  EXECUTE FUNCTION projects_search_vector_refresh();
+
+CREATE FUNCTION cities_search_vector_refresh() RETURNS trigger AS $$
+BEGIN
+  UPDATE apartments a SET search_vector = NULL
+  FROM projects p
+  WHERE a.project_id = p.id AND p.city_id = NEW.id;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER cities_search_vector_refresh
+  AFTER UPDATE OF name ON "cities"
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION cities_search_vector_refresh();
+
+-- Backfill existing listings
+UPDATE "apartments" SET "search_vector" = NULL;
+
+-- CreateIndex
+CREATE INDEX "apartments_search_vector_idx" ON "apartments" USING GIN ("search_vector");
@@ -0,0 +1,47 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+-- AlterTable
+ALTER TABLE "apartments" ADD COLUMN "location" earth;
+
+-- An apartment is located by its own coordinates, or by its project's when it has none
+CREATE FUNCTION apartments_location_update() RETURNS trigger AS $$
+BEGIN
+  IF NEW.latitude IS NOT NULL AND NEW.longitude IS NOT NULL THEN
+    NEW.location := ll_to_earth(NEW.latitude, NEW.longitude);
+  ELSE
+    NEW.location := (
+      SELECT ll_to_earth(p.latitude, p.longitude)
+      FROM projects p
+      WHERE p.id = NEW.project_id AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+    );
+  END IF;
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apartments_location_update
+  BEFORE INSERT OR UPDATE ON "apartments"
+  FOR EACH ROW EXECUTE FUNCTION apartments_location_update();
+
+-- Moving a project relocates the apartments that fall back to its coordinates
+CREATE FUNCTION projects_location_refresh() RETURNS trigger AS $$
+BEGIN
+  UPDATE apartments SET location = NULL
+  WHERE project_id = NEW.id AND (latitude IS NULL OR longitude IS NULL);
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER projects_location_refresh
+  AFTER UPDATE OF latitude, longitude ON "projects"
+  FOR EACH ROW
+  WHEN (OLD.latitude IS DISTINCT FROM NEW.latitude OR OLD.longitude IS DISTINCT FROM NEW.longitude)
+  EXECUTE FUNCTION projects_location_refresh();
+
+-- Backfill existing listings
+UPDATE "apartments" SET "location" = NULL;
+
+-- CreateIndex
+CREATE INDEX "apartments_location_idx" ON "apartments" USING GIST ("location");
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "apartments" ADD COLUMN "price_per_sqm" DECIMAL(14,2)
+  GENERATED ALWAYS AS (CASE WHEN "area_sqm" > 0 THEN round("price_egp" / "area_sqm", 2) END) STORED,
+ADD COLUMN "average_rating" DECIMAL(3,2);
+
+-- Keep the apartment's mean rating in step with its reviews
+CREATE FUNCTION reviews_average_rating_refresh() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE apartments
+    SET average_rating = (SELECT round(avg(rating), 2) FROM reviews WHERE apartment_id = OLD.apartment_id)
+    WHERE id = OLD.apartment_id;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE apartments
+    SET average_rating = (SELECT round(avg(rating), 2) FROM reviews WHERE apartment_id = NEW.apartment_id)
+    WHERE id = NEW.apartment_id;
+  END IF;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reviews_average_rating_refresh
+  AFTER INSERT OR UPDATE OF rating, apartment_id OR DELETE ON "reviews"
+  FOR EACH ROW EXECUTE FUNCTION reviews_average_rating_refresh();
+
+-- Backfill existing listings
+UPDATE "apartments" a
+SET "average_rating" = r.average
+FROM (SELECT apartment_id, round(avg(rating), 2) AS average FROM reviews GROUP BY apartment_id) r
+WHERE a.id = r.apartment_id;
+
+-- CreateIndex
+CREATE INDEX "apartments_created_at_idx" ON "apartments"("created_at");
+
+-- CreateIndex
+CREATE INDEX "apartments_price_egp_idx" ON "apartments"("price_egp");
+
+-- CreateIndex
+CREATE INDEX "apartments_price_per_sqm_idx" ON "apartments"("price_per_sqm");
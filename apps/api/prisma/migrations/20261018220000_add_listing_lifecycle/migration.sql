@@ -0,0 +1,44 @@
+-- AlterEnum: ACTIVE listings become PUBLISHED and INACTIVE ones ARCHIVED
+CREATE TYPE "ApartmentStatus_new" AS ENUM ('DRAFT', 'PENDING_REVIEW', 'PUBLISHED', 'RESERVED', 'RENTED', 'SOLD', 'EXPIRED', 'ARCHIVED');
+ALTER TABLE "apartments" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "apartments" ALTER COLUMN "status" TYPE "ApartmentStatus_new" USING (
+  CASE "status"::text
+    WHEN 'ACTIVE' THEN 'PUBLISHED'
+    WHEN 'INACTIVE' THEN 'ARCHIVED'
+    ELSE "status"::text
+  END
+)::"ApartmentStatus_new";
+ALTER TYPE "ApartmentStatus" RENAME TO "ApartmentStatus_old";
+ALTER TYPE "ApartmentStatus_new" RENAME TO "ApartmentStatus";
+DROP TYPE "ApartmentStatus_old";
+ALTER TABLE "apartments" ALTER COLUMN "status" SET DEFAULT 'DRAFT';
+
+-- AlterTable
+ALTER TABLE "apartments" ADD COLUMN "status_changed_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "published_at" TIMESTAMPTZ(6);
+
+-- Existing listings were live from the start
+UPDATE "apartments" SET "status_changed_at" = "updated_at", "published_at" = "created_at";
+
+-- CreateTable
+CREATE TABLE "apartment_status_changes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "apartment_id" UUID NOT NULL,
+    "actor_id" UUID,
+    "action" VARCHAR(30) NOT NULL,
+    "from_status" "ApartmentStatus" NOT NULL,
+    "to_status" "ApartmentStatus" NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "apartment_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "apartments_status_status_changed_at_idx" ON "apartments"("status", "status_changed_at");
+
+-- CreateIndex
+CREATE INDEX "apartment_status_changes_apartment_id_created_at_idx" ON "apartment_status_changes"("apartment_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "apartment_status_changes" ADD CONSTRAINT "apartment_status_changes_apartment_id_fkey" FOREIGN KEY ("apartment_id") REFERENCES "apartments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "roles" ADD COLUMN "listing_duration_days" INTEGER;
+
+-- AlterTable
+ALTER TABLE "apartments" ADD COLUMN "expires_at" TIMESTAMPTZ(6),
+ADD COLUMN "reminder_sent_at" TIMESTAMPTZ(6);
+
+-- Listings already published get a full default period from now, so none expires without a reminder
+UPDATE "apartments" SET "expires_at" = CURRENT_TIMESTAMP + INTERVAL '60 days' WHERE "status" = 'PUBLISHED';
+
+-- CreateIndex
+CREATE INDEX "apartments_status_expires_at_idx" ON "apartments"("status", "expires_at");
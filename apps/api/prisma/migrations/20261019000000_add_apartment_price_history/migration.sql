@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "apartments" ADD COLUMN "price_drop_percent" DECIMAL(5,2),
+ADD COLUMN "price_dropped_at" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "apartment_price_changes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "apartment_id" UUID NOT NULL,
+    "old_price_egp" DECIMAL(14,2),
+    "new_price_egp" DECIMAL(14,2) NOT NULL,
+    "changed_by_id" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "apartment_price_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "apartment_price_changes_apartment_id_created_at_idx" ON "apartment_price_changes"("apartment_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "apartment_price_changes" ADD CONSTRAINT "apartment_price_changes_apartment_id_fkey" FOREIGN KEY ("apartment_id") REFERENCES "apartments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
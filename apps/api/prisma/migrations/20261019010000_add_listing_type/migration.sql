@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ListingType" AS ENUM ('SALE', 'RENT');
+
+-- CreateEnum
+CREATE TYPE "RentPeriod" AS ENUM ('DAILY', 'MONTHLY', 'YEARLY');
+
+-- AlterTable; every existing listing is a sale
+ALTER TABLE "apartments" ADD COLUMN "listing_type" "ListingType" NOT NULL DEFAULT 'SALE',
+ADD COLUMN "rent_period" "RentPeriod",
+ADD COLUMN "deposit_egp" DECIMAL(14,2),
+ADD COLUMN "min_lease_months" INTEGER,
+ADD COLUMN "furnished" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "available_from" DATE;
+
+-- Rentals need a period, and sales carry no rental terms
+ALTER TABLE "apartments" ADD CONSTRAINT "apartments_rental_terms_check" CHECK (
+    ("listing_type" = 'RENT' AND "rent_period" IS NOT NULL)
+    OR ("listing_type" = 'SALE' AND "rent_period" IS NULL AND "deposit_egp" IS NULL AND "min_lease_months" IS NULL)
+);
+
+-- CreateIndex
+CREATE INDEX "apartments_listing_type_price_egp_idx" ON "apartments"("listing_type", "price_egp");
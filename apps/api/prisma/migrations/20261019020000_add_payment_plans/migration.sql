@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "InstallmentFrequency" AS ENUM ('MONTHLY', 'QUARTERLY', 'SEMI_ANNUAL', 'YEARLY');
+
+-- CreateTable
+CREATE TABLE "payment_plans" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "project_id" UUID,
+    "apartment_id" UUID,
+    "name" VARCHAR(100) NOT NULL,
+    "down_payment_percent" DECIMAL(5,2) NOT NULL,
+    "years" INTEGER NOT NULL,
+    "installment_frequency" "InstallmentFrequency" NOT NULL,
+    "maintenance_fee_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "delivery_date" DATE,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "payment_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- A plan belongs to a whole project or to one unit, never both
+ALTER TABLE "payment_plans" ADD CONSTRAINT "payment_plans_target_check" CHECK (
+    ("project_id" IS NULL) <> ("apartment_id" IS NULL)
+);
+
+-- Percentages of the unit price, and at least one installment period
+ALTER TABLE "payment_plans" ADD CONSTRAINT "payment_plans_terms_check" CHECK (
+    "down_payment_percent" BETWEEN 0 AND 100
+    AND "maintenance_fee_percent" BETWEEN 0 AND 100
+    AND "years" > 0
+);
+
+-- CreateIndex
+CREATE INDEX "payment_plans_project_id_idx" ON "payment_plans"("project_id");
+
+-- CreateIndex
+CREATE INDEX "payment_plans_apartment_id_idx" ON "payment_plans"("apartment_id");
+
+-- AddForeignKey
+ALTER TABLE "payment_plans" ADD CONSTRAINT "payment_plans_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_plans" ADD CONSTRAINT "payment_plans_apartment_id_fkey" FOREIGN KEY ("apartment_id") REFERENCES "apartments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "two_factor_challenges" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "user_id" UUID NOT NULL,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "used_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "two_factor_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "two_factor_challenges_user_id_idx" ON "two_factor_challenges"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "two_factor_challenges" ADD CONSTRAINT "two_factor_challenges_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enrolling in 2FA is now a permission instead of a fixed list of roles
+UPDATE "roles" SET "permissions" = array_append("permissions", 'account:two_factor') WHERE "name" IN ('ADMIN', 'AGENT') AND NOT ('account:two_factor' = ANY("permissions"));
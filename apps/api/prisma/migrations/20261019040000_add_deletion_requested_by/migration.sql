@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "deletion_requested_by_id" UUID;
+
+-- Pending closures cannot be told apart any more; they stay undoable by signing in, as before
+UPDATE "users" SET "deletion_requested_by_id" = "id" WHERE "deletion_scheduled_at" IS NOT NULL;
@@ -2,6 +2,8 @@
 import { PrismaClient } from '@prisma/client';
 import { faker } from '@faker-js/faker';
 import * as bcrypt from 'bcryptjs';
+import { SYSTEM_ROLES } from '../src/lib/permissions';
+import { priceDropPercent } from '../src/lib/price-history';
 
 const prisma = new PrismaClient();
 
@@ -16,10 +18,29 @@ async function main() {
   await prisma.watchlist.deleteMany();
   await prisma.review.deleteMany();
   await prisma.visit.deleteMany();
+  await prisma.paymentPlan.deleteMany();
   await prisma.apartment.deleteMany();
   await prisma.project.deleteMany();
   await prisma.city.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.apiKey.deleteMany();
+  await prisma.auditEvent.deleteMany();
+  await prisma.passwordResetToken.deleteMany();
+  await prisma.emailVerificationToken.deleteMany();
+  await prisma.twoFactorRecoveryCode.deleteMany();
+  await prisma.loginAttempt.deleteMany();
+  await prisma.loginLockout.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.role.deleteMany({ where: { isSystem: false } });
+
+  console.log('Creating roles...');
+  for (const role of SYSTEM_ROLES) {
+    await prisma.role.upsert({
+      where: { name: role.name },
+      update: { description: role.description, permissions: role.permissions, isSystem: true },
+      create: { ...role, isSystem: true },
+    });
+  }
 
   console.log('Creating users...');
   const passwordHash = await bcrypt.hash('12345678', 12);
@@ -39,7 +60,7 @@ async function main() {
       email: `agent${i + 1}@nawy.com`,
       passwordHash: passwordHash,
       name: faker.person.fullName(),
-      role: 'ADMIN',
+      role: 'AGENT',
       phone: `+201${faker.string.numeric(9)}`, 
       isVerified: true,
     })),
@@ -50,7 +71,7 @@ async function main() {
       email: `user${i + 1}@nawy.com`,
       passwordHash: passwordHash,
       name: faker.person.fullName(),
-      role: 'USER' as const,
+      role: 'USER',
       phone: `+201${faker.string.numeric(9)}`, 
       isVerified: true,
     })),
@@ -99,7 +120,7 @@ async function main() {
   const projects = await prisma.project.findMany();
 
   console.log('Creating apartments...');
-  const agentsList = await prisma.user.findMany({ where: { role: 'ADMIN' } });
+  const agentsList = await prisma.user.findMany({ where: { role: 'AGENT' } });
 
   // * 945 apartments; because 1000 is soo lame xD
   const apartmentsData = Array.from({ length: 945 }).map(() => {
@@ -108,17 +129,27 @@ async function main() {
     const bedrooms = faker.number.int({ min: 1, max: 5 });
     const bathrooms = faker.number.int({ min: 1, max: 4 });
     const area = faker.number.int({ min: 50, max: 400 });
-    const price = faker.number.int({ min: 1000000, max: 20000000 });
+    // About a quarter are rentals, mostly monthly, priced per period
+    const isRental = faker.datatype.boolean({ probability: 0.25 });
+    const rentPeriod = isRental ? faker.helpers.weightedArrayElement([
+      { weight: 8, value: 'MONTHLY' as const },
+      { weight: 1, value: 'YEARLY' as const },
+      { weight: 1, value: 'DAILY' as const },
+    ]) : null;
+    const price = !isRental
+      ? faker.number.int({ min: 1000000, max: 20000000 })
+      : faker.number.int(rentPeriod === 'DAILY' ? { min: 500, max: 5000 } : { min: 8000, max: 80000 }) * (rentPeriod === 'YEARLY' ? 12 : 1);
 
-    // 10% chance for SOLD or INACTIVE status, 90% ACTIVE
+    // 15% chance for another lifecycle status, 85% PUBLISHED
     const statusRoll = faker.number.float({ min: 0, max: 1 });
-    let status: 'ACTIVE' | 'SOLD' | 'INACTIVE';
-    if (statusRoll < 0.1) {
-      // 10% chance for non-active status
-      status = faker.helpers.arrayElement(['SOLD', 'INACTIVE']);
+    let status: 'DRAFT' | 'PENDING_REVIEW' | 'PUBLISHED' | 'RESERVED' | 'RENTED' | 'SOLD' | 'ARCHIVED';
+    if (statusRoll < 0.15) {
+      // 15% chance for a non-published status
+      status = faker.helpers.arrayElement(['DRAFT', 'PENDING_REVIEW', 'RESERVED', 'RENTED', 'SOLD', 'ARCHIVED']);
     } else {
-      status = 'ACTIVE';
+      status = 'PUBLISHED';
     }
+    const createdAt = faker.date.past();
 
     return {
       unitName: `${faker.word.noun()} Residence`,
@@ -128,12 +159,21 @@ async function main() {
       bathrooms,
       areaSqm: area,
       priceEgp: price,
+      listingType: isRental ? 'RENT' as const : 'SALE' as const,
+      rentPeriod,
+      depositEgp: isRental && rentPeriod !== 'DAILY' ? price * faker.number.int({ min: 1, max: 3 }) / (rentPeriod === 'YEARLY' ? 12 : 1) : null,
+      minLeaseMonths: rentPeriod === 'MONTHLY' ? faker.helpers.arrayElement([null, 6, 12]) : null,
+      furnished: faker.datatype.boolean({ probability: isRental ? 0.6 : 0.1 }),
+      availableFrom: faker.datatype.boolean({ probability: 0.3 }) ? faker.date.soon({ days: 120 }) : null,
       address: `${project.name}, ${faker.location.streetAddress()}, ${faker.location.city()}`,
       description: faker.lorem.sentences(2),
       status,
       latitude: faker.location.latitude({ min: 26, max: 31 }),
       longitude: faker.location.longitude({ min: 29, max: 32 }),
-      createdAt: faker.date.past(),
+      statusChangedAt: faker.date.between({ from: createdAt, to: new Date() }),
+      publishedAt: ['DRAFT', 'PENDING_REVIEW'].includes(status) ? null : createdAt,
+      expiresAt: status === 'PUBLISHED' ? faker.date.soon({ days: 60 }) : null,
+      createdAt,
       updatedAt: faker.date.recent(),
     };
   });
@@ -167,6 +207,70 @@ async function main() {
   await prisma.apartmentImage.createMany({ data: apartmentImages });
   await prisma.apartmentAmenity.createMany({ data: apartmentAmenities });
 
+  console.log('Creating price history...');
+  // Every listing starts at its listed price; about one in five has been repriced since
+  const priceChanges: { apartmentId: string; oldPriceEgp: number | null; newPriceEgp: number; changedById: string; createdAt: Date }[] = [];
+
+  for (const apt of apartments) {
+    let price = Number(apt.priceEgp);
+    let changedAt = apt.createdAt;
+    priceChanges.push({ apartmentId: apt.id, oldPriceEgp: null, newPriceEgp: price, changedById: apt.listerId, createdAt: changedAt });
+
+    if (!faker.datatype.boolean({ probability: 0.2 })) {
+      continue;
+    }
+
+    let dropPercent: number | null = null;
+    for (let i = faker.number.int({ min: 1, max: 3 }); i > 0; i--) {
+      const newPrice = Math.round((price * faker.number.float({ min: 0.85, max: 1.05 })) / 100) * 100;
+      changedAt = faker.date.between({ from: changedAt, to: new Date() });
+      dropPercent = priceDropPercent(price, newPrice);
+      priceChanges.push({ apartmentId: apt.id, oldPriceEgp: price, newPriceEgp: newPrice, changedById: apt.listerId, createdAt: changedAt });
+      price = newPrice;
+    }
+
+    await prisma.apartment.update({
+      where: { id: apt.id },
+      data: { priceEgp: price, priceDropPercent: dropPercent, priceDroppedAt: dropPercent === null ? null : changedAt }
+    });
+  }
+
+  await prisma.apartmentPriceChange.createMany({ data: priceChanges });
+
+  console.log('Creating payment plans...');
+  // Every project offers one to three developer plans; a few units carry a special offer of their own
+  const paymentPlanTerms = () => {
+    const downPaymentPercent = faker.helpers.arrayElement([5, 10, 15, 20]);
+    const years = faker.helpers.arrayElement([3, 5, 6, 7, 8, 10]);
+    return {
+      name: `${downPaymentPercent}% down, ${years} years`,
+      downPaymentPercent,
+      years,
+      installmentFrequency: faker.helpers.weightedArrayElement([
+        { value: 'MONTHLY' as const, weight: 3 },
+        { value: 'QUARTERLY' as const, weight: 5 },
+        { value: 'SEMI_ANNUAL' as const, weight: 1 },
+        { value: 'YEARLY' as const, weight: 1 },
+      ]),
+      maintenanceFeePercent: faker.helpers.arrayElement([0, 5, 8, 10]),
+      deliveryDate: faker.date.future({ years: 4 }),
+    };
+  };
+
+  await prisma.paymentPlan.createMany({
+    data: [
+      ...projects.flatMap((project) =>
+        Array.from({ length: faker.number.int({ min: 1, max: 3 }) }).map(() => ({
+          projectId: project.id,
+          ...paymentPlanTerms(),
+        }))
+      ),
+      ...apartments
+        .filter((apt) => apt.listingType === 'SALE' && faker.datatype.boolean({ probability: 0.05 }))
+        .map((apt) => ({ apartmentId: apt.id, ...paymentPlanTerms() })),
+    ],
+  });
+
   console.log('Creating sample visits and reviews...');
   const visitsData = apartments.slice(0, 200).map((apt) => ({
     apartmentId: apt.id,
@@ -37,8 +37,34 @@ async function clearDatabase() {
     await prisma.city.deleteMany();
     console.log('Cleared cities');
     
+    await prisma.session.deleteMany();
+    console.log('Cleared sessions');
+    
+    await prisma.apiKey.deleteMany();
+    console.log('Cleared API keys');
+    
+    await prisma.auditEvent.deleteMany();
+    console.log('Cleared audit events');
+    
+    await prisma.passwordResetToken.deleteMany();
+    console.log('Cleared password reset tokens');
+    
+    await prisma.emailVerificationToken.deleteMany();
+    console.log('Cleared email verification tokens');
+    
+    await prisma.twoFactorRecoveryCode.deleteMany();
+    console.log('Cleared two-factor recovery codes');
+    
+    await prisma.loginAttempt.deleteMany();
+    await prisma.loginLockout.deleteMany();
+    console.log('Cleared login attempts and lockouts');
+    
     await prisma.user.deleteMany();
     console.log('Cleared users');
+    
+    // Built-in roles are created by the migration and stay
+    await prisma.role.deleteMany({ where: { isSystem: false } });
+    console.log('Cleared custom roles');
 
     console.log('Database cleared successfully!');
   } catch (error) {
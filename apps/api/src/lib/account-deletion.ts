@@ -0,0 +1,182 @@
+import { randomUUID } from 'node:crypto';
+import { PrismaClient } from '@prisma/client';
+import { revokeUserSessions } from './sessions';
+import { clearFailedLogins } from './login-attempts';
+import { DEFAULT_ROLE } from './permissions';
+
+const prisma = new PrismaClient();
+
+// Closed accounts keep their data this long, so signing in again can still undo the deletion
+export const ACCOUNT_DELETION_GRACE_DAYS = Number.parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30');
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shown in place of the author of messages and reviews once an account is purged
+export const DELETED_USER_NAME = 'Deleted user';
+// Shown in place of the text of their messages
+export const DELETED_MESSAGE_CONTENT = 'This message was deleted';
+
+// Profile fields dropped from the audit trail of a purged account
+const PERSONAL_AUDIT_FIELDS = ['email', 'name', 'phone', 'avatarUrl'];
+
+export interface ScheduleDeletionOptions {
+  // The user closing their own account, or the admin closing it for them
+  requestedById: string;
+  // Hand the live listings over to this user instead of taking them down
+  transferListingsTo?: string;
+  reason: string;
+}
+
+// Signing in during the grace period undoes a closure the user asked for themselves; an
+// account an admin closed stays closed, so its sign-ins are refused
+export function isClosedByAdmin(user: { id: string; deletionScheduledAt: Date | null; deletionRequestedById: string | null }) {
+  return !!user.deletionScheduledAt && user.deletionRequestedById !== user.id;
+}
+
+// Closes the account straight away (signed out everywhere, API keys revoked, live listings
+// transferred or taken down) and schedules the purge of its personal data
+export async function scheduleAccountDeletion(userId: string, options: ScheduleDeletionOptions) {
+  const now = new Date();
+  const purgeAt = new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+
+  // Drafts and closed listings stay with the account. Archived live listings can be restored by
+  // the lister after undoing the deletion.
+  const live = await prisma.apartment.findMany({
+    where: { listerId: userId, status: { in: ['PENDING_REVIEW', 'PUBLISHED', 'RESERVED'] } },
+    select: { id: true, status: true }
+  });
+  const archived = options.transferListingsTo ? [] : live;
+
+  const [listings] = await prisma.$transaction([
+    options.transferListingsTo
+      ? prisma.apartment.updateMany({
+        where: { id: { in: live.map(apartment => apartment.id) }, listerId: userId },
+        data: { listerId: options.transferListingsTo }
+      })
+      : prisma.apartment.updateMany({
+        where: { id: { in: archived.map(apartment => apartment.id) } },
+        data: { status: 'ARCHIVED', statusChangedAt: now }
+      }),
+    prisma.apartmentStatusChange.createMany({
+      data: archived.map(apartment => ({
+        apartmentId: apartment.id,
+        action: 'archive',
+        fromStatus: apartment.status,
+        toStatus: 'ARCHIVED' as const,
+        note: 'Account closed',
+        createdAt: now
+      }))
+    }),
+    prisma.apiKey.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now }
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { deletionScheduledAt: purgeAt, deletionRequestedById: options.requestedById }
+    })
+  ]);
+
+  await revokeUserSessions(userId, options.reason);
+
+  return { purgeAt, listings: listings.count };
+}
+
+// Erases the personal data of an account whose grace period is over. The row itself stays as an
+// anonymous tombstone so that conversations and reviews other people took part in keep working:
+// its messages keep their place but not their text, its reviews keep their rating but not their
+// comment. Login lockouts and audit events stay for security, stripped of the email, profile and
+// the IP addresses and user agents of the account's own requests.
+export async function anonymizeAccount(userId: string) {
+  const now = new Date();
+  const anonymousEmail = `deleted-${userId}@users.invalid`;
+
+  const { email } = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { email: true }
+  });
+
+  await clearFailedLogins(email);
+
+  await prisma.$transaction([
+    prisma.session.deleteMany({ where: { userId } }),
+    prisma.apiKey.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.emailVerificationToken.deleteMany({ where: { userId } }),
+    prisma.passwordResetToken.deleteMany({ where: { userId } }),
+    prisma.watchlist.deleteMany({ where: { userId } }),
+    prisma.visit.deleteMany({ where: { userId } }),
+    prisma.message.updateMany({
+      where: { senderId: userId },
+      data: { content: DELETED_MESSAGE_CONTENT, messageType: 'TEXT' }
+    }),
+    prisma.review.updateMany({
+      where: { userId },
+      data: { comment: null }
+    }),
+    prisma.loginLockout.updateMany({
+      where: { OR: [{ userId }, { identifier: email.trim().toLowerCase() }] },
+      data: { identifier: anonymousEmail, ipAddress: null }
+    }),
+    prisma.auditEvent.updateMany({
+      where: { actorId: userId },
+      data: { ipAddress: null, userAgent: null }
+    }),
+    prisma.$executeRaw`
+      UPDATE audit_events
+      SET changes = changes - ${PERSONAL_AUDIT_FIELDS}::text[]
+      WHERE entity_type = 'user' AND entity_id = ${userId}::uuid
+    `,
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: anonymousEmail,
+        // Not a bcrypt hash, so no password can ever match it
+        passwordHash: `deleted:${randomUUID()}`,
+        name: DELETED_USER_NAME,
+        role: DEFAULT_ROLE,
+        phone: null,
+        avatarUrl: null,
+        isVerified: false,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastStep: null,
+        deletionScheduledAt: null,
+        deletedAt: now
+      }
+    })
+  ]);
+}
+
+export async function purgeDeletedAccounts() {
+  const dueAccounts = await prisma.user.findMany({
+    where: {
+      deletionScheduledAt: { lte: new Date() },
+      deletedAt: null
+    },
+    select: { id: true }
+  });
+
+  for (const account of dueAccounts) {
+    await anonymizeAccount(account.id);
+  }
+
+  return dueAccounts.length;
+}
+
+// Runs the purge at startup and then every hour; the timer does not keep the process alive
+export function startAccountPurgeJob(logger: { info: (...args: any[]) => void; error: (...args: any[]) => void }) {
+  const run = async () => {
+    try {
+      const purged = await purgeDeletedAccounts();
+      if (purged > 0) {
+        logger.info(`Anonymized ${purged} deleted account(s)`);
+      }
+    } catch (error) {
+      logger.error(error, 'Failed to purge deleted accounts');
+    }
+  };
+
+  void run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
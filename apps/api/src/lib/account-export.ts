@@ -0,0 +1,135 @@
+import JSZip from 'jszip';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const participantSelect = {
+  id: true,
+  name: true
+};
+
+// Everything we hold about a user, for data portability requests. Secrets (password hash,
+// 2FA secret, token hashes) are left out; other people appear by id and name only.
+export async function buildAccountExport(userId: string) {
+  const [profile, listings, conversations, reviews, visits, watchlist, sessions, apiKeys] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        phone: true,
+        avatarUrl: true,
+        isVerified: true,
+        twoFactorEnabled: true,
+        lastLogin: true,
+        deletionScheduledAt: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    }),
+    prisma.apartment.findMany({
+      where: { listerId: userId },
+      include: {
+        images: true,
+        amenities: true,
+        project: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.conversation.findMany({
+      where: {
+        OR: [{ user1Id: userId }, { user2Id: userId }]
+      },
+      include: {
+        apartment: { select: { id: true, unitName: true } },
+        user1: { select: participantSelect },
+        user2: { select: participantSelect },
+        messages: {
+          orderBy: { createdAt: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.review.findMany({
+      where: { userId },
+      include: { apartment: { select: { id: true, unitName: true } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.visit.findMany({
+      where: { userId },
+      include: { apartment: { select: { id: true, unitName: true } } },
+      orderBy: { scheduledAt: 'asc' }
+    }),
+    prisma.watchlist.findMany({
+      where: { userId },
+      include: { apartment: { select: { id: true, unitName: true } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.session.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        rememberMe: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.apiKey.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        name: true,
+        prefix: true,
+        scopes: true,
+        createdAt: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        lastUsedIp: true,
+        revokedAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    listings,
+    conversations,
+    reviews,
+    visits,
+    watchlist,
+    sessions,
+    apiKeys
+  };
+}
+
+export type AccountExport = Awaited<ReturnType<typeof buildAccountExport>>;
+
+// One JSON file per section, so the archive can be browsed without tooling
+export async function zipAccountExport(bundle: AccountExport) {
+  const zip = new JSZip();
+
+  for (const [section, data] of Object.entries(bundle)) {
+    if (section === 'exportedAt') {
+      continue;
+    }
+    zip.file(`${section}.json`, JSON.stringify(data, null, 2));
+  }
+  zip.file('README.txt', [
+    'Nawy personal data export',
+    `Generated on ${bundle.exportedAt}`,
+    '',
+    'Each file holds one part of your account in JSON: your profile, the apartments you listed,',
+    'your conversations with their messages, reviews, visits, watchlist, sign-in sessions and API keys.'
+  ].join('\n'));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,209 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { ApartmentSearch } from '../types';
+import {
+  ApartmentFilterOptions,
+  FinancingFilter,
+  LocationFilter,
+  countMatching,
+  toFilterSql,
+  toMatchSql,
+  toScopeSql,
+  whereSql
+} from './apartment-search';
+import { LISTING_STATUSES } from './listing-lifecycle';
+import { LISTING_TYPES } from './listing-types';
+
+const prisma = new PrismaClient();
+
+export type ApartmentFacetOptions = ApartmentFilterOptions & LocationFilter & FinancingFilter & Pick<ApartmentSearch, 'search' | 'scope'>;
+
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface NamedFacetCount extends FacetCount {
+  name: string;
+}
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface Histogram {
+  min: number | null;
+  max: number | null;
+  buckets: HistogramBucket[];
+}
+
+const HISTOGRAM_BUCKETS = 10;
+
+// A facet's counts ignore its own filter, so picking one city still shows how many
+// results each other city would give instead of zero
+function withoutFilters(filters: ApartmentFilterOptions, ...keys: (keyof ApartmentFilterOptions)[]) {
+  const rest = { ...filters };
+  for (const key of keys) {
+    delete rest[key];
+  }
+  return rest;
+}
+
+// `where` below is a facet's WHERE clause over `apartments a` (see whereSql)
+
+async function countStatuses(where: Prisma.Sql): Promise<FacetCount[]> {
+  const groups = await prisma.$queryRaw<{ value: string; count: number }[]>`
+    SELECT a.status::text AS value, count(*)::int AS count
+    FROM apartments a
+    WHERE ${where}
+    GROUP BY a.status
+  `;
+  const counts = new Map(groups.map(group => [group.value, group.count]));
+  return LISTING_STATUSES.map(status => ({ value: status, count: counts.get(status) ?? 0 }));
+}
+
+async function countListingTypes(where: Prisma.Sql): Promise<FacetCount[]> {
+  const groups = await prisma.$queryRaw<{ value: string; count: number }[]>`
+    SELECT a.listing_type::text AS value, count(*)::int AS count
+    FROM apartments a
+    WHERE ${where}
+    GROUP BY a.listing_type
+  `;
+  const counts = new Map(groups.map(group => [group.value, group.count]));
+  return LISTING_TYPES.map(listingType => ({ value: listingType, count: counts.get(listingType) ?? 0 }));
+}
+
+async function countRooms(field: 'bedrooms' | 'bathrooms', where: Prisma.Sql): Promise<FacetCount<number>[]> {
+  const column = Prisma.raw(`a.${field}`);
+  return prisma.$queryRaw<FacetCount<number>[]>`
+    SELECT ${column} AS value, count(*)::int AS count
+    FROM apartments a
+    WHERE ${where} AND ${column} IS NOT NULL
+    GROUP BY ${column}
+    ORDER BY ${column}
+  `;
+}
+
+// Counted per project first, since cities are only reachable through the project
+async function countProjects(where: Prisma.Sql) {
+  const groups = await prisma.$queryRaw<{ projectId: string; count: number }[]>`
+    SELECT a.project_id AS "projectId", count(*)::int AS count
+    FROM apartments a
+    WHERE ${where}
+    GROUP BY a.project_id
+  `;
+  const projects = await prisma.project.findMany({
+    where: { id: { in: groups.map(group => group.projectId) } },
+    select: { id: true, name: true, cityId: true, city: { select: { name: true } } }
+  });
+  const byId = new Map(projects.map(project => [project.id, project]));
+
+  return groups
+    .filter(group => byId.has(group.projectId))
+    .map(group => ({ project: byId.get(group.projectId)!, count: group.count }));
+}
+
+async function countCities(where: Prisma.Sql): Promise<NamedFacetCount[]> {
+  const cities = new Map<string, NamedFacetCount>();
+
+  for (const { project, count } of await countProjects(where)) {
+    const city = cities.get(project.cityId) ?? { value: project.cityId, name: project.city.name, count: 0 };
+    city.count += count;
+    cities.set(project.cityId, city);
+  }
+
+  return [...cities.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+async function countAmenities(where: Prisma.Sql): Promise<FacetCount[]> {
+  const groups = await prisma.$queryRaw<FacetCount[]>`
+    SELECT am.amenity AS value, count(*)::int AS count
+    FROM apartment_amenities am
+    JOIN apartments a ON a.id = am.apartment_id
+    WHERE ${where}
+    GROUP BY am.amenity
+  `;
+  return groups.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// Equal-width buckets between the smallest and largest value; the last one includes the maximum
+async function buildHistogram(field: 'price_egp' | 'area_sqm', where: Prisma.Sql): Promise<Histogram> {
+  const column = Prisma.raw(`a.${field}`);
+  const [range] = await prisma.$queryRaw<{ min: number | null; max: number | null }[]>`
+    SELECT floor(min(${column}))::float8 AS min, ceil(max(${column}))::float8 AS max
+    FROM apartments a
+    WHERE ${where}
+  `;
+  if (range.min === null || range.max === null) {
+    return { min: null, max: null, buckets: [] };
+  }
+
+  const { min, max } = range;
+  const width = Math.max(1, Math.ceil((max - min) / HISTOGRAM_BUCKETS));
+  const bounds = Array.from({ length: HISTOGRAM_BUCKETS }, (_, index) => min + index * width)
+    .filter(from => from <= max);
+
+  // Values past the last bucket's start all fall in it, since none exceeds the maximum
+  const groups = await prisma.$queryRaw<{ bucket: number; count: number }[]>`
+    SELECT least(floor((${column} - ${min}::numeric) / ${width}::numeric), ${bounds.length - 1})::int AS bucket, count(*)::int AS count
+    FROM apartments a
+    WHERE ${where} AND ${column} IS NOT NULL
+    GROUP BY 1
+  `;
+  const counts = new Map(groups.map(group => [group.bucket, group.count]));
+
+  return {
+    min,
+    max,
+    buckets: bounds.map((from, index) => ({
+      from,
+      to: index === bounds.length - 1 ? max : from + width,
+      count: counts.get(index) ?? 0
+    }))
+  };
+}
+
+// Per-option result counts for the filter sidebar, for the same body as /apartments/search
+// as seen by `userId` (the scope applies to every facet)
+export async function findApartmentFacets(options: ApartmentFacetOptions, userId: string) {
+  // Search, location and financing narrow every facet alike
+  const matches = toMatchSql(options);
+
+  const whereWithout = (...keys: (keyof ApartmentFilterOptions)[]): Prisma.Sql => {
+    const filters = withoutFilters(options, ...keys);
+    // The status facet also drops browse's PUBLISHED-only default, so other statuses show their counts
+    const statusFiltered = keys.includes('statuses') || Boolean(filters.statuses?.length);
+    return whereSql([...toFilterSql(filters), ...toScopeSql(options.scope ?? 'browse', userId, statusFiltered), ...matches]);
+  };
+
+  const [total, cities, projects, statuses, listingTypes, bedrooms, bathrooms, amenities, price, area] = await Promise.all([
+    countMatching(whereWithout()),
+    countCities(whereWithout('cityIds')),
+    countProjects(whereWithout('projectIds')),
+    countStatuses(whereWithout('statuses')),
+    countListingTypes(whereWithout('listingType')),
+    countRooms('bedrooms', whereWithout('bedrooms', 'minBedrooms', 'maxBedrooms')),
+    countRooms('bathrooms', whereWithout('bathrooms', 'minBathrooms', 'maxBathrooms')),
+    countAmenities(whereWithout('amenities', 'anyAmenities')),
+    buildHistogram('price_egp', whereWithout('minPrice', 'maxPrice')),
+    buildHistogram('area_sqm', whereWithout('minArea', 'maxArea'))
+  ]);
+
+  return {
+    total,
+    cities,
+    projects: projects
+      .map(({ project, count }) => ({ value: project.id, name: project.name, cityId: project.cityId, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+    statuses,
+    listingTypes,
+    bedrooms,
+    bathrooms,
+    amenities,
+    price,
+    area
+  };
+}
+
+export type ApartmentFacets = Awaited<ReturnType<typeof findApartmentFacets>>;
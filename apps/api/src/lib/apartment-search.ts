@@ -0,0 +1,605 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { ApartmentSearch } from '../types';
+import {
+  CursorPage,
+  CursorParams,
+  KeysetValues,
+  decodeKeysetCursor,
+  encodeKeysetCursor,
+  isUuid,
+  toCursorPage
+} from './cursors';
+import { PUBLIC_LISTING_STATUSES } from './listing-lifecycle';
+
+const prisma = new PrismaClient();
+
+export const APARTMENT_SORTS = [
+  'newest',
+  'price',
+  'area',
+  'price-per-sqm',
+  'bedrooms',
+  'most-watched',
+  'best-rated',
+  'distance'
+] as const;
+
+export type ApartmentSort = typeof APARTMENT_SORTS[number];
+
+export const APARTMENT_SCOPES = ['browse', 'mine', 'all'] as const;
+
+export type ApartmentScope = typeof APARTMENT_SCOPES[number];
+export type SortOrder = 'asc' | 'desc';
+
+export type LocationFilter = Pick<ApartmentSearch, 'near' | 'radiusKm' | 'bbox' | 'polygon'>;
+export type FinancingFilter = Pick<ApartmentSearch, 'maxDownPayment' | 'maxMonthlyInstallment'>;
+export type Coordinates = NonNullable<ApartmentSearch['near']>;
+export type BoundingBox = NonNullable<ApartmentSearch['bbox']>;
+
+export type ApartmentFilterOptions = Pick<
+  ApartmentSearch,
+  | 'projectIds' | 'cityIds' | 'listerIds' | 'statuses' | 'minPrice' | 'maxPrice' | 'minArea' | 'maxArea'
+  | 'listingType' | 'rentPeriods' | 'furnished' | 'maxDeposit' | 'leaseMonths' | 'availableBy'
+  | 'bedrooms' | 'minBedrooms' | 'maxBedrooms' | 'bathrooms' | 'minBathrooms' | 'maxBathrooms'
+  | 'amenities' | 'anyAmenities'
+>;
+
+export type ApartmentListOptions = LocationFilter & FinancingFilter & Pick<
+  ApartmentSearch,
+  'search' | 'sortBy' | 'sortOrder' | 'page' | 'limit' | 'after' | 'before' | 'includeTotal'
+>;
+
+export type ApartmentPageOptions = ApartmentFilterOptions & ApartmentListOptions & Pick<ApartmentSearch, 'scope'>;
+
+export interface SearchHighlight {
+  unitName: string;
+  description: string | null;
+}
+
+// ts_headline wraps matches in these; the fragment is HTML-escaped afterwards and they
+// become <mark> tags, so listing text can never inject markup into the snippet
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Listings with one of the exact `counts` or within min..max (either bound may be open, so
+// minBedrooms 5 alone means "5 or more"); null when neither is given
+function toRoomCountSql(column: 'bedrooms' | 'bathrooms', counts?: number[], min?: number, max?: number): Prisma.Sql | null {
+  const field = Prisma.raw(`a.${column}`);
+  const alternatives: Prisma.Sql[] = [];
+
+  if (counts && counts.length > 0) {
+    alternatives.push(Prisma.sql`${field} = ANY(${counts}::int[])`);
+  }
+  if (min !== undefined || max !== undefined) {
+    const bounds = [
+      min !== undefined ? Prisma.sql`${field} >= ${min}::int` : null,
+      max !== undefined ? Prisma.sql`${field} <= ${max}::int` : null
+    ].filter(Boolean) as Prisma.Sql[];
+    alternatives.push(Prisma.join(bounds, ' AND '));
+  }
+
+  if (alternatives.length === 0) {
+    return null;
+  }
+  return Prisma.sql`(${Prisma.join(alternatives.map(alternative => Prisma.sql`(${alternative})`), ' OR ')})`;
+}
+
+// Which listings a caller sees. `browse` (the default) hides their own and anything not public,
+// and unless statuses are filtered explicitly only shows PUBLISHED ones; `mine` is only their own
+// in any status; `all` is every listing and is reserved to moderators by the routes.
+export function toScopeSql(scope: ApartmentScope, userId: string, statusFiltered: boolean): Prisma.Sql[] {
+  switch (scope) {
+    case 'browse':
+      return [
+        Prisma.sql`a.lister_id <> ${userId}::uuid`,
+        statusFiltered
+          ? Prisma.sql`a.status = ANY(${[...PUBLIC_LISTING_STATUSES]}::"ApartmentStatus"[])`
+          : Prisma.sql`a.status = 'PUBLISHED'`
+      ];
+    case 'mine':
+      return [Prisma.sql`a.lister_id = ${userId}::uuid`];
+    case 'all':
+      return [];
+  }
+}
+
+// Listings with at least one of `amenities`; names match case-insensitively
+function hasAmenitySql(amenities: string[]) {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM apartment_amenities am
+    WHERE am.apartment_id = a.id AND lower(am.amenity) IN (SELECT lower(name) FROM unnest(${amenities}::text[]) name)
+  )`;
+}
+
+// The plain column filters of a search body, as conditions over `apartments a`; the search, area
+// and financing options are added by toMatchSql
+export function toFilterSql(filters: ApartmentFilterOptions): Prisma.Sql[] {
+  const conditions: (Prisma.Sql | null)[] = [
+    filters.projectIds?.length ? Prisma.sql`a.project_id = ANY(${filters.projectIds}::uuid[])` : null,
+    filters.listerIds?.length ? Prisma.sql`a.lister_id = ANY(${filters.listerIds}::uuid[])` : null,
+    filters.statuses?.length ? Prisma.sql`a.status = ANY(${filters.statuses}::"ApartmentStatus"[])` : null,
+    filters.listingType ? Prisma.sql`a.listing_type = ${filters.listingType}::"ListingType"` : null,
+    filters.rentPeriods?.length ? Prisma.sql`a.rent_period = ANY(${filters.rentPeriods}::"RentPeriod"[])` : null,
+    filters.furnished !== undefined ? Prisma.sql`a.furnished = ${filters.furnished}` : null,
+    filters.cityIds?.length
+      ? Prisma.sql`a.project_id IN (SELECT p.id FROM projects p WHERE p.city_id = ANY(${filters.cityIds}::uuid[]))`
+      : null,
+    filters.minPrice ? Prisma.sql`a.price_egp >= ${filters.minPrice}::numeric` : null,
+    filters.maxPrice ? Prisma.sql`a.price_egp <= ${filters.maxPrice}::numeric` : null,
+    filters.minArea ? Prisma.sql`a.area_sqm >= ${filters.minArea}::numeric` : null,
+    filters.maxArea ? Prisma.sql`a.area_sqm <= ${filters.maxArea}::numeric` : null,
+    filters.maxDeposit ? Prisma.sql`(a.deposit_egp IS NULL OR a.deposit_egp <= ${filters.maxDeposit}::numeric)` : null,
+    filters.leaseMonths ? Prisma.sql`(a.min_lease_months IS NULL OR a.min_lease_months <= ${filters.leaseMonths}::int)` : null,
+    // availableFrom is a calendar date; the requested one is taken in UTC
+    filters.availableBy
+      ? Prisma.sql`(a.available_from IS NULL OR a.available_from <= ${filters.availableBy.toISOString().slice(0, 10)}::date)`
+      : null,
+    toRoomCountSql('bedrooms', filters.bedrooms, filters.minBedrooms, filters.maxBedrooms),
+    toRoomCountSql('bathrooms', filters.bathrooms, filters.minBathrooms, filters.maxBathrooms),
+    // Every one of `amenities`, and at least one of `anyAmenities`
+    ...(filters.amenities ?? []).map(amenity => hasAmenitySql([amenity])),
+    filters.anyAmenities?.length ? hasAmenitySql(filters.anyAmenities) : null
+  ];
+
+  return conditions.filter(Boolean) as Prisma.Sql[];
+}
+
+// Every word of the query must match, each as a prefix ("new cai" finds "New Cairo").
+// Only letters and digits survive, so user input cannot produce tsquery syntax.
+export function toPrefixQuery(search: string): string | null {
+  const terms = search.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+}
+
+// Listings matching every word of `search`; none when it has no words. The `search_vector`
+// column is kept up to date by triggers (see the add_apartment_search migration).
+function toSearchSql(search: string): Prisma.Sql {
+  const tsquery = toPrefixQuery(search);
+  return tsquery ? Prisma.sql`a.search_vector @@ to_tsquery('simple', ${tsquery})` : Prisma.sql`FALSE`;
+}
+
+function searchRankSql(search: string) {
+  const tsquery = toPrefixQuery(search);
+  return tsquery ? Prisma.sql`ts_rank(a.search_vector, to_tsquery('simple', ${tsquery}))` : Prisma.sql`0::real`;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toHighlightHtml(fragment: string) {
+  return escapeHtml(fragment).split(MATCH_START).join('<mark>').split(MATCH_END).join('</mark>');
+}
+
+// Returns a page of apartments fetched with `id IN (...)` in the order of `ids`
+function orderByIds<T extends { id: string }>(apartments: T[], ids: string[]) {
+  const positions = new Map(ids.map((id, index) => [id, index]));
+  return [...apartments].sort((a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0));
+}
+
+// Attaches the relevance rank and highlighted snippets of a page of search results
+async function withSearchHighlights<T extends { id: string }>(apartments: T[], ranks: Map<string, number>, search: string) {
+  const tsquery = toPrefixQuery(search);
+  if (!tsquery || apartments.length === 0) {
+    return [];
+  }
+
+  const rows = await prisma.$queryRaw<{ id: string; unit_name: string; description: string | null }[]>`
+    SELECT
+      a.id,
+      ts_headline('simple', a.unit_name, query, ${HEADLINE_OPTIONS}) AS unit_name,
+      CASE WHEN a.description IS NULL THEN NULL
+        ELSE ts_headline('simple', a.description, query, ${HEADLINE_OPTIONS})
+      END AS description
+    FROM apartments a, to_tsquery('simple', ${tsquery}) query
+    WHERE a.id = ANY(${apartments.map(apartment => apartment.id)}::uuid[])
+  `;
+
+  const highlights = new Map<string, SearchHighlight>(rows.map(row => [row.id, {
+    unitName: toHighlightHtml(row.unit_name),
+    description: row.description === null ? null : toHighlightHtml(row.description)
+  }]));
+  return apartments.map(apartment => ({
+    ...apartment,
+    searchRank: ranks.get(apartment.id) ?? 0,
+    highlight: highlights.get(apartment.id) ?? null
+  }));
+}
+
+// Same sphere as earthdistance's earth(), so circles computed here line up with the database's
+const EARTH_RADIUS_METERS = 6378168;
+
+function toRadians(degrees: number) {
+  return degrees * Math.PI / 180;
+}
+
+function distanceMeters(from: Coordinates, to: Coordinates) {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function extentOf(points: Coordinates[]): BoundingBox {
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  return {
+    minLatitude: Math.min(...latitudes),
+    minLongitude: Math.min(...longitudes),
+    maxLatitude: Math.max(...latitudes),
+    maxLongitude: Math.max(...longitudes)
+  };
+}
+
+// Box and polygon tests are not indexable, so they are paired with an earth_box around the
+// circle enclosing the area, which the GiST index on `location` can answer
+function withinExtent(box: BoundingBox) {
+  const center = {
+    latitude: (box.minLatitude + box.maxLatitude) / 2,
+    longitude: (box.minLongitude + box.maxLongitude) / 2
+  };
+  const corners = [
+    { latitude: box.minLatitude, longitude: box.minLongitude },
+    { latitude: box.minLatitude, longitude: box.maxLongitude },
+    { latitude: box.maxLatitude, longitude: box.minLongitude },
+    { latitude: box.maxLatitude, longitude: box.maxLongitude }
+  ];
+  const radius = Math.max(...corners.map(corner => distanceMeters(center, corner))) * 1.01;
+
+  return Prisma.sql`earth_box(ll_to_earth(${center.latitude}::float8, ${center.longitude}::float8), ${radius}::float8) @> a.location`;
+}
+
+function earthPoint(point: Coordinates) {
+  return Prisma.sql`ll_to_earth(${point.latitude}::float8, ${point.longitude}::float8)`;
+}
+
+// Listings inside the requested area. `location` falls back to the project's coordinates and is
+// kept up to date by triggers (see the add_apartment_location migration).
+function toLocationSql(filter: LocationFilter): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filter.near && filter.radiusKm) {
+    const radius = filter.radiusKm * 1000;
+    conditions.push(
+      Prisma.sql`earth_box(${earthPoint(filter.near)}, ${radius}::float8) @> a.location`,
+      Prisma.sql`earth_distance(${earthPoint(filter.near)}, a.location) <= ${radius}::float8`
+    );
+  }
+
+  if (filter.bbox) {
+    const { minLatitude, minLongitude, maxLatitude, maxLongitude } = filter.bbox;
+    conditions.push(
+      withinExtent(filter.bbox),
+      Prisma.sql`latitude(a.location) BETWEEN ${minLatitude}::float8 AND ${maxLatitude}::float8`,
+      Prisma.sql`longitude(a.location) BETWEEN ${minLongitude}::float8 AND ${maxLongitude}::float8`
+    );
+  }
+
+  if (filter.polygon) {
+    // Drawn areas are small enough to test on the flat (longitude, latitude) plane
+    const path = `(${filter.polygon.map(point => `(${point.longitude},${point.latitude})`).join(',')})`;
+    conditions.push(
+      withinExtent(extentOf(filter.polygon)),
+      Prisma.sql`${path}::polygon @> point(longitude(a.location), latitude(a.location))`
+    );
+  }
+
+  return conditions;
+}
+
+// Kilometres from `origin`, null when neither the apartment nor its project has coordinates
+function distanceSql(origin: Coordinates) {
+  return Prisma.sql`earth_distance(${earthPoint(origin)}, a.location) / 1000`;
+}
+
+function hasFinancingFilter(filter: FinancingFilter) {
+  return Boolean(filter.maxDownPayment || filter.maxMonthlyInstallment);
+}
+
+// Sale listings with a payment plan (their own or their project's) that fits both limits at
+// once. Installments are compared as a monthly amount, so a quarterly plan counts a third of
+// each installment.
+function toFinancingSql(filter: FinancingFilter): Prisma.Sql[] {
+  const limits: Prisma.Sql[] = [];
+
+  if (filter.maxDownPayment) {
+    limits.push(Prisma.sql`a.price_egp * p.down_payment_percent / 100 <= ${filter.maxDownPayment}::numeric`);
+  }
+
+  if (filter.maxMonthlyInstallment) {
+    limits.push(
+      Prisma.sql`a.price_egp * (100 - p.down_payment_percent) / 100 / (p.years * 12) <= ${filter.maxMonthlyInstallment}::numeric`
+    );
+  }
+
+  return [
+    Prisma.sql`a.listing_type = 'SALE'`,
+    Prisma.sql`a.price_egp IS NOT NULL`,
+    Prisma.sql`EXISTS (
+      SELECT 1 FROM payment_plans p
+      WHERE (p.apartment_id = a.id OR p.project_id = a.project_id) AND ${Prisma.join(limits, ' AND ')}
+    )`
+  ];
+}
+
+// The search, area and financing conditions of a request, which narrow every sort and facet alike
+export function toMatchSql(options: LocationFilter & FinancingFilter & Pick<ApartmentSearch, 'search'>): Prisma.Sql[] {
+  return [
+    ...toLocationSql(options),
+    ...(hasFinancingFilter(options) ? toFinancingSql(options) : []),
+    ...(options.search ? [toSearchSql(options.search)] : [])
+  ];
+}
+
+// Direction used when a sort is requested without sortOrder
+const DEFAULT_SORT_ORDERS: Record<ApartmentSort, SortOrder> = {
+  newest: 'desc',
+  price: 'asc',
+  area: 'desc',
+  'price-per-sqm': 'asc',
+  bedrooms: 'desc',
+  'most-watched': 'desc',
+  'best-rated': 'desc',
+  distance: 'asc'
+};
+
+// One column of an ordering resolved in SQL. `type` says how its values travel in cursors:
+// numbers that JSON cannot carry exactly (numerics, bigints, timestamps in microseconds) as strings.
+interface SortKey {
+  sql: Prisma.Sql;
+  order: SortOrder;
+  type: 'uuid' | 'numeric' | 'integer' | 'float' | 'timestamp';
+  nullable?: boolean;
+}
+
+const DECIMAL_PATTERN = /^-?\d{1,20}(\.\d{1,10})?$/;
+const INTEGER_PATTERN = /^-?\d{1,18}$/;
+
+// Ties fall back to newest first, then id, so pages never overlap or skip a listing.
+// NULLs (unpriced listings, unrated ones...) sort last in either direction.
+function toSortKeys(sortBy: Exclude<ApartmentSort, 'distance'>, order: SortOrder): SortKey[] {
+  const tiebreak: SortKey[] = [
+    { sql: Prisma.sql`a.created_at`, order: 'desc', type: 'timestamp' },
+    { sql: Prisma.sql`a.id`, order: 'asc', type: 'uuid' }
+  ];
+
+  switch (sortBy) {
+    case 'newest':
+      return [{ sql: Prisma.sql`a.created_at`, order, type: 'timestamp' }, { sql: Prisma.sql`a.id`, order, type: 'uuid' }];
+    case 'price':
+      return [{ sql: Prisma.sql`a.price_egp`, order, type: 'numeric', nullable: true }, ...tiebreak];
+    case 'area':
+      return [{ sql: Prisma.sql`a.area_sqm`, order, type: 'numeric', nullable: true }, ...tiebreak];
+    case 'price-per-sqm':
+      return [{ sql: Prisma.sql`a.price_per_sqm`, order, type: 'numeric', nullable: true }, ...tiebreak];
+    case 'bedrooms':
+      return [{ sql: Prisma.sql`a.bedrooms`, order, type: 'integer', nullable: true }, ...tiebreak];
+    case 'most-watched':
+      return [{ sql: Prisma.sql`(SELECT count(*) FROM watchlists w WHERE w.apartment_id = a.id)`, order, type: 'integer' }, ...tiebreak];
+    case 'best-rated':
+      return [{ sql: Prisma.sql`a.average_rating`, order, type: 'numeric', nullable: true }, ...tiebreak];
+  }
+}
+
+// Nearest first (or farthest with desc); apartments without any coordinates stay last either way
+function toDistanceKeys(origin: Coordinates, order: SortOrder): SortKey[] {
+  return [
+    { sql: distanceSql(origin), order, type: 'float', nullable: true },
+    { sql: Prisma.sql`a.created_at`, order: 'desc', type: 'timestamp' },
+    { sql: Prisma.sql`a.id`, order: 'asc', type: 'uuid' }
+  ];
+}
+
+// Best match first; the rank is a real, compared as a float8 so cursor values round-trip exactly
+function toRelevanceKeys(search: string): SortKey[] {
+  return [
+    { sql: searchRankSql(search), order: 'desc', type: 'float' },
+    { sql: Prisma.sql`a.created_at`, order: 'desc', type: 'timestamp' },
+    { sql: Prisma.sql`a.id`, order: 'asc', type: 'uuid' }
+  ];
+}
+
+function isSortValue(key: SortKey, value: unknown) {
+  if (value === null) {
+    return Boolean(key.nullable);
+  }
+  switch (key.type) {
+    case 'uuid':
+      return isUuid(value);
+    case 'numeric':
+      return typeof value === 'string' && DECIMAL_PATTERN.test(value);
+    case 'integer':
+    case 'timestamp':
+      return typeof value === 'string' && INTEGER_PATTERN.test(value);
+    case 'float':
+      return typeof value === 'number' && Number.isFinite(value);
+  }
+}
+
+// The key's value as selected for a cursor
+function selectSortValue(key: SortKey) {
+  switch (key.type) {
+    case 'uuid':
+      return key.sql;
+    case 'numeric':
+    case 'integer':
+      return Prisma.sql`(${key.sql})::text`;
+    case 'timestamp':
+      return Prisma.sql`(extract(epoch from ${key.sql}) * 1000000)::bigint::text`;
+    case 'float':
+      return Prisma.sql`(${key.sql})::float8`;
+  }
+}
+
+// A cursor value back as a SQL value comparable with the key
+function bindSortValue(key: SortKey, value: string | number) {
+  switch (key.type) {
+    case 'uuid':
+      return Prisma.sql`${value}::uuid`;
+    case 'numeric':
+      return Prisma.sql`${value}::numeric`;
+    case 'integer':
+      return Prisma.sql`${value}::bigint`;
+    case 'timestamp':
+      return Prisma.sql`(to_timestamp(0) + ${value}::bigint * interval '1 microsecond')`;
+    case 'float':
+      return Prisma.sql`${value}::float8`;
+  }
+}
+
+// Rows strictly past `value` on one key in the given direction, or null when there are none
+function beyondSql(key: SortKey, value: string | number | null, direction: 'after' | 'before'): Prisma.Sql | null {
+  if (value === null) {
+    // NULLs come last: nothing but other NULLs follows one, and every value precedes it
+    return direction === 'after' ? null : Prisma.sql`${key.sql} IS NOT NULL`;
+  }
+
+  const ascending = (key.order === 'asc') === (direction === 'after');
+  const compared = ascending
+    ? Prisma.sql`${key.sql} > ${bindSortValue(key, value)}`
+    : Prisma.sql`${key.sql} < ${bindSortValue(key, value)}`;
+  return direction === 'after' && key.nullable ? Prisma.sql`(${compared} OR ${key.sql} IS NULL)` : compared;
+}
+
+// Rows after (or before) the cursor row in the order of `keys`: equal on every earlier key and past it on this one
+function keysetSql(keys: SortKey[], values: KeysetValues, direction: 'after' | 'before'): Prisma.Sql {
+  const branches = keys.flatMap((key, index) => {
+    const beyond = beyondSql(key, values[index], direction);
+    if (!beyond) {
+      return [];
+    }
+    const equal = keys.slice(0, index).map((previous, position) => values[position] === null
+      ? Prisma.sql`${previous.sql} IS NULL`
+      : Prisma.sql`${previous.sql} = ${bindSortValue(previous, values[position]!)}`);
+    return [Prisma.sql`(${Prisma.join([...equal, beyond], ' AND ')})`];
+  });
+
+  return branches.length > 0 ? Prisma.sql`(${Prisma.join(branches, ' OR ')})` : Prisma.sql`FALSE`;
+}
+
+// `before` pages are read backwards from the cursor and put back in order afterwards
+function orderBySql(keys: SortKey[], reversed: boolean) {
+  return Prisma.join(keys.map(key => {
+    const direction = (key.order === 'asc') !== reversed ? 'ASC' : 'DESC';
+    const nulls = key.nullable ? (reversed ? ' NULLS FIRST' : ' NULLS LAST') : '';
+    return Prisma.sql`${key.sql} ${Prisma.raw(direction + nulls)}`;
+  }), ', ');
+}
+
+interface KeysetRow {
+  id: string;
+  searchRank: number | null;
+  distanceKm: number | null;
+  keys: KeysetValues;
+}
+
+// One page of the apartments matching `conditions` in the order of `keys`, by offset or keyset cursor,
+// fetching one extra row to tell whether more remain. Each row's rank against `search` and distance
+// from `near` come along when those are given.
+async function findKeysetPage(
+  scope: string,
+  conditions: Prisma.Sql[],
+  keys: SortKey[],
+  params: CursorParams,
+  { search, near }: Pick<ApartmentListOptions, 'search' | 'near'>
+) {
+  const token = params.after ?? params.before;
+  const values = token
+    ? decodeKeysetCursor(scope, token, cursor => cursor.length === keys.length && keys.every((key, index) => isSortValue(key, cursor[index])))
+    : null;
+  const reversed = Boolean(params.before);
+  const where = values ? [...conditions, keysetSql(keys, values, reversed ? 'before' : 'after')] : conditions;
+  const offset = values ? 0 : ((params.page ?? 1) - 1) * params.limit;
+
+  const rows = await prisma.$queryRaw<Record<string, any>[]>`
+    SELECT
+      a.id,
+      ${search ? Prisma.sql`${searchRankSql(search)}::float8` : Prisma.sql`NULL::float8`} AS "searchRank",
+      ${near ? distanceSql(near) : Prisma.sql`NULL::float8`} AS "distanceKm",
+      ${Prisma.join(keys.map((key, index) => Prisma.sql`${selectSortValue(key)} AS ${Prisma.raw(`k${index}`)}`), ', ')}
+    FROM apartments a
+    WHERE ${whereSql(where)}
+    ORDER BY ${orderBySql(keys, reversed)}
+    OFFSET ${offset} LIMIT ${params.limit + 1}
+  `;
+  const ordered: KeysetRow[] = (reversed ? rows.reverse() : rows).map(row => ({
+    id: row.id,
+    searchRank: row.searchRank,
+    distanceKm: row.distanceKm,
+    keys: keys.map((_, index) => row[`k${index}`])
+  }));
+
+  return toCursorPage(scope, ordered, params, row => encodeKeysetCursor(scope, row.keys));
+}
+
+// The AND of `conditions`, for a WHERE clause over `apartments a`
+export function whereSql(conditions: Prisma.Sql[]) {
+  return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+}
+
+export async function countMatching(where: Prisma.Sql) {
+  const [{ count }] = await prisma.$queryRaw<{ count: number }[]>`
+    SELECT count(*)::int AS count
+    FROM apartments a
+    WHERE ${where}
+  `;
+  return count;
+}
+
+// One page of the apartments `userId` may see in `options.scope` that match the filters and the
+// search/location/financing options, by offset or keyset cursor. Every sort, relevance (the default
+// when searching) and distance included, is one SQL statement with the search and area as conditions.
+export async function findApartmentPage(options: ApartmentPageOptions, userId: string, include: Prisma.ApartmentInclude) {
+  const sortBy = options.sortBy ?? (options.search ? undefined : 'newest');
+  const sortOrder = sortBy ? options.sortOrder ?? DEFAULT_SORT_ORDERS[sortBy] : undefined;
+  const viewScope = options.scope ?? 'browse';
+  const statusFiltered = Boolean(options.statuses?.length);
+
+  const conditions = [
+    ...toFilterSql(options),
+    ...toScopeSql(viewScope, userId, statusFiltered),
+    ...toMatchSql(options)
+  ];
+
+  const keys = sortBy === 'distance'
+    ? toDistanceKeys(options.near!, sortOrder!)
+    : sortBy ? toSortKeys(sortBy, sortOrder!) : toRelevanceKeys(options.search!);
+
+  // Cursors are tied to the ordering, so a token from another sort is rejected
+  const scope = `apartments:${sortBy ?? 'relevance'}:${sortOrder ?? 'desc'}`;
+  const params = { after: options.after, before: options.before, page: options.page, limit: options.limit };
+
+  const [page, total] = await Promise.all([
+    findKeysetPage(scope, conditions, keys, params, options),
+    options.includeTotal ? countMatching(whereSql(conditions)) : undefined
+  ]);
+
+  const pageIds = page.items.map(match => match.id);
+  const rows = new Map(page.items.map(match => [match.id, match]));
+  let apartments: any[] = orderByIds(await prisma.apartment.findMany({ where: { id: { in: pageIds } }, include }), pageIds);
+
+  if (options.search) {
+    const ranks = new Map(page.items.map(match => [match.id, match.searchRank ?? 0]));
+    apartments = await withSearchHighlights(apartments, ranks, options.search);
+  }
+  if (options.near) {
+    apartments = apartments.map(apartment => {
+      const distanceKm = rows.get(apartment.id)?.distanceKm ?? null;
+      return { ...apartment, distanceKm: distanceKm === null ? null : Math.round(distanceKm * 100) / 100 };
+    });
+  }
+
+  return {
+    apartments,
+    total: options.includeTotal ? total : undefined,
+    nextCursor: page.nextCursor,
+    prevCursor: page.prevCursor
+  };
+}
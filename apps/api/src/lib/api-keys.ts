@@ -0,0 +1,121 @@
+import { PrismaClient } from '@prisma/client';
+import type { AuthenticatedUser } from './auth';
+import { isPermission } from './permissions';
+import { generateToken, hashToken } from './tokens';
+
+const prisma = new PrismaClient();
+
+// Partners send their key in this header instead of a Bearer token
+export const API_KEY_HEADER = 'x-api-key';
+// Every key starts with this, so leaked keys are easy to recognise (e.g. by secret scanners)
+const KEY_PREFIX = 'nawy_';
+// Characters of the key kept in clear text to tell keys apart in listings
+const DISPLAY_PREFIX_LENGTH = 12;
+// Skip the last-used write when the key was already used this recently
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const MAX_ACTIVE_API_KEYS = 10;
+export const DEFAULT_API_KEY_TTL_DAYS = 90;
+
+// What a key may be used for. Routes opt in with `apiKeyScope` in their policy; routes
+// without one refuse API keys. The owner's permissions still apply on top.
+export const API_KEY_SCOPES = {
+  'listings:read': 'Search and read apartment listings',
+  'listings:write': 'Create, update and delete your listings with their images and amenities',
+  'catalog:write': 'Add cities and projects'
+} as const;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export interface AuthenticatedApiKey {
+  id: string;
+  scopes: ApiKeyScope[];
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    apiKey?: AuthenticatedApiKey;
+  }
+}
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return Object.prototype.hasOwnProperty.call(API_KEY_SCOPES, value);
+}
+
+// Returns the key (shown once) and what is stored: its hash and a display prefix
+export function generateApiKey() {
+  const key = `${KEY_PREFIX}${generateToken()}`;
+  return {
+    key,
+    keyHash: hashToken(key),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH)
+  };
+}
+
+export async function authenticateApiKey(request: any, reply: any) {
+  const presentedKey = request.headers[API_KEY_HEADER];
+
+  if (typeof presentedKey !== 'string' || !presentedKey.startsWith(KEY_PREFIX)) {
+    return reply.code(401).send({
+      success: false,
+      error: 'Invalid API key'
+    });
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(presentedKey) },
+    select: {
+      id: true,
+      scopes: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          isVerified: true,
+          twoFactorEnabled: true,
+          deletionScheduledAt: true,
+          deletedAt: true,
+          roleDefinition: { select: { permissions: true } }
+        }
+      }
+    }
+  });
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+    return reply.code(401).send({
+      success: false,
+      error: 'API key expired or revoked'
+    });
+  }
+
+  if (apiKey.user.deletionScheduledAt || apiKey.user.deletedAt) {
+    return reply.code(401).send({
+      success: false,
+      error: 'Account has been deleted'
+    });
+  }
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now, lastUsedIp: request.ip }
+    });
+  }
+
+  const { roleDefinition, deletionScheduledAt, deletedAt, ...user } = apiKey.user;
+  const authenticatedUser: AuthenticatedUser = {
+    ...user,
+    permissions: roleDefinition.permissions.filter(isPermission)
+  };
+
+  request.user = authenticatedUser;
+  request.apiKey = {
+    id: apiKey.id,
+    scopes: apiKey.scopes.filter(isApiKeyScope)
+  };
+}
@@ -0,0 +1,208 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Entities whose mutations are recorded in the audit log
+export const AUDIT_ENTITIES = ['apartment', 'user', 'project', 'city', 'review', 'visit', 'paymentPlan'] as const;
+
+export type AuditEntity = typeof AUDIT_ENTITIES[number];
+
+export interface AuditRule {
+  entity: AuditEntity;
+  // Recorded as `<entity>.<action>`; defaults to create/update/delete from the HTTP method
+  action?: string;
+  // Route param holding the entity id (defaults to 'id'); creates read it from the response
+  key?: string;
+  // The entity is the caller's own account (`/users/me` routes)
+  self?: boolean;
+}
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    audit?: AuditRule;
+  }
+  interface FastifyRequest {
+    auditBefore?: Record<string, unknown> | null;
+    auditEntityId?: string;
+  }
+}
+
+type Snapshot = Record<string, unknown>;
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete'
+};
+
+// Bookkeeping columns that would only add noise to every diff
+const IGNORED_FIELDS = ['createdAt', 'updatedAt'];
+
+// Loads the audited columns of an entity; secrets (password hash, 2FA secret) are never selected
+const snapshotLoaders: Record<AuditEntity, (id: string) => Promise<Snapshot | null>> = {
+  apartment: (id) => prisma.apartment.findUnique({ where: { id } }),
+  user: (id) => prisma.user.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      phone: true,
+      avatarUrl: true,
+      isVerified: true,
+      twoFactorEnabled: true,
+      deletionScheduledAt: true,
+      deletedAt: true
+    }
+  }),
+  project: (id) => prisma.project.findUnique({ where: { id } }),
+  city: (id) => prisma.city.findUnique({ where: { id } }),
+  review: (id) => prisma.review.findUnique({ where: { id } }),
+  visit: (id) => prisma.visit.findUnique({ where: { id } }),
+  paymentPlan: (id) => prisma.paymentPlan.findUnique({ where: { id } })
+};
+
+// Normalises Decimal, Date and BigInt values the same way responses do
+function toJson(snapshot: Snapshot | null | undefined): Snapshot {
+  if (!snapshot) {
+    return {};
+  }
+  return JSON.parse(JSON.stringify(snapshot, (key, value) => typeof value === 'bigint' ? Number(value) : value));
+}
+
+export function diffSnapshots(before: Snapshot | null | undefined, after: Snapshot | null | undefined) {
+  const previous = toJson(before);
+  const next = toJson(after);
+  const changes: Record<string, FieldChange> = {};
+
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue;
+    }
+    const beforeValue = previous[field] ?? null;
+    const afterValue = next[field] ?? null;
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+
+  return changes;
+}
+
+function entityIdFromRequest(request: any, rule: AuditRule): string | undefined {
+  return rule.self ? request.user?.id : request.params?.[rule.key ?? 'id'];
+}
+
+function entityIdFromResponse(payload: unknown) {
+  if (typeof payload !== 'string') {
+    return undefined;
+  }
+  try {
+    const id = JSON.parse(payload)?.data?.id;
+    return typeof id === 'string' ? id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function requestMetadata(request: any, reply: any) {
+  return {
+    method: request.method,
+    url: request.url,
+    requestId: request.id,
+    statusCode: reply.statusCode,
+    ...(request.apiKey && { apiKeyId: request.apiKey.id }),
+    ...(request.sessionId && { sessionId: request.sessionId })
+  };
+}
+
+async function recordAuditEvent(request: any, reply: any, rule: AuditRule, method: string) {
+  const entityId = entityIdFromRequest(request, rule) ?? request.auditEntityId;
+  const verb = rule.action ?? METHOD_ACTIONS[method];
+  // Rows that were really deleted load as null, so the diff lists every field as removed
+  const after = entityId ? await snapshotLoaders[rule.entity](entityId) : null;
+
+  await prisma.auditEvent.create({
+    data: {
+      actorId: request.user?.id,
+      action: `${rule.entity}.${verb}`,
+      entityType: rule.entity,
+      entityId,
+      changes: diffSnapshots(request.auditBefore, after) as any,
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent']?.slice(0, 255),
+      metadata: requestMetadata(request, reply)
+    }
+  });
+}
+
+// onResponse hook: while an admin views the app as another user, every request they make
+// (including refused ones) is recorded against the admin, with the viewed user as the entity
+export async function auditImpersonatedRequest(request: any, reply: any) {
+  if (!request.impersonator) {
+    return;
+  }
+
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        actorId: request.impersonator.id,
+        action: 'user.impersonated_request',
+        entityType: 'user',
+        entityId: request.user.id,
+        ipAddress: request.ip,
+        userAgent: request.headers['user-agent']?.slice(0, 255),
+        metadata: requestMetadata(request, reply)
+      }
+    });
+  } catch (error) {
+    request.log.error(error, 'Failed to record audit event');
+  }
+}
+
+// onRoute hook: routes that declare `config.audit` get their before/after state captured
+// and a row written to `audit_events` once they succeed, so handlers stay unaware of auditing.
+export function applyAuditLog(routeOptions: any) {
+  const rule: AuditRule | undefined = routeOptions.config?.audit;
+  if (!rule) {
+    return;
+  }
+
+  const method = [].concat(routeOptions.method)[0] as string;
+
+  // Runs after the access policy, so unauthorised requests are never snapshotted
+  const captureBefore = async (request: any) => {
+    const entityId = entityIdFromRequest(request, rule);
+    request.auditBefore = entityId ? await snapshotLoaders[rule.entity](entityId) : null;
+  };
+
+  const captureCreatedId = async (request: any, reply: any, payload: unknown) => {
+    if (!entityIdFromRequest(request, rule)) {
+      request.auditEntityId = entityIdFromResponse(payload);
+    }
+    return payload;
+  };
+
+  const writeEvent = async (request: any, reply: any) => {
+    if (reply.statusCode >= 400) {
+      return;
+    }
+    try {
+      await recordAuditEvent(request, reply, rule, method);
+    } catch (error) {
+      // The change itself went through; a lost audit row must not turn it into an error
+      request.log.error(error, 'Failed to record audit event');
+    }
+  };
+
+  routeOptions.preHandler = [...(routeOptions.preHandler ? [].concat(routeOptions.preHandler) : []), captureBefore];
+  routeOptions.onSend = [...(routeOptions.onSend ? [].concat(routeOptions.onSend) : []), captureCreatedId];
+  routeOptions.onResponse = [...(routeOptions.onResponse ? [].concat(routeOptions.onResponse) : []), writeEvent];
+}
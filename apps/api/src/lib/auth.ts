@@ -1,61 +1,129 @@
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { ACCESS_COOKIE, isSafeMethod, verifyCsrf } from './cookies';
+import { isPermission, Permission } from './permissions';
+import { API_KEY_HEADER, authenticateApiKey } from './api-keys';
 
 const prisma = new PrismaClient();
-const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key';
-
-export type UserRole = 'ADMIN' | 'USER' | 'AGENT';
+export const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key';
 
 export interface AuthenticatedUser {
   id: string;
   email: string;
-  role: UserRole;
+  // Name of the user's role; what it allows is in `permissions`
+  role: string;
+  permissions: Permission[];
+  isVerified: boolean;
+  twoFactorEnabled: boolean;
+}
+
+// The admin behind an impersonation session; `user` is the account being viewed
+export interface Impersonator {
+  id: string;
+  email: string;
+  name: string;
+  sessionId: string | null;
 }
 
 declare module 'fastify' {
   interface FastifyRequest {
     user?: AuthenticatedUser;
+    sessionId?: string;
+    impersonator?: Impersonator;
   }
 }
 
 export async function authenticateToken(request: any, reply: any) {
   try {
+    // Partner integrations authenticate with an API key instead of a session
+    if (request.headers[API_KEY_HEADER]) {
+      return await authenticateApiKey(request, reply);
+    }
+
     const authHeader = request.headers.authorization;
-    
-    if (!authHeader?.startsWith('Bearer ')) {
+    const cookieToken = request.cookies?.[ACCESS_COOKIE];
+    let token: string;
+
+    // API clients send a Bearer header, the web app an httpOnly cookie
+    if (authHeader?.startsWith('Bearer ')) {
+      token = authHeader.substring(7); // Remove 'Bearer ' prefix
+    } else if (cookieToken) {
+      // Browsers attach cookies to cross-site requests too, so writes must prove same-origin
+      if (!isSafeMethod(request.method) && !verifyCsrf(request)) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Invalid or missing CSRF token'
+        });
+      }
+      token = cookieToken;
+    } else {
       return reply.code(401).send({
         success: false,
         error: 'Authorization token required'
       });
     }
-
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
     
     // Verify JWT token
     const decoded = jwt.verify(token, JWT_SECRET) as any;
+
+    if (!decoded.sessionId) {
+      return reply.code(401).send({
+        success: false,
+        error: 'Invalid or expired token'
+      });
+    }
     
-    // Get user from database
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
+    // Get the session (and its user) so revoked sessions are rejected immediately
+    const session = await prisma.session.findUnique({
+      where: { id: decoded.sessionId },
       select: {
-        id: true,
-        email: true,
-        role: true,
-        name: true,
-        avatarUrl: true
+        revokedAt: true,
+        expiresAt: true,
+        impersonatorSessionId: true,
+        impersonator: {
+          select: { id: true, email: true, name: true }
+        },
+        user: {
+          select: {
+            id: true,
+            email: true,
+            role: true,
+            name: true,
+            avatarUrl: true,
+            isVerified: true,
+            twoFactorEnabled: true,
+            deletionScheduledAt: true,
+            deletedAt: true,
+            roleDefinition: { select: { permissions: true } }
+          }
+        }
       }
     });
 
-    if (!user) {
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
       return reply.code(401).send({
         success: false,
-        error: 'User not found'
+        error: 'Session expired or revoked'
       });
     }
 
-    // Attach user to request object
-    request.user = user;
+    // Closing an account revokes its sessions; this also covers any that slipped through
+    if (session.user.deletionScheduledAt || session.user.deletedAt) {
+      return reply.code(401).send({
+        success: false,
+        error: 'Account has been deleted'
+      });
+    }
+
+    // Attach user (with the effective permissions of their role) to request object
+    const { roleDefinition, deletionScheduledAt, deletedAt, ...user } = session.user;
+    request.user = { ...user, permissions: roleDefinition.permissions.filter(isPermission) };
+    request.sessionId = decoded.sessionId;
     request.token = token; 
+
+    if (session.impersonator) {
+      request.impersonator = { ...session.impersonator, sessionId: session.impersonatorSessionId };
+    }
     
   } catch (error: any) {
     if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
@@ -72,25 +140,12 @@ export async function authenticateToken(request: any, reply: any) {
   }
 }
 
-export function requireRole(requiredRole: UserRole) {
-  return async function(request: any, reply: any) {
-    if (!request.user) {
-      return reply.code(401).send({
-        success: false,
-        error: 'Authentication required'
-      });
-    }
-
-    if (request.user.role !== requiredRole && request.user.role !== 'ADMIN') {
-      return reply.code(403).send({
-        success: false,
-        error: 'Insufficient permissions'
-      });
-    }
-  };
+export function hasPermission(user: AuthenticatedUser | undefined, permission: Permission) {
+  return !!user?.permissions.includes(permission);
 }
 
-export function requireRoles(requiredRoles: UserRole[]) {
+// preHandler for routes that run after authenticateToken; the caller needs every listed permission
+export function requirePermission(...permissions: Permission[]) {
   return async function(request: any, reply: any) {
     if (!request.user) {
       return reply.code(401).send({
@@ -99,11 +154,11 @@ export function requireRoles(requiredRoles: UserRole[]) {
       });
     }
 
-    if (!requiredRoles.includes(request.user.role) && request.user.role !== 'ADMIN') {
+    if (!permissions.every(permission => hasPermission(request.user, permission))) {
       return reply.code(403).send({
         success: false,
         error: 'Insufficient permissions'
       });
     }
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { SessionTokens } from './sessions';
+import { generateToken } from './tokens';
+
+export const ACCESS_COOKIE = 'nawy_access';
+export const REFRESH_COOKIE = 'nawy_refresh';
+// Readable by the web app, which echoes it back in the X-CSRF-Token header (double-submit)
+export const CSRF_COOKIE = 'nawy_csrf';
+export const CSRF_HEADER = 'x-csrf-token';
+// Browsers opt into cookie sessions with `X-Auth-Mode: cookie`; other clients keep Bearer tokens
+const AUTH_MODE_HEADER = 'x-auth-mode';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const COOKIE_SECURE = (process.env.COOKIE_SECURE ?? String(process.env.NODE_ENV === 'production')) === 'true';
+const COOKIE_SAME_SITE = (process.env.COOKIE_SAME_SITE || 'lax') as 'lax' | 'strict' | 'none';
+const COOKIE_DOMAIN = process.env.COOKIE_DOMAIN || undefined;
+// Only sent to the auth routes (refresh, logout), which are registered under the /api prefix
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+export function wantsCookieSession(request: any) {
+  return request.headers[AUTH_MODE_HEADER] === 'cookie';
+}
+
+export function isSafeMethod(method: string) {
+  return SAFE_METHODS.includes(method);
+}
+
+function cookieOptions(tokens: SessionTokens) {
+  return {
+    secure: COOKIE_SECURE,
+    sameSite: COOKIE_SAME_SITE,
+    domain: COOKIE_DOMAIN,
+    // "Remember me" sessions survive a browser restart, the others end with it
+    expires: tokens.rememberMe ? tokens.sessionExpiresAt : undefined
+  };
+}
+
+function setSessionCookies(request: any, reply: any, tokens: SessionTokens) {
+  const options = cookieOptions(tokens);
+  // Keep the CSRF token stable across refreshes so open tabs do not go stale
+  const csrfToken = request.cookies?.[CSRF_COOKIE] || generateToken();
+
+  reply.setCookie(ACCESS_COOKIE, tokens.token, { ...options, path: '/', httpOnly: true });
+  reply.setCookie(REFRESH_COOKIE, tokens.refreshToken, { ...options, path: REFRESH_COOKIE_PATH, httpOnly: true });
+  reply.setCookie(CSRF_COOKIE, csrfToken, { ...options, path: '/', httpOnly: false });
+}
+
+export function clearSessionCookies(reply: any) {
+  const options = { secure: COOKIE_SECURE, sameSite: COOKIE_SAME_SITE, domain: COOKIE_DOMAIN };
+  reply.clearCookie(ACCESS_COOKIE, { ...options, path: '/' });
+  reply.clearCookie(REFRESH_COOKIE, { ...options, path: REFRESH_COOKIE_PATH });
+  reply.clearCookie(CSRF_COOKIE, { ...options, path: '/' });
+}
+
+// Cookie clients get the tokens as httpOnly cookies and never see them in the body;
+// everyone else gets them in the body as before
+export function issueSession(request: any, reply: any, tokens: SessionTokens) {
+  if (wantsCookieSession(request)) {
+    setSessionCookies(request, reply, tokens);
+    return { expiresIn: tokens.expiresIn };
+  }
+
+  return {
+    token: tokens.token,
+    refreshToken: tokens.refreshToken,
+    expiresIn: tokens.expiresIn
+  };
+}
+
+export function verifyCsrf(request: any) {
+  const cookieToken = request.cookies?.[CSRF_COOKIE];
+  const headerToken = request.headers[CSRF_HEADER];
+
+  if (!cookieToken || typeof headerToken !== 'string' || cookieToken.length !== headerToken.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(cookieToken), Buffer.from(headerToken));
+}
@@ -0,0 +1,103 @@
+// Opaque pagination cursors. A cursor names the last (or first) row of a page and the
+// ordering it was issued for, so it cannot be replayed against a different sort.
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid or expired cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface CursorParams {
+  after?: string;
+  before?: string;
+  // Offset pagination is still accepted when no cursor is given
+  page?: number;
+  limit: number;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export function encodeCursor(scope: string, id: string) {
+  return Buffer.from(JSON.stringify({ s: scope, id })).toString('base64url');
+}
+
+export function decodeCursor(scope: string, token: string): string {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (cursor?.s === scope && isUuid(cursor.id)) {
+      return cursor.id;
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+// Sort values of a row, its id last. Cursors carry these when the ordering is resolved in SQL,
+// so the next page is found from the values themselves rather than by looking the row up.
+export type KeysetValues = (string | number | null)[];
+
+export function encodeKeysetCursor(scope: string, values: KeysetValues) {
+  return Buffer.from(JSON.stringify({ s: scope, k: values })).toString('base64url');
+}
+
+// `isValid` checks every value is one the ordering could have produced
+export function decodeKeysetCursor(scope: string, token: string, isValid: (values: unknown[]) => boolean): KeysetValues {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (cursor?.s === scope && Array.isArray(cursor.k) && isValid(cursor.k)) {
+      return cursor.k;
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+// findMany arguments for one page; an extra row is fetched to tell whether more remain.
+// Prisma resolves the cursor row's position under the query's own orderBy.
+export function cursorQuery(scope: string, params: CursorParams): { cursor?: { id: string }; skip: number; take: number } {
+  if (params.after || params.before) {
+    return {
+      cursor: { id: decodeCursor(scope, (params.after ?? params.before)!) },
+      skip: 1,
+      take: params.before ? -(params.limit + 1) : params.limit + 1
+    };
+  }
+  return {
+    skip: ((params.page ?? 1) - 1) * params.limit,
+    take: params.limit + 1
+  };
+}
+
+// Trims the extra row fetched by cursorQuery (or a keyset query) and issues the cursors around the page
+export function toCursorPage<T extends { id: string }>(
+  scope: string,
+  rows: T[],
+  params: CursorParams,
+  cursorOf: (row: T) => string = row => encodeCursor(scope, row.id)
+): CursorPage<T> {
+  const hasExtra = rows.length > params.limit;
+  const items = params.before
+    ? (hasExtra ? rows.slice(1) : rows)
+    : rows.slice(0, params.limit);
+  const hasNext = params.before ? true : hasExtra;
+  const hasPrev = params.before ? hasExtra : Boolean(params.after) || (params.page ?? 1) > 1;
+
+  return {
+    items,
+    nextCursor: hasNext && items.length > 0 ? cursorOf(items[items.length - 1]) : null,
+    prevCursor: hasPrev && items.length > 0 ? cursorOf(items[0]) : null
+  };
+}
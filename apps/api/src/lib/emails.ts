@@ -0,0 +1,86 @@
+import { MailMessage } from './mailer';
+
+const WEB_APP_URL = process.env.WEB_APP_URL || 'http://localhost:3000';
+
+interface Recipient {
+  email: string;
+  name: string;
+}
+
+export function verificationEmail(user: Recipient, token: string, expiresInHours: number): MailMessage {
+  const link = `${WEB_APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+  return {
+    to: user.email,
+    subject: 'Verify your Nawy email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Welcome to Nawy! Please confirm your email address by opening the link below:',
+      link,
+      '',
+      `This link expires in ${expiresInHours} hours.`,
+      'Until your email is verified you can browse apartments, but not list them, message owners or book visits.'
+    ].join('\n')
+  };
+}
+
+export function passwordResetEmail(user: Recipient, token: string, expiresInMinutes: number): MailMessage {
+  const link = `${WEB_APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  return {
+    to: user.email,
+    subject: 'Reset your Nawy password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your password. Use the link below to choose a new one:',
+      link,
+      '',
+      `This link expires in ${expiresInMinutes} minutes and can only be used once.`,
+      'If you did not request a password reset, you can safely ignore this email.'
+    ].join('\n')
+  };
+}
+
+export function passwordChangedEmail(user: Recipient): MailMessage {
+  return {
+    to: user.email,
+    subject: 'Your Nawy password was changed',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'The password for your account was just changed and your other sessions were signed out.',
+      'If this was not you, reset your password immediately and contact support.'
+    ].join('\n')
+  };
+}
+
+export function accountDeletionEmail(user: Recipient, purgeAt: Date): MailMessage {
+  return {
+    to: user.email,
+    subject: 'Your Nawy account will be deleted',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Your account has been closed and your personal data will be permanently erased on ${purgeAt.toUTCString()}.`,
+      'Your listings have been taken down or handed over, and you have been signed out everywhere.',
+      'Changed your mind? Sign in again before that date to keep your account.'
+    ].join('\n')
+  };
+}
+
+export function listingExpiryReminderEmail(user: Recipient, listing: { id: string; unitName: string }, expiresAt: Date): MailMessage {
+  const link = `${WEB_APP_URL}/apartment/${listing.id}`;
+  return {
+    to: user.email,
+    subject: `Your listing "${listing.unitName}" expires soon`,
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Your listing "${listing.unitName}" will be taken out of search on ${expiresAt.toUTCString()}.`,
+      'If it is still available, renew it from the listing page to keep it published:',
+      link,
+      '',
+      'If it has been sold or rented in the meantime, please mark it as such so buyers are not disappointed.'
+    ].join('\n')
+  };
+}
@@ -0,0 +1,102 @@
+import { PrismaClient } from '@prisma/client';
+import { transitionListing } from './listing-lifecycle';
+import { listingExpiryReminderEmail } from './emails';
+import { sendMail } from './mailer';
+
+const prisma = new PrismaClient();
+
+// Listers are reminded this long before their listing expires
+export const LISTING_EXPIRY_REMINDER_DAYS = Number.parseInt(process.env.LISTING_EXPIRY_REMINDER_DAYS || '3');
+const EXPIRY_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Moves published listings whose period is over to EXPIRED, which takes them out of search
+export async function expireListings() {
+  const now = new Date();
+  const dueListings = await prisma.apartment.findMany({
+    where: { status: 'PUBLISHED', expiresAt: { lte: now } },
+    select: { id: true }
+  });
+
+  let expired = 0;
+  for (const listing of dueListings) {
+    try {
+      // A renewal keeps the listing PUBLISHED, so the period must still be over when it is written
+      if (await transitionListing(listing.id, 'expire', null, 'Listing period ended', { expiresAt: { lte: now } })) {
+        expired++;
+      }
+    } catch (error: any) {
+      // Renewed, sold or reserved since it was read; the new status or period stands
+      if (error.name !== 'ListingTransitionError') {
+        throw error;
+      }
+    }
+  }
+
+  return expired;
+}
+
+// Emails each lister once per publication period, a few days before the listing expires
+export async function sendExpiryReminders() {
+  const now = new Date();
+  const dueListings = await prisma.apartment.findMany({
+    where: {
+      status: 'PUBLISHED',
+      expiresAt: { gt: now, lte: new Date(now.getTime() + LISTING_EXPIRY_REMINDER_DAYS * DAY_MS) },
+      reminderSentAt: null,
+      lister: { deletedAt: null }
+    },
+    select: {
+      id: true,
+      unitName: true,
+      expiresAt: true,
+      lister: { select: { email: true, name: true } }
+    }
+  });
+
+  let sent = 0;
+  for (const listing of dueListings) {
+    // A failed email is retried on the next run; it must not hold up the other reminders
+    try {
+      await sendMail(listingExpiryReminderEmail(listing.lister, listing, listing.expiresAt!));
+    } catch (mailError) {
+      console.error(`Failed to send expiry reminder for listing ${listing.id}:`, mailError);
+      continue;
+    }
+
+    await prisma.apartment.update({
+      where: { id: listing.id },
+      data: { reminderSentAt: now }
+    });
+    sent++;
+  }
+
+  return sent;
+}
+
+// Runs at startup and then every hour; the timer does not keep the process alive
+export function startListingExpiryJob(logger: { info: (...args: any[]) => void; error: (...args: any[]) => void }) {
+  // Expiring comes first and on its own, so reminder failures never keep expired listings in search
+  const run = async () => {
+    try {
+      const expired = await expireListings();
+      if (expired > 0) {
+        logger.info(`Expired ${expired} listing(s)`);
+      }
+    } catch (error) {
+      logger.error(error, 'Failed to expire listings');
+    }
+
+    try {
+      const reminded = await sendExpiryReminders();
+      if (reminded > 0) {
+        logger.info(`Sent ${reminded} listing expiry reminder(s)`);
+      }
+    } catch (error) {
+      logger.error(error, 'Failed to send listing expiry reminders');
+    }
+  };
+
+  void run();
+  setInterval(run, EXPIRY_INTERVAL_MS).unref();
+}
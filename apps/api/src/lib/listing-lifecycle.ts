@@ -0,0 +1,189 @@
+import { ApartmentStatus, Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// How long a listing stays published when its lister's role does not set a duration
+export const DEFAULT_LISTING_DURATION_DAYS = Number.parseInt(process.env.LISTING_DURATION_DAYS || '60');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LISTING_STATUSES = [
+  'DRAFT',
+  'PENDING_REVIEW',
+  'PUBLISHED',
+  'RESERVED',
+  'RENTED',
+  'SOLD',
+  'EXPIRED',
+  'ARCHIVED'
+] as const;
+
+// Statuses anyone browsing may see; the rest are only visible to the lister and moderators
+export const PUBLIC_LISTING_STATUSES: ApartmentStatus[] = ['PUBLISHED', 'RESERVED', 'RENTED', 'SOLD'];
+
+export interface ListingTransition {
+  from: ApartmentStatus[];
+  to: ApartmentStatus;
+  // Only holders of listing:moderate may apply it; the rest are open to the lister as well
+  moderatorOnly?: boolean;
+  // The caller must explain the transition, e.g. why a listing was rejected
+  requiresNote?: boolean;
+  // Starts a new publication period, which ends at `expiresAt`
+  startsPeriod?: boolean;
+}
+
+// Exposed as `POST /apartments/:id/<action>`
+export const LISTING_ACTIONS = [
+  'submit',
+  'withdraw',
+  'approve',
+  'reject',
+  'reserve',
+  'release',
+  'mark-rented',
+  'mark-sold',
+  'expire',
+  'renew',
+  'archive',
+  'restore'
+] as const;
+
+export type ListingAction = typeof LISTING_ACTIONS[number];
+
+// Every allowed move between statuses
+export const LISTING_TRANSITIONS: Record<ListingAction, ListingTransition> = {
+  submit: { from: ['DRAFT'], to: 'PENDING_REVIEW' },
+  withdraw: { from: ['PENDING_REVIEW'], to: 'DRAFT' },
+  approve: { from: ['PENDING_REVIEW'], to: 'PUBLISHED', moderatorOnly: true, startsPeriod: true },
+  reject: { from: ['PENDING_REVIEW'], to: 'DRAFT', moderatorOnly: true, requiresNote: true },
+  reserve: { from: ['PUBLISHED'], to: 'RESERVED' },
+  release: { from: ['RESERVED'], to: 'PUBLISHED' },
+  'mark-rented': { from: ['PUBLISHED', 'RESERVED'], to: 'RENTED' },
+  'mark-sold': { from: ['PUBLISHED', 'RESERVED'], to: 'SOLD' },
+  expire: { from: ['PUBLISHED'], to: 'EXPIRED', moderatorOnly: true },
+  // Already reviewed, so an expired listing goes straight back to PUBLISHED
+  renew: { from: ['PUBLISHED', 'EXPIRED'], to: 'PUBLISHED', startsPeriod: true },
+  archive: { from: ['DRAFT', 'PENDING_REVIEW', 'PUBLISHED', 'RESERVED', 'RENTED', 'SOLD', 'EXPIRED'], to: 'ARCHIVED' },
+  // Back to a draft, so the listing goes through review again before it is public
+  restore: { from: ['EXPIRED', 'ARCHIVED'], to: 'DRAFT' }
+};
+
+export class ListingTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListingTransitionError';
+  }
+}
+
+// Actions the caller could apply to a listing in `status` right now
+export function availableTransitions(status: ApartmentStatus, canModerate: boolean): ListingAction[] {
+  return LISTING_ACTIONS.filter(action => {
+    const transition = LISTING_TRANSITIONS[action];
+    return transition.from.includes(status) && (canModerate || !transition.moderatorOnly);
+  });
+}
+
+// Why the lister may not change more than the price of a listing in `status`, or null when they may.
+// Anything past DRAFT has been (or is being) reviewed, so other changes would skip moderation; the
+// lister withdraws the listing, or archives and restores it, to edit it as a draft again.
+export function listingContentError(status: ApartmentStatus, canModerate: boolean): string | null {
+  if (status === 'DRAFT' || canModerate) {
+    return null;
+  }
+  return `Only the price of a ${status} listing can be changed; move it back to DRAFT to edit the rest`;
+}
+
+export function isPublicStatus(status: ApartmentStatus) {
+  return PUBLIC_LISTING_STATUSES.includes(status);
+}
+
+// When a publication period starting at `from` ends, given the lister role's configured duration
+export function listingExpiry(from: Date, roleDurationDays: number | null) {
+  return new Date(from.getTime() + (roleDurationDays ?? DEFAULT_LISTING_DURATION_DAYS) * DAY_MS);
+}
+
+// Moves a listing along its lifecycle and records the step. The caller's right to apply the
+// action is checked by the route policy; this only checks the listing's current status.
+// `actorId` is null for transitions made by the system. `guard` adds conditions the listing must still meet
+// when it is written, for moves a same-status transition could overtake (renew keeps a listing PUBLISHED).
+// Resolves to null when the listing does not exist.
+export async function transitionListing(
+  id: string,
+  action: ListingAction,
+  actorId: string | null,
+  note?: string,
+  guard: Prisma.ApartmentWhereInput = {}
+) {
+  const transition = LISTING_TRANSITIONS[action];
+
+  const apartment = await prisma.apartment.findUnique({
+    where: { id },
+    select: {
+      status: true,
+      lister: { select: { roleDefinition: { select: { listingDurationDays: true } } } }
+    }
+  });
+
+  if (!apartment) {
+    return null;
+  }
+
+  if (!transition.from.includes(apartment.status)) {
+    throw new ListingTransitionError(`Cannot ${action} a listing that is ${apartment.status}`);
+  }
+
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    // Guarded on the status read above, so two concurrent transitions cannot both apply
+    const { count } = await tx.apartment.updateMany({
+      where: { ...guard, id, status: apartment.status },
+      data: {
+        status: transition.to,
+        statusChangedAt: now,
+        ...(action === 'approve' && { publishedAt: now }),
+        ...(transition.startsPeriod && {
+          expiresAt: listingExpiry(now, apartment.lister.roleDefinition.listingDurationDays),
+          reminderSentAt: null
+        })
+      }
+    });
+
+    if (count === 0) {
+      throw new ListingTransitionError('The listing was changed by someone else, please try again');
+    }
+
+    await tx.apartmentStatusChange.create({
+      data: {
+        apartmentId: id,
+        actorId,
+        action,
+        fromStatus: apartment.status,
+        toStatus: transition.to,
+        note: note || null,
+        createdAt: now
+      }
+    });
+
+    return tx.apartment.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, status: true, statusChangedAt: true, publishedAt: true, expiresAt: true }
+    });
+  });
+}
+
+// Status history of a listing, oldest first
+export function findStatusHistory(apartmentId: string) {
+  return prisma.apartmentStatusChange.findMany({
+    where: { apartmentId },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      action: true,
+      fromStatus: true,
+      toStatus: true,
+      note: true,
+      actorId: true,
+      createdAt: true
+    }
+  });
+}
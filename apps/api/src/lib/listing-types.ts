@@ -0,0 +1,27 @@
+import { ListingType, RentPeriod } from '@prisma/client';
+
+export const LISTING_TYPES = ['SALE', 'RENT'] as const;
+
+// What a RENT listing's priceEgp is charged per
+export const RENT_PERIODS = ['DAILY', 'MONTHLY', 'YEARLY'] as const;
+
+export interface ListingTerms {
+  listingType: ListingType;
+  rentPeriod?: RentPeriod | null;
+  depositEgp?: unknown;
+  minLeaseMonths?: number | null;
+}
+
+// Why the terms of a listing do not fit its type, or null when they do. Rentals need a
+// period; deposits and lease terms only mean something for rentals.
+// (The database enforces the same with the apartments_rental_terms_check constraint.)
+export function rentalTermsError(terms: ListingTerms): string | null {
+  if (terms.listingType === 'RENT') {
+    return terms.rentPeriod ? null : 'rentPeriod is required for RENT listings';
+  }
+
+  const rentalTerms = (['rentPeriod', 'depositEgp', 'minLeaseMonths'] as const)
+    .filter(field => terms[field] !== undefined && terms[field] !== null);
+
+  return rentalTerms.length > 0 ? `${rentalTerms.join(', ')} only apply to RENT listings` : null;
+}
@@ -0,0 +1,205 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Failures allowed before a temporary lockout, per account and per client IP
+const MAX_ACCOUNT_FAILURES = Number.parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || '5');
+const MAX_IP_FAILURES = Number.parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20');
+// The first lockout lasts LOCKOUT_BASE_SECONDS and doubles with every further failure
+const LOCKOUT_BASE_SECONDS = Number.parseInt(process.env.LOGIN_LOCKOUT_BASE_SECONDS || '60');
+const LOCKOUT_MAX_SECONDS = Number.parseInt(process.env.LOGIN_LOCKOUT_MAX_SECONDS || '3600');
+// Failure counters are forgotten after this long without a new failure
+const FAILURE_WINDOW_MINUTES = 60;
+
+export type LockoutScope = 'account' | 'ip';
+
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+export interface LockoutEvent {
+  scope: LockoutScope;
+  identifier: string;
+  userId?: string;
+  ipAddress?: string;
+  failures: number;
+  lockedUntil: Date;
+}
+
+export interface LoginAttemptStore {
+  name: string;
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  // Adds a failure and returns the new count; counters idle since `staleBefore` start over
+  increment(key: string, staleBefore: Date): Promise<number>;
+  lock(key: string, until: Date): Promise<void>;
+  clear(key: string): Promise<void>;
+  recordLockout(event: LockoutEvent): Promise<void>;
+  resolveLockouts(identifier: string, unlockedById: string): Promise<number>;
+}
+
+export const postgresAttemptStore: LoginAttemptStore = {
+  name: 'postgres',
+  async get(key) {
+    return prisma.loginAttempt.findUnique({
+      where: { key },
+      select: { failures: true, lastFailureAt: true, lockedUntil: true }
+    });
+  },
+  async increment(key, staleBefore) {
+    const now = new Date();
+    await prisma.loginAttempt.updateMany({
+      where: { key, lastFailureAt: { lt: staleBefore } },
+      data: { failures: 0, lockedUntil: null }
+    });
+    const attempt = await prisma.loginAttempt.upsert({
+      where: { key },
+      create: { key, failures: 1, lastFailureAt: now },
+      update: { failures: { increment: 1 }, lastFailureAt: now },
+      select: { failures: true }
+    });
+    return attempt.failures;
+  },
+  async lock(key, until) {
+    await prisma.loginAttempt.update({
+      where: { key },
+      data: { lockedUntil: until }
+    });
+  },
+  async clear(key) {
+    await prisma.loginAttempt.deleteMany({ where: { key } });
+  },
+  async recordLockout(event) {
+    await prisma.loginLockout.create({ data: event });
+  },
+  async resolveLockouts(identifier, unlockedById) {
+    const { count } = await prisma.loginLockout.updateMany({
+      where: { identifier, unlockedAt: null, lockedUntil: { gt: new Date() } },
+      data: { unlockedAt: new Date(), unlockedById }
+    });
+    return count;
+  }
+};
+
+// Keeps everything in process memory; meant for tests and single-instance development
+export function memoryAttemptStore(): LoginAttemptStore & { lockouts: LockoutEvent[] } {
+  const attempts = new Map<string, LoginAttemptRecord>();
+  const lockouts: (LockoutEvent & { unlockedAt?: Date; unlockedById?: string })[] = [];
+
+  return {
+    name: 'memory',
+    lockouts,
+    async get(key) {
+      return attempts.get(key) ?? null;
+    },
+    async increment(key, staleBefore) {
+      const existing = attempts.get(key);
+      const failures = existing && existing.lastFailureAt >= staleBefore ? existing.failures + 1 : 1;
+      attempts.set(key, {
+        failures,
+        lastFailureAt: new Date(),
+        lockedUntil: failures > 1 ? existing.lockedUntil : null
+      });
+      return failures;
+    },
+    async lock(key, until) {
+      const existing = attempts.get(key);
+      if (existing) {
+        existing.lockedUntil = until;
+      }
+    },
+    async clear(key) {
+      attempts.delete(key);
+    },
+    async recordLockout(event) {
+      lockouts.push({ ...event });
+    },
+    async resolveLockouts(identifier, unlockedById) {
+      const open = lockouts.filter(lockout =>
+        lockout.identifier === identifier && !lockout.unlockedAt && lockout.lockedUntil > new Date()
+      );
+      for (const lockout of open) {
+        lockout.unlockedAt = new Date();
+        lockout.unlockedById = unlockedById;
+      }
+      return open.length;
+    }
+  };
+}
+
+let store: LoginAttemptStore = process.env.LOGIN_ATTEMPT_STORE === 'memory'
+  ? memoryAttemptStore()
+  : postgresAttemptStore;
+
+// Swap the store at startup or in tests
+export function setLoginAttemptStore(next: LoginAttemptStore) {
+  store = next;
+}
+
+const accountKey = (email: string) => `account:${email.trim().toLowerCase()}`;
+const ipKey = (ipAddress: string) => `ip:${ipAddress}`;
+
+function lockoutSeconds(failures: number, maxFailures: number) {
+  const seconds = LOCKOUT_BASE_SECONDS * 2 ** (failures - maxFailures);
+  return Math.min(seconds, LOCKOUT_MAX_SECONDS);
+}
+
+function secondsUntil(date: Date | null) {
+  if (!date) return 0;
+  return Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 0);
+}
+
+// Returns how many seconds the caller must wait before trying again (0 when a login may be attempted)
+export async function loginRetryAfter(email: string, ipAddress: string) {
+  const [account, ip] = await Promise.all([
+    store.get(accountKey(email)),
+    store.get(ipKey(ipAddress))
+  ]);
+  return Math.max(secondsUntil(account?.lockedUntil ?? null), secondsUntil(ip?.lockedUntil ?? null));
+}
+
+// Counts a failed login against the account and the IP, locking either once it passes its limit.
+// Returns the resulting lockout in seconds (0 when not locked).
+export async function recordFailedLogin(email: string, ipAddress: string, userId?: string) {
+  const staleBefore = new Date(Date.now() - FAILURE_WINDOW_MINUTES * 60 * 1000);
+  const checks: { scope: LockoutScope; key: string; identifier: string; maxFailures: number }[] = [
+    { scope: 'account', key: accountKey(email), identifier: email.trim().toLowerCase(), maxFailures: MAX_ACCOUNT_FAILURES },
+    { scope: 'ip', key: ipKey(ipAddress), identifier: ipAddress, maxFailures: MAX_IP_FAILURES }
+  ];
+
+  let retryAfter = 0;
+
+  for (const { scope, key, identifier, maxFailures } of checks) {
+    const failures = await store.increment(key, staleBefore);
+    if (failures < maxFailures) {
+      continue;
+    }
+
+    const seconds = lockoutSeconds(failures, maxFailures);
+    const lockedUntil = new Date(Date.now() + seconds * 1000);
+    await store.lock(key, lockedUntil);
+    await store.recordLockout({
+      scope,
+      identifier,
+      userId: scope === 'account' ? userId : undefined,
+      ipAddress,
+      failures,
+      lockedUntil
+    });
+    retryAfter = Math.max(retryAfter, seconds);
+  }
+
+  return retryAfter;
+}
+
+// A successful login resets the account counter; the IP counter keeps running so that
+// one valid account cannot be used to reset guessing against others
+export async function clearFailedLogins(email: string) {
+  await store.clear(accountKey(email));
+}
+
+export async function unlockAccount(email: string, unlockedById: string) {
+  await store.clear(accountKey(email));
+  return store.resolveLockouts(email.trim().toLowerCase(), unlockedById);
+}
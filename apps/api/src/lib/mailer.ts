@@ -0,0 +1,57 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Nawy Apartments <no-reply@nawy.com>';
+
+// Prints outgoing mail to the server log (default for development)
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+};
+
+// Writes each outgoing mail as a JSON file, handy for tests and offline inspection
+export function fileTransport(outboxDir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(outboxDir, { recursive: true });
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.json`;
+      await fs.writeFile(
+        path.join(outboxDir, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    }
+  };
+}
+
+function transportFromEnv(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return fileTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'));
+  }
+  return consoleTransport;
+}
+
+let transport: MailTransport = transportFromEnv();
+
+// Swap the transport (e.g. an SMTP or provider-backed one) at startup or in tests
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  await transport.send({ ...message, from: MAIL_FROM });
+}
@@ -0,0 +1,113 @@
+import { InstallmentFrequency, ListingType, Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const INSTALLMENT_FREQUENCIES = ['MONTHLY', 'QUARTERLY', 'SEMI_ANNUAL', 'YEARLY'] as const;
+
+// Longest installment period a plan may offer
+export const MAX_PLAN_YEARS = 15;
+
+// Months covered by one installment
+export const INSTALLMENT_MONTHS: Record<InstallmentFrequency, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  SEMI_ANNUAL: 6,
+  YEARLY: 12
+};
+
+export interface PaymentPlanTerms {
+  downPaymentPercent: Prisma.Decimal | number;
+  years: number;
+  installmentFrequency: InstallmentFrequency;
+  maintenanceFeePercent: Prisma.Decimal | number;
+  deliveryDate: Date | null;
+}
+
+// Amounts are worked out in piasters, so the installments add up to the price exactly
+function toPiasters(egp: Prisma.Decimal | number) {
+  return Math.round(Number(egp) * 100);
+}
+
+function toEgp(piasters: number) {
+  return piasters / 100;
+}
+
+function percentOf(piasters: number, percent: Prisma.Decimal | number) {
+  return Math.round((piasters * Number(percent)) / 100);
+}
+
+// `date` moved `months` calendar months ahead (UTC), keeping its day unless the month is shorter
+function addMonths(date: Date, months: number) {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+// Today at midnight UTC, the default start of a schedule
+export function startOfToday() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// What a plan costs up front and per month for a unit at `priceEgp`. The monthly amount spreads
+// the rest of the price evenly whatever the installment frequency, as the search filter compares it.
+export function summarizePaymentPlan(plan: PaymentPlanTerms, priceEgp: Prisma.Decimal | number) {
+  const price = toPiasters(priceEgp);
+  const downPayment = percentOf(price, plan.downPaymentPercent);
+
+  return {
+    downPaymentEgp: toEgp(downPayment),
+    monthlyInstallmentEgp: toEgp(Math.round((price - downPayment) / (plan.years * 12))),
+    maintenanceFeeEgp: toEgp(percentOf(price, plan.maintenanceFeePercent))
+  };
+}
+
+// Every payment of a unit at `priceEgp` bought on `plan` from `startDate`: the down payment that day,
+// then the rest of the price in equal installments, one period apart (the last absorbs the rounding),
+// and the maintenance fee on delivery (its due date is null when the plan has no delivery date).
+export function buildPaymentSchedule(plan: PaymentPlanTerms, priceEgp: Prisma.Decimal | number, startDate: Date) {
+  const price = toPiasters(priceEgp);
+  const downPayment = percentOf(price, plan.downPaymentPercent);
+  const maintenanceFee = percentOf(price, plan.maintenanceFeePercent);
+  const months = INSTALLMENT_MONTHS[plan.installmentFrequency];
+  const count = (plan.years * 12) / months;
+  const remaining = price - downPayment;
+  const installment = Math.floor(remaining / count);
+
+  const installments = Array.from({ length: count }, (_, index) => ({
+    number: index + 1,
+    dueDate: addMonths(startDate, months * (index + 1)),
+    amountEgp: toEgp(index === count - 1 ? remaining - installment * (count - 1) : installment)
+  }));
+
+  return {
+    priceEgp: toEgp(price),
+    startDate,
+    downPayment: { dueDate: startDate, amountEgp: toEgp(downPayment) },
+    installmentCount: count,
+    installments,
+    maintenanceFee: { dueDate: plan.deliveryDate, amountEgp: toEgp(maintenanceFee) },
+    totalEgp: toEgp(price + maintenanceFee)
+  };
+}
+
+// Plans offered for a unit: its own first, then its project's, lowest down payment first.
+// Sale listings with a price also get what each plan costs up front and per month.
+export async function findApartmentPaymentPlans(apartment: {
+  id: string;
+  projectId: string;
+  listingType: ListingType;
+  priceEgp: Prisma.Decimal | null;
+}) {
+  const plans = await prisma.paymentPlan.findMany({
+    where: { OR: [{ apartmentId: apartment.id }, { projectId: apartment.projectId }] },
+    orderBy: [{ downPaymentPercent: 'asc' }, { years: 'desc' }, { createdAt: 'asc' }]
+  });
+  const priced = apartment.listingType === 'SALE' && apartment.priceEgp !== null;
+
+  return [...plans.filter(plan => plan.apartmentId), ...plans.filter(plan => !plan.apartmentId)].map(plan => ({
+    ...plan,
+    summary: priced ? summarizePaymentPlan(plan, apartment.priceEgp!) : null
+  }));
+}
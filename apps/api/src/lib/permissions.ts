@@ -0,0 +1,46 @@
+// Named capabilities checked by route policies. Roles (stored in the `roles` table)
+// group them, and every user holds exactly one role.
+export const PERMISSIONS = {
+  'listing:create': 'Publish apartment listings',
+  'listing:moderate': 'Edit, reassign or delete any listing',
+  'catalog:create': 'Add cities and projects',
+  'catalog:manage': 'Edit or delete cities and projects',
+  'review:moderate': 'Edit or delete any review',
+  'visit:manage': 'Manage and confirm any visit',
+  'watchlist:use': 'Save apartments to a watchlist',
+  'account:two_factor': 'Protect their own account with two-factor authentication',
+  'user:manage': 'View and manage user accounts and their sessions',
+  'user:impersonate': 'Sign in as another user to see what they see',
+  'role:manage': 'Define roles and assign them to users',
+  'audit:read': 'View the audit log'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+// Built-in roles; the application refers to them by name (sign-up, 2FA policy), so they
+// cannot be renamed or deleted, but their permissions can be edited by admins.
+export const DEFAULT_ROLE = 'USER';
+
+export const SYSTEM_ROLES: { name: string; description: string; permissions: Permission[] }[] = [
+  {
+    name: 'ADMIN',
+    description: 'Full administrative access',
+    permissions: ALL_PERMISSIONS.filter(permission => permission !== 'watchlist:use')
+  },
+  {
+    name: 'AGENT',
+    description: 'Lists apartments on behalf of sellers',
+    permissions: ['listing:create', 'catalog:create', 'watchlist:use', 'account:two_factor']
+  },
+  {
+    name: 'USER',
+    description: 'Browses apartments and contacts listers',
+    permissions: ['watchlist:use']
+  }
+];
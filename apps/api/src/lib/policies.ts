@@ -0,0 +1,269 @@
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, hasPermission } from './auth';
+import { Permission } from './permissions';
+import { ApiKeyScope } from './api-keys';
+import { isTwoFactorRequired } from './two-factor';
+
+const prisma = new PrismaClient();
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Resources whose ownership can be checked by the policy layer
+export type OwnedResource =
+  | 'apiKey'
+  | 'apartment'
+  | 'apartmentImage'
+  | 'apartmentAmenity'
+  | 'paymentPlan'
+  | 'review'
+  | 'visit'
+  | 'watchlist'
+  | 'user';
+
+export interface OwnershipRule {
+  resource: OwnedResource;
+  // Where to read the resource id from (defaults to params)
+  from?: 'params' | 'body';
+  // Name of the id field (defaults to 'id')
+  key?: string;
+}
+
+export interface RoutePolicy {
+  // 'public' skips authentication entirely
+  access: 'public' | 'authenticated';
+  // The caller's role must grant every one of these permissions
+  permissions?: Permission[];
+  // Restrict to these roles by name
+  roles?: string[];
+  // Require the caller to own the target resource (holders of the resource's moderation permission pass)
+  owner?: OwnershipRule;
+  // Require a verified email address
+  verified?: boolean;
+  // Reachable before a role that requires 2FA has enrolled (profile, enrollment, logout)
+  allowWithoutTwoFactor?: boolean;
+  // Accept API keys carrying this scope; routes without it are session-only
+  apiKeyScope?: ApiKeyScope;
+  // Impersonation sessions are read-only; this lets a mutating route through (logout, ending impersonation)
+  allowDuringImpersonation?: boolean;
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    policy?: RoutePolicy;
+  }
+}
+
+interface OwnerLookup {
+  label: string;
+  // Lets the holder act on resources they do not own
+  bypass: Permission;
+  // Returns the ids of the users allowed to act on the resource, or null when it does not exist
+  resolve: (id: string) => Promise<string[] | null>;
+}
+
+const ownerLookups: Record<OwnedResource, OwnerLookup> = {
+  apiKey: {
+    label: 'API key',
+    bypass: 'user:manage',
+    resolve: async (id) => {
+      const apiKey = await prisma.apiKey.findUnique({
+        where: { id },
+        select: { userId: true }
+      });
+      return apiKey ? [apiKey.userId] : null;
+    }
+  },
+  apartment: {
+    label: 'Apartment',
+    bypass: 'listing:moderate',
+    resolve: async (id) => {
+      const apartment = await prisma.apartment.findUnique({
+        where: { id },
+        select: { listerId: true }
+      });
+      return apartment ? [apartment.listerId] : null;
+    }
+  },
+  apartmentImage: {
+    label: 'Apartment image',
+    bypass: 'listing:moderate',
+    resolve: async (id) => {
+      const image = await prisma.apartmentImage.findUnique({
+        where: { id },
+        select: { apartment: { select: { listerId: true } } }
+      });
+      return image ? [image.apartment.listerId] : null;
+    }
+  },
+  apartmentAmenity: {
+    label: 'Apartment amenity',
+    bypass: 'listing:moderate',
+    resolve: async (id) => {
+      const amenity = await prisma.apartmentAmenity.findUnique({
+        where: { id },
+        select: { apartment: { select: { listerId: true } } }
+      });
+      return amenity ? [amenity.apartment.listerId] : null;
+    }
+  },
+  paymentPlan: {
+    label: 'Payment plan',
+    bypass: 'listing:moderate',
+    // Only a unit's own plans are owned by its lister; project plans are managed through the project
+    resolve: async (id) => {
+      const plan = await prisma.paymentPlan.findUnique({
+        where: { id },
+        select: { apartment: { select: { listerId: true } } }
+      });
+      return plan?.apartment ? [plan.apartment.listerId] : null;
+    }
+  },
+  review: {
+    label: 'Review',
+    bypass: 'review:moderate',
+    resolve: async (id) => {
+      const review = await prisma.review.findUnique({
+        where: { id },
+        select: { userId: true }
+      });
+      return review ? [review.userId] : null;
+    }
+  },
+  visit: {
+    label: 'Visit',
+    bypass: 'visit:manage',
+    // Both the visitor and the apartment lister may manage a visit
+    resolve: async (id) => {
+      const visit = await prisma.visit.findUnique({
+        where: { id },
+        select: { userId: true, apartment: { select: { listerId: true } } }
+      });
+      return visit ? [visit.userId, visit.apartment.listerId] : null;
+    }
+  },
+  watchlist: {
+    label: 'Watchlist',
+    bypass: 'user:manage',
+    // Watchlists are keyed by their owner's id
+    resolve: async (userId) => [userId]
+  },
+  user: {
+    label: 'User',
+    bypass: 'user:manage',
+    resolve: async (id) => {
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true }
+      });
+      return user ? [user.id] : null;
+    }
+  }
+};
+
+export function authorize(policy: RoutePolicy) {
+  return async function(request: any, reply: any) {
+    if (policy.access === 'public') {
+      return;
+    }
+
+    await authenticateToken(request, reply);
+    if (reply.sent) {
+      return reply;
+    }
+
+    const user = request.user;
+
+    if (request.apiKey && !policy.apiKeyScope) {
+      return reply.code(403).send({
+        success: false,
+        error: 'This endpoint cannot be used with an API key'
+      });
+    }
+
+    if (request.apiKey && !request.apiKey.scopes.includes(policy.apiKeyScope)) {
+      return reply.code(403).send({
+        success: false,
+        error: `API key is missing the ${policy.apiKeyScope} scope`
+      });
+    }
+
+    if (request.impersonator && MUTATING_METHODS.includes(request.method) && !policy.allowDuringImpersonation) {
+      return reply.code(403).send({
+        success: false,
+        error: 'This action is not available while viewing as another user'
+      });
+    }
+
+    if (!policy.allowWithoutTwoFactor && isTwoFactorRequired(user)) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Two-factor authentication must be enabled for your account'
+      });
+    }
+
+    if (policy.permissions && !policy.permissions.every(permission => hasPermission(user, permission))) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Insufficient permissions'
+      });
+    }
+
+    if (policy.roles && !policy.roles.includes(user.role)) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Insufficient permissions'
+      });
+    }
+
+    if (policy.verified && !user.isVerified) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Please verify your email address to continue'
+      });
+    }
+
+    if (policy.owner) {
+      const { resource, from = 'params', key = 'id' } = policy.owner;
+      const lookup = ownerLookups[resource];
+
+      if (hasPermission(user, lookup.bypass)) {
+        return;
+      }
+
+      const resourceId = (from === 'body' ? request.body : request.params)?.[key];
+
+      const ownerIds = resourceId ? await lookup.resolve(resourceId) : null;
+
+      if (!ownerIds) {
+        return reply.code(404).send({
+          success: false,
+          error: `${lookup.label} not found`
+        });
+      }
+
+      if (!ownerIds.includes(user.id)) {
+        return reply.code(403).send({
+          success: false,
+          error: `You do not have access to this ${lookup.label.toLowerCase()}`
+        });
+      }
+    }
+  };
+}
+
+// onRoute hook: turns `config.policy` into a preHandler and refuses to register
+// mutating routes that do not declare a policy, so nothing ships unprotected by accident.
+export function applyRoutePolicy(routeOptions: any) {
+  const methods = [].concat(routeOptions.method);
+  const policy: RoutePolicy | undefined = routeOptions.config?.policy;
+
+  if (!policy) {
+    if (methods.some((method: string) => MUTATING_METHODS.includes(method))) {
+      throw new Error(`Route ${methods.join(',')} ${routeOptions.url} is missing an access policy (config.policy)`);
+    }
+    return;
+  }
+
+  const existing = routeOptions.preHandler ? [].concat(routeOptions.preHandler) : [];
+  routeOptions.preHandler = [authorize(policy), ...existing];
+}
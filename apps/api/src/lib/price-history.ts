@@ -0,0 +1,58 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Percentage `newPrice` is below `oldPrice`, rounded to two decimals; null unless the price went down
+export function priceDropPercent(oldPrice: Prisma.Decimal | number | null, newPrice: Prisma.Decimal | number) {
+  const from = oldPrice === null ? null : Number(oldPrice);
+  const to = Number(newPrice);
+
+  if (!from || to >= from) {
+    return null;
+  }
+
+  return Math.round(((from - to) / from) * 10000) / 100;
+}
+
+// Apartment update data that records a price change and refreshes the "price dropped" flag.
+// Empty when the price stays the same, so it can be spread into any update.
+export function priceChangeData(
+  oldPrice: Prisma.Decimal | null,
+  newPrice: number | undefined,
+  changedById: string
+): Prisma.ApartmentUpdateInput {
+  if (newPrice === undefined || (oldPrice !== null && oldPrice.equals(newPrice))) {
+    return {};
+  }
+
+  const now = new Date();
+  const dropPercent = priceDropPercent(oldPrice, newPrice);
+
+  return {
+    priceEgp: newPrice,
+    priceDropPercent: dropPercent,
+    priceDroppedAt: dropPercent === null ? null : now,
+    priceChanges: {
+      create: { oldPriceEgp: oldPrice, newPriceEgp: newPrice, changedById, createdAt: now }
+    }
+  };
+}
+
+// Price history of a listing, oldest first
+export async function findPriceHistory(apartmentId: string) {
+  const changes = await prisma.apartmentPriceChange.findMany({
+    where: { apartmentId },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      oldPriceEgp: true,
+      newPriceEgp: true,
+      createdAt: true
+    }
+  });
+
+  return changes.map(change => ({
+    ...change,
+    dropPercent: priceDropPercent(change.oldPriceEgp, change.newPriceEgp)
+  }));
+}
@@ -0,0 +1,240 @@
+import { randomUUID } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { JWT_SECRET } from './auth';
+import { generateToken, hashToken } from './tokens';
+
+const prisma = new PrismaClient();
+
+// Access tokens are short-lived; the refresh token keeps the session alive
+export const ACCESS_TOKEN_TTL_SECONDS = Number.parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900');
+const REFRESH_TOKEN_TTL_DAYS = Number.parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+const SHORT_SESSION_TTL_HOURS = 12;
+// Impersonation sessions cannot be extended by refreshing
+export const IMPERSONATION_TTL_MINUTES = Number.parseInt(process.env.IMPERSONATION_TTL_MINUTES || '30');
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+  sessionId: string;
+  rememberMe: boolean;
+  sessionExpiresAt: Date;
+}
+
+export interface RotateResult {
+  success: boolean;
+  tokens?: SessionTokens;
+  error?: string;
+}
+
+interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+}
+
+// Impersonation tokens also name the admin acting as the user
+export function signAccessToken(user: SessionUser, sessionId: string, impersonatorId?: string | null) {
+  const payload = {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId,
+    ...(impersonatorId && { impersonatorId })
+  };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+// Refresh tokens look like `<sessionId>.<secret>`; only the secret's hash is stored
+function issueRefreshToken(sessionId: string) {
+  const secret = generateToken(48);
+  return { refreshToken: `${sessionId}.${secret}`, hash: hashToken(secret) };
+}
+
+function parseRefreshToken(refreshToken: string) {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret || !UUID_PATTERN.test(sessionId)) {
+    return null;
+  }
+  return { sessionId, secret };
+}
+
+function sessionExpiry(rememberMe: boolean) {
+  const ttlMs = rememberMe
+    ? REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+    : SHORT_SESSION_TTL_HOURS * 60 * 60 * 1000;
+  return new Date(Date.now() + ttlMs);
+}
+
+export async function createSession(user: SessionUser, request: any, rememberMe = false): Promise<SessionTokens> {
+  const sessionId = randomUUID();
+  const { refreshToken, hash } = issueRefreshToken(sessionId);
+  const expiresAt = sessionExpiry(rememberMe);
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hash,
+      userAgent: request.headers['user-agent']?.slice(0, 255),
+      ipAddress: request.ip,
+      rememberMe,
+      expiresAt,
+      lastUsedAt: new Date()
+    }
+  });
+
+  return {
+    token: signAccessToken(user, sessionId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId,
+    rememberMe,
+    sessionExpiresAt: expiresAt
+  };
+}
+
+// A short-lived session for `user`, opened by an admin from their own session
+export async function createImpersonationSession(
+  user: SessionUser,
+  impersonator: { id: string; sessionId: string },
+  request: any
+): Promise<SessionTokens> {
+  const sessionId = randomUUID();
+  const { refreshToken, hash } = issueRefreshToken(sessionId);
+  const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_MINUTES * 60 * 1000);
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hash,
+      userAgent: request.headers['user-agent']?.slice(0, 255),
+      ipAddress: request.ip,
+      impersonatorId: impersonator.id,
+      impersonatorSessionId: impersonator.sessionId,
+      expiresAt,
+      lastUsedAt: new Date()
+    }
+  });
+
+  return {
+    token: signAccessToken(user, sessionId, impersonator.id),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId,
+    rememberMe: false,
+    sessionExpiresAt: expiresAt
+  };
+}
+
+// Issues fresh tokens for a still-active session whose refresh token the client no longer
+// holds (the admin's own session once impersonation ends). Returns null if it has ended.
+export async function resumeSession(sessionId: string): Promise<SessionTokens | null> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      user: {
+        select: { id: true, email: true, role: true }
+      }
+    }
+  });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const next = issueRefreshToken(session.id);
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: { refreshTokenHash: next.hash, lastUsedAt: new Date() }
+  });
+
+  return {
+    token: signAccessToken(session.user, session.id, session.impersonatorId),
+    refreshToken: next.refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId: session.id,
+    rememberMe: session.rememberMe,
+    sessionExpiresAt: session.expiresAt
+  };
+}
+
+export async function rotateSession(refreshToken: string, request: any): Promise<RotateResult> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return { success: false, error: 'Invalid refresh token' };
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: parsed.sessionId },
+    include: {
+      user: {
+        select: { id: true, email: true, role: true }
+      }
+    }
+  });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return { success: false, error: 'Session expired or revoked' };
+  }
+
+  const presentedHash = hashToken(parsed.secret);
+  const next = issueRefreshToken(session.id);
+  const expiresAt = session.impersonatorId ? session.expiresAt : sessionExpiry(session.rememberMe);
+
+  // Compare-and-swap so that two concurrent refreshes cannot both succeed
+  const { count } = await prisma.session.updateMany({
+    where: {
+      id: session.id,
+      refreshTokenHash: presentedHash,
+      revokedAt: null
+    },
+    data: {
+      refreshTokenHash: next.hash,
+      lastUsedAt: new Date(),
+      ipAddress: request.ip,
+      expiresAt
+    }
+  });
+
+  if (count === 0) {
+    // A rotated-out token was presented again: assume it leaked and kill the session
+    await revokeSession(session.id, 'refresh_token_reuse');
+    return { success: false, error: 'Refresh token reuse detected, session revoked' };
+  }
+
+  return {
+    success: true,
+    tokens: {
+      token: signAccessToken(session.user as SessionUser, session.id, session.impersonatorId),
+      refreshToken: next.refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      sessionId: session.id,
+      rememberMe: session.rememberMe,
+      sessionExpiresAt: expiresAt
+    }
+  };
+}
+
+export async function revokeSession(sessionId: string, reason: string) {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+}
+
+export async function revokeUserSessions(userId: string, reason: string, exceptSessionId?: string) {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {})
+    },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+  return count;
+}
@@ -102,7 +102,7 @@ export const userSchema = {
     id: { type: 'string', format: 'uuid' },
     email: { type: 'string', format: 'email' },
     name: { type: 'string' },
-    role: { type: 'string', enum: ['ADMIN', 'USER', 'AGENT'] },
+    role: { type: 'string', description: 'Role name' },
     phone: { type: 'string' },
     avatarUrl: { type: 'string' },
     isVerified: { type: 'boolean' },
@@ -124,12 +124,24 @@ export const apartmentSchema = {
     bedrooms: { type: 'number' },
     bathrooms: { type: 'number' },
     areaSqm: { type: 'number' },
-    priceEgp: { type: 'number' },
+    priceEgp: { type: 'number', description: 'Sale price, or the rent per rentPeriod' },
+    listingType: { type: 'string', enum: ['SALE', 'RENT'] },
+    rentPeriod: { type: ['string', 'null'], enum: ['DAILY', 'MONTHLY', 'YEARLY', null] },
+    depositEgp: { type: ['number', 'null'] },
+    minLeaseMonths: { type: ['integer', 'null'] },
+    furnished: { type: 'boolean' },
+    availableFrom: { type: ['string', 'null'], format: 'date' },
     address: { type: 'string' },
     latitude: { type: 'number' },
     longitude: { type: 'number' },
     description: { type: 'string' },
-    status: { type: 'string', enum: ['ACTIVE', 'INACTIVE', 'SOLD'] },
+    status: { type: 'string', enum: ['DRAFT', 'PENDING_REVIEW', 'PUBLISHED', 'RESERVED', 'RENTED', 'SOLD', 'EXPIRED', 'ARCHIVED'] },
+    statusChangedAt: { type: 'string', format: 'date-time' },
+    publishedAt: { type: ['string', 'null'], format: 'date-time' },
+    expiresAt: { type: ['string', 'null'], format: 'date-time' },
+    // Set while the last price change was a reduction
+    priceDropPercent: { type: ['number', 'null'] },
+    priceDroppedAt: { type: ['string', 'null'], format: 'date-time' },
     createdAt: { type: 'string', format: 'date-time' },
     updatedAt: { type: 'string', format: 'date-time' }
   }
@@ -161,6 +173,25 @@ export const projectSchema = {
   }
 };
 
+// Payment plan schema
+export const paymentPlanSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    // Exactly one of projectId and apartmentId is set
+    projectId: { type: ['string', 'null'], format: 'uuid' },
+    apartmentId: { type: ['string', 'null'], format: 'uuid' },
+    name: { type: 'string' },
+    downPaymentPercent: { type: 'number' },
+    years: { type: 'integer' },
+    installmentFrequency: { type: 'string', enum: ['MONTHLY', 'QUARTERLY', 'SEMI_ANNUAL', 'YEARLY'] },
+    maintenanceFeePercent: { type: 'number' },
+    deliveryDate: { type: ['string', 'null'], format: 'date' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' }
+  }
+};
+
 // Message schemas
 export const messageSchema = {
   type: 'object',
@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+// Opaque, URL-safe random token (refresh, password reset, email verification...)
+export function generateToken(bytes = 32) {
+  return randomBytes(bytes).toString('base64url');
+}
+
+// Tokens are only ever stored as their SHA-256 hash
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
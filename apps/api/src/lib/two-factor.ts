@@ -0,0 +1,187 @@
+import { randomBytes } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { JWT_SECRET } from './auth';
+import { hashToken } from './tokens';
+import { verifyTotp } from './totp';
+import { Permission } from './permissions';
+
+const prisma = new PrismaClient();
+
+export const TWO_FACTOR_ISSUER = 'Nawy Apartments';
+// Roles that must enroll in 2FA before they can use the API (comma separated, empty to disable)
+export const TWO_FACTOR_REQUIRED_ROLES = (process.env.TWO_FACTOR_REQUIRED_ROLES ?? 'ADMIN')
+  .split(',')
+  .map(role => role.trim())
+  .filter(Boolean);
+// Permission a role needs before its users can enroll in 2FA
+export const TWO_FACTOR_PERMISSION: Permission = 'account:two_factor';
+export const CHALLENGE_TTL_SECONDS = 300;
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_PURPOSE = '2fa_challenge';
+
+export interface TwoFactorChallenge {
+  challengeId: string;
+  userId: string;
+  rememberMe: boolean;
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Whether the user may enroll in 2FA
+export function canUseTwoFactor(user: { permissions: Permission[] }) {
+  return user.permissions.includes(TWO_FACTOR_PERMISSION);
+}
+
+export function mustUseTwoFactor(user: { role: string }) {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(user.role);
+}
+
+export function isTwoFactorRequired(user: { role: string; twoFactorEnabled: boolean }) {
+  return mustUseTwoFactor(user) && !user.twoFactorEnabled;
+}
+
+// Fails startup when a role listed in TWO_FACTOR_REQUIRED_ROLES does not exist or cannot enroll,
+// as its users would be locked out of everything but the 2FA routes they are not allowed to use.
+// The roles routes keep such a role from being renamed, deleted or stripped of the permission.
+export async function assertTwoFactorRoles() {
+  if (TWO_FACTOR_REQUIRED_ROLES.length === 0) {
+    return;
+  }
+
+  const roles = await prisma.role.findMany({
+    where: { name: { in: TWO_FACTOR_REQUIRED_ROLES } },
+    select: { name: true, permissions: true }
+  });
+
+  const invalid = TWO_FACTOR_REQUIRED_ROLES.filter(name => {
+    const role = roles.find(role => role.name === name);
+    return !role?.permissions.includes(TWO_FACTOR_PERMISSION);
+  });
+
+  if (invalid.length > 0) {
+    throw new Error(
+      `TWO_FACTOR_REQUIRED_ROLES lists roles that do not exist or lack the ${TWO_FACTOR_PERMISSION} permission: ${invalid.join(', ')}`
+    );
+  }
+}
+
+// The challenge token proves the password step succeeded; it is not accepted as an access token.
+// Each one is backed by a row so it can be redeemed only once.
+export async function signChallengeToken(userId: string, rememberMe: boolean) {
+  const now = new Date();
+
+  // Challenges the user never completed are of no use once expired
+  await prisma.twoFactorChallenge.deleteMany({ where: { userId, expiresAt: { lt: now } } });
+
+  const challenge = await prisma.twoFactorChallenge.create({
+    data: { userId, expiresAt: new Date(now.getTime() + CHALLENGE_TTL_SECONDS * 1000) },
+    select: { id: true }
+  });
+
+  return jwt.sign({ userId, rememberMe, purpose: CHALLENGE_PURPOSE }, JWT_SECRET, {
+    expiresIn: CHALLENGE_TTL_SECONDS,
+    jwtid: challenge.id
+  });
+}
+
+export function verifyChallengeToken(token: string): TwoFactorChallenge | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.purpose !== CHALLENGE_PURPOSE || !decoded.userId || !decoded.jti) {
+      return null;
+    }
+    return { challengeId: decoded.jti, userId: decoded.userId, rememberMe: !!decoded.rememberMe };
+  } catch {
+    return null;
+  }
+}
+
+// Marks the challenge used; false when it was already redeemed (a replayed token) or has expired
+export async function consumeChallenge(challenge: TwoFactorChallenge) {
+  const { count } = await prisma.twoFactorChallenge.updateMany({
+    where: {
+      id: challenge.challengeId,
+      userId: challenge.userId,
+      usedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    data: { usedAt: new Date() }
+  });
+  return count > 0;
+}
+
+// Recovery codes look like `a1b2c-3d4e5`; dashes and case are ignored when redeeming
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+export async function generateRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) }))
+    })
+  ]);
+
+  return codes;
+}
+
+async function redeemRecoveryCode(userId: string, recoveryCode: string) {
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: {
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+      usedAt: null
+    },
+    data: { usedAt: new Date() }
+  });
+  return count > 0;
+}
+
+// Checks a TOTP code (or, failing that, a recovery code) against the user's enrolled secret
+export async function verifySecondFactor(userId: string, factor: SecondFactor) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorSecret: true, twoFactorLastStep: true }
+  });
+
+  if (!user?.twoFactorSecret) {
+    return false;
+  }
+
+  if (factor.code) {
+    const step = verifyTotp(user.twoFactorSecret, factor.code, user.twoFactorLastStep);
+    if (step === null) {
+      return false;
+    }
+
+    // Remember the step so the same code cannot be replayed within its window
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }]
+      },
+      data: { twoFactorLastStep: step }
+    });
+    return count > 0;
+  }
+
+  if (factor.recoveryCode) {
+    return redeemRecoveryCode(userId, factor.recoveryCode);
+  }
+
+  return false;
+}
+
+export async function remainingRecoveryCodes(userId: string) {
+  return prisma.twoFactorRecoveryCode.count({
+    where: { userId, usedAt: null }
+  });
+}
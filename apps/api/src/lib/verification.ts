@@ -0,0 +1,87 @@
+import { PrismaClient } from '@prisma/client';
+import { generateToken, hashToken } from './tokens';
+import { sendMail } from './mailer';
+import { verificationEmail } from './emails';
+
+const prisma = new PrismaClient();
+
+const EMAIL_VERIFICATION_TTL_HOURS = Number.parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24');
+// Minimum wait between two verification emails, and how many may be sent per day
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_EMAILS_PER_DAY = 5;
+
+interface VerificationUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export async function sendVerificationEmail(user: VerificationUser) {
+  // Only the most recent link stays valid
+  await prisma.emailVerificationToken.updateMany({
+    where: { userId: user.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  const token = generateToken();
+  await prisma.emailVerificationToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000)
+    }
+  });
+
+  await sendMail(verificationEmail(user, token, EMAIL_VERIFICATION_TTL_HOURS));
+}
+
+// Returns how many seconds the user must wait before another email can be sent (0 when allowed)
+export async function verificationRetryAfter(userId: string) {
+  const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const recent = await prisma.emailVerificationToken.findMany({
+    where: { userId, createdAt: { gt: dayAgo } },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  if (recent.length >= MAX_EMAILS_PER_DAY) {
+    const oldest = recent[recent.length - 1].createdAt.getTime();
+    return Math.ceil((oldest + 24 * 60 * 60 * 1000 - Date.now()) / 1000);
+  }
+
+  if (recent.length > 0) {
+    const wait = recent[0].createdAt.getTime() + RESEND_COOLDOWN_SECONDS * 1000 - Date.now();
+    if (wait > 0) {
+      return Math.ceil(wait / 1000);
+    }
+  }
+
+  return 0;
+}
+
+// Marks the token as used and the user as verified; returns false for unknown, used or expired tokens
+export async function confirmEmail(token: string) {
+  const verificationToken = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt <= new Date()) {
+    return false;
+  }
+
+  const { count } = await prisma.emailVerificationToken.updateMany({
+    where: { id: verificationToken.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: verificationToken.userId },
+    data: { isVerified: true }
+  });
+
+  return true;
+}
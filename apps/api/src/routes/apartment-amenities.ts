@@ -5,10 +5,59 @@ import {
   UpdateApartmentAmenityInput,
   UuidParams
 } from '../types/index';
+import { hasPermission } from '../lib/auth';
+import { listingContentError } from '../lib/listing-lifecycle';
 
 const prisma = new PrismaClient();
 
 async function apartmentAmenityRoutes(fastify: any) {
+  // GET /apartment-amenities - Distinct amenities with listing counts (for search filters)
+  fastify.get('/apartment-amenities', {
+    schema: {
+      tags: ['apartment-amenities'],
+      summary: 'List distinct amenities',
+      description: 'Every amenity used by a listing with the number of apartments that have it, most common first. Spellings differing only in case are merged.',
+      querystring: {
+        type: 'object',
+        properties: {
+          search: { type: 'string', description: 'Only amenities containing this text' },
+          limit: { type: 'integer', minimum: 1, maximum: 500, default: 100 }
+        }
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              amenity: { type: 'string' },
+              count: { type: 'number' }
+            }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    const { search, limit = 100 } = request.query as { search?: string; limit?: number };
+
+    try {
+      const pattern = search ? `%${search.replace(/[\\%_]/g, '\\$&')}%` : null;
+      const amenities = await prisma.$queryRaw<{ amenity: string; count: bigint }[]>`
+        SELECT min(trim(amenity)) AS amenity, count(DISTINCT apartment_id) AS count
+        FROM apartment_amenities
+        WHERE ${pattern}::text IS NULL OR amenity ILIKE ${pattern}
+        GROUP BY lower(trim(amenity))
+        ORDER BY count DESC, amenity ASC
+        LIMIT ${limit}
+      `;
+
+      return amenities.map(row => ({ amenity: row.amenity, count: Number(row.count) }));
+    } catch (error) {
+      console.error('Error fetching amenities:', error);
+      return reply.status(500).send({ message: 'Failed to fetch amenities' });
+    }
+  });
+
   // GET /apartment-amenities/:apartmentId - Get amenities for an apartment
   fastify.get('/apartment-amenities/:apartmentId', {
     schema: {
@@ -68,6 +117,7 @@ async function apartmentAmenityRoutes(fastify: any) {
 
   // POST /apartment-amenities - Create a new apartment amenity
   fastify.post('/apartment-amenities', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartment', from: 'body', key: 'apartmentId' }, apiKeyScope: 'listings:write' } },
     schema: {
       tags: ['apartment-amenities'],
       summary: 'Create apartment amenity',
@@ -116,6 +166,12 @@ async function apartmentAmenityRoutes(fastify: any) {
         return reply.status(404).send({ message: 'Apartment not found' });
       }
 
+      const contentError = listingContentError(apartment.status, hasPermission(request.user, 'listing:moderate'));
+
+      if (contentError) {
+        return reply.status(409).send({ message: contentError });
+      }
+
       // Check for duplicate amenity name for the same apartment
       const existingAmenity = await prisma.apartmentAmenity.findFirst({
         where: {
@@ -144,6 +200,7 @@ async function apartmentAmenityRoutes(fastify: any) {
 
   // PUT /apartment-amenities/:id - Update an apartment amenity
   fastify.put('/apartment-amenities/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartmentAmenity' }, apiKeyScope: 'listings:write' } },
     schema: {
       tags: ['apartment-amenities'],
       summary: 'Update apartment amenity',
@@ -186,13 +243,20 @@ async function apartmentAmenityRoutes(fastify: any) {
     try {
       // Check if amenity exists
       const existingAmenity = await prisma.apartmentAmenity.findUnique({
-        where: { id }
+        where: { id },
+        include: { apartment: { select: { status: true } } }
       });
 
       if (!existingAmenity) {
         return reply.status(404).send({ message: 'Apartment amenity not found' });
       }
 
+      const contentError = listingContentError(existingAmenity.apartment.status, hasPermission(request.user, 'listing:moderate'));
+
+      if (contentError) {
+        return reply.status(409).send({ message: contentError });
+      }
+
       // Check for duplicate name (excluding current amenity)
       const duplicateAmenity = await prisma.apartmentAmenity.findFirst({
         where: {
@@ -220,6 +284,7 @@ async function apartmentAmenityRoutes(fastify: any) {
 
   // DELETE /apartment-amenities/:id - Delete an apartment amenity
   fastify.delete('/apartment-amenities/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartmentAmenity' }, apiKeyScope: 'listings:write' } },
     schema: {
       tags: ['apartment-amenities'],
       summary: 'Delete apartment amenity',
@@ -250,13 +315,20 @@ async function apartmentAmenityRoutes(fastify: any) {
     try {
       // Check if amenity exists
       const existingAmenity = await prisma.apartmentAmenity.findUnique({
-        where: { id }
+        where: { id },
+        include: { apartment: { select: { status: true } } }
       });
 
       if (!existingAmenity) {
         return reply.status(404).send({ message: 'Apartment amenity not found' });
       }
 
+      const contentError = listingContentError(existingAmenity.apartment.status, hasPermission(request.user, 'listing:moderate'));
+
+      if (contentError) {
+        return reply.status(409).send({ message: contentError });
+      }
+
       await prisma.apartmentAmenity.delete({
         where: { id }
       });
@@ -4,6 +4,8 @@ import {
   CreateApartmentImageSchema,
   UpdateApartmentImageSchema
 } from '../types/index';
+import { hasPermission } from '../lib/auth';
+import { listingContentError } from '../lib/listing-lifecycle';
 
 const prisma = new PrismaClient();
 
@@ -55,6 +57,7 @@ const apartmentImageRoutes = async (fastify: any) => {
 
   // POST /apartment-images - Create new apartment image
   fastify.post('/apartment-images', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartment', from: 'body', key: 'apartmentId' }, apiKeyScope: 'listings:write' } },
     schema: {
       tags: ['apartment-images'],
       summary: 'Create apartment image',
@@ -109,6 +112,15 @@ const apartmentImageRoutes = async (fastify: any) => {
           error: 'Apartment not found'
         });
       }
+
+      const contentError = listingContentError(apartment.status, hasPermission(request.user, 'listing:moderate'));
+
+      if (contentError) {
+        return reply.code(409).send({
+          success: false,
+          error: contentError
+        });
+      }
       
       const image = await prisma.apartmentImage.create({
         data: body as any
@@ -137,6 +149,7 @@ const apartmentImageRoutes = async (fastify: any) => {
 
   // PUT /apartment-images/:id - Update apartment image
   fastify.put('/apartment-images/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartmentImage' }, apiKeyScope: 'listings:write' } },
     schema: {
       tags: ['apartment-images'],
       summary: 'Update apartment image',
@@ -188,7 +201,8 @@ const apartmentImageRoutes = async (fastify: any) => {
       
       // Check if image exists
       const existingImage = await prisma.apartmentImage.findUnique({
-        where: { id }
+        where: { id },
+        include: { apartment: { select: { status: true } } }
       });
 
       if (!existingImage) {
@@ -197,6 +211,15 @@ const apartmentImageRoutes = async (fastify: any) => {
           error: 'Apartment image not found'
         });
       }
+
+      const contentError = listingContentError(existingImage.apartment.status, hasPermission(request.user, 'listing:moderate'));
+
+      if (contentError) {
+        return reply.code(409).send({
+          success: false,
+          error: contentError
+        });
+      }
       
       const image = await prisma.apartmentImage.update({
         where: { id },
@@ -226,6 +249,7 @@ const apartmentImageRoutes = async (fastify: any) => {
 
   // DELETE /apartment-images/:id - Delete apartment image
   fastify.delete('/apartment-images/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartmentImage' }, apiKeyScope: 'listings:write' } },
     schema: {
       tags: ['apartment-images'],
       summary: 'Delete apartment image',
@@ -260,7 +284,8 @@ const apartmentImageRoutes = async (fastify: any) => {
       
       // Check if image exists
       const existingImage = await prisma.apartmentImage.findUnique({
-        where: { id }
+        where: { id },
+        include: { apartment: { select: { status: true } } }
       });
 
       if (!existingImage) {
@@ -269,6 +294,15 @@ const apartmentImageRoutes = async (fastify: any) => {
           error: 'Apartment image not found'
         });
       }
+
+      const contentError = listingContentError(existingImage.apartment.status, hasPermission(request.user, 'listing:moderate'));
+
+      if (contentError) {
+        return reply.code(409).send({
+          success: false,
+          error: contentError
+        });
+      }
       
       await prisma.apartmentImage.delete({
         where: { id }
@@ -1,24 +1,244 @@
 import fastifyPlugin from 'fastify-plugin';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import {
   CreateApartmentSchema,
   UpdateApartmentSchema,
   ApartmentQuerySchema,
-  ApartmentSearchSchema
+  ApartmentSearchSchema,
+  ListingTransitionSchema,
+  PaginationSchema,
+  PaymentScheduleQuerySchema
 } from '../types/index';
-import { authenticateToken } from '../lib/auth';
+import { authenticateToken, hasPermission } from '../lib/auth';
+import { API_KEY_HEADER } from '../lib/api-keys';
+import { ACCESS_COOKIE } from '../lib/cookies';
+import {
+  APARTMENT_SCOPES,
+  APARTMENT_SORTS,
+  ApartmentFilterOptions,
+  ApartmentScope,
+  findApartmentPage
+} from '../lib/apartment-search';
+import { findApartmentFacets } from '../lib/apartment-facets';
+import {
+  LISTING_ACTIONS,
+  LISTING_STATUSES,
+  LISTING_TRANSITIONS,
+  availableTransitions,
+  findStatusHistory,
+  isPublicStatus,
+  listingContentError,
+  transitionListing
+} from '../lib/listing-lifecycle';
+import { findPriceHistory, priceChangeData } from '../lib/price-history';
+import { LISTING_TYPES, RENT_PERIODS, rentalTermsError } from '../lib/listing-types';
+import { buildPaymentSchedule, findApartmentPaymentPlans, startOfToday } from '../lib/payment-plans';
 
 const prisma = new PrismaClient();
 
+// Relations returned with every listing in GET /apartments and POST /apartments/search
+const apartmentListInclude: Prisma.ApartmentInclude = {
+  project: {
+    select: {
+      id: true,
+      name: true,
+      city: {
+        select: {
+          id: true,
+          name: true,
+          country: true
+        }
+      }
+    }
+  },
+  lister: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+      role: true
+    }
+  },
+  images: {
+    select: {
+      id: true,
+      imageUrl: true,
+      position: true
+    },
+    orderBy: { position: 'asc' }
+  },
+  amenities: {
+    select: {
+      id: true,
+      amenity: true
+    }
+  },
+  _count: {
+    select: {
+      watchlists: true,
+      reviews: true,
+      visits: true
+    }
+  }
+};
+
+// `all` exposes other people's drafts and archived listings, so it is reserved to moderators
+function canUseScope(user: any, scope: ApartmentScope) {
+  return scope !== 'all' || hasPermission(user, 'listing:moderate');
+}
+
+// Drafts, listings under review and expired or archived ones are only shown to their lister and
+// moderators; anyone else gets a 404, so their existence does not leak. The route is public, so the
+// caller is only authenticated when credentials were sent.
+async function canViewListing(request: any, reply: any, apartment: { status: any; listerId: string }) {
+  if (isPublicStatus(apartment.status)) {
+    return true;
+  }
+  if (!request.headers.authorization && !request.headers[API_KEY_HEADER] && !request.cookies?.[ACCESS_COOKIE]) {
+    return false;
+  }
+  await authenticateToken(request, reply);
+  return !reply.sent && (apartment.listerId === request.user.id || hasPermission(request.user, 'listing:moderate'));
+}
+
+const scopeProperty = {
+  type: 'string',
+  enum: [...APARTMENT_SCOPES],
+  description: 'browse (default): other people\'s public listings, PUBLISHED only unless a status is given; mine: your own listings in any status; all: every listing (moderators only)'
+};
+
+const coordinateProperties = {
+  latitude: { type: 'number', minimum: -90, maximum: 90 },
+  longitude: { type: 'number', minimum: -180, maximum: 180 }
+};
+
+// Listing type and rental terms, as accepted on create and update
+const listingTermsProperties = {
+  listingType: { type: 'string', enum: [...LISTING_TYPES] },
+  rentPeriod: { type: ['string', 'null'], enum: [...RENT_PERIODS, null], description: 'Required for RENT listings' },
+  depositEgp: { type: ['number', 'null'], minimum: 0 },
+  minLeaseMonths: { type: ['integer', 'null'], minimum: 1, maximum: 120 },
+  furnished: { type: 'boolean' },
+  availableFrom: { type: ['string', 'null'], format: 'date' }
+};
+
+// Body shared by /apartments/search and /apartments/facets
+const apartmentSearchBody = {
+  type: 'object',
+  properties: {
+    projectIds: { 
+      type: 'array', 
+      items: { type: 'string', format: 'uuid' },
+      description: 'Filter by multiple project IDs'
+    },
+    cityIds: { 
+      type: 'array', 
+      items: { type: 'string', format: 'uuid' },
+      description: 'Filter by multiple city IDs'
+    },
+    listerIds: { 
+      type: 'array', 
+      items: { type: 'string', format: 'uuid' },
+      description: 'Filter by multiple lister IDs'
+    },
+    statuses: { 
+      type: 'array', 
+      items: { type: 'string', enum: [...LISTING_STATUSES] },
+      description: 'Filter by multiple statuses (browse only returns PUBLISHED, RESERVED, RENTED and SOLD)'
+    },
+    listingType: { type: 'string', enum: [...LISTING_TYPES], description: 'Only sales or only rentals' },
+    rentPeriods: {
+      type: 'array',
+      items: { type: 'string', enum: [...RENT_PERIODS] },
+      description: 'Rentals charged per one of these periods'
+    },
+    furnished: { type: 'boolean' },
+    maxDeposit: { type: 'number', minimum: 0, description: 'Highest acceptable rental deposit; listings without a deposit always match' },
+    leaseMonths: { type: 'integer', minimum: 1, description: 'Intended lease length; listings with a longer minimum lease are left out' },
+    availableBy: { type: 'string', format: 'date', description: 'Only listings available on or before this date' },
+    minPrice: { type: 'number', minimum: 0 },
+    maxPrice: { type: 'number', minimum: 0 },
+    maxDownPayment: { type: 'number', minimum: 0, description: 'Sale listings with a payment plan (their own or their project\'s) whose down payment is at most this amount' },
+    maxMonthlyInstallment: { type: 'number', minimum: 0, description: 'Sale listings with a payment plan whose installments come to at most this much per month; combined with maxDownPayment, one plan must meet both' },
+    minArea: { type: 'number', minimum: 0 },
+    maxArea: { type: 'number', minimum: 0 },
+    bedrooms: {
+      type: 'array',
+      items: { type: 'integer', minimum: 0 },
+      description: 'Exact bedroom counts; a single number is also accepted'
+    },
+    minBedrooms: { type: 'integer', minimum: 0, description: 'Alone, "this many or more"; combined with bedrooms, an alternative to those counts' },
+    maxBedrooms: { type: 'integer', minimum: 0 },
+    bathrooms: {
+      type: 'array',
+      items: { type: 'integer', minimum: 0 },
+      description: 'Exact bathroom counts; a single number is also accepted'
+    },
+    minBathrooms: { type: 'integer', minimum: 0 },
+    maxBathrooms: { type: 'integer', minimum: 0 },
+    amenities: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      maxItems: 50,
+      description: 'Amenities every result must have (case-insensitive)'
+    },
+    anyAmenities: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      maxItems: 50,
+      description: 'Amenities of which each result must have at least one (case-insensitive)'
+    },
+    search: { type: 'string', description: 'Full-text search over unit, description, amenities, project and city names (prefix match, ranked by relevance)' },
+    scope: scopeProperty,
+    near: {
+      type: 'object',
+      properties: coordinateProperties,
+      required: ['latitude', 'longitude'],
+      description: 'Reference point; adds distanceKm to each result'
+    },
+    radiusKm: { type: 'number', exclusiveMinimum: 0, maximum: 500, description: 'Only apartments within this distance of near' },
+    bbox: {
+      type: 'object',
+      properties: {
+        minLatitude: { type: 'number', minimum: -90, maximum: 90 },
+        minLongitude: { type: 'number', minimum: -180, maximum: 180 },
+        maxLatitude: { type: 'number', minimum: -90, maximum: 90 },
+        maxLongitude: { type: 'number', minimum: -180, maximum: 180 }
+      },
+      required: ['minLatitude', 'minLongitude', 'maxLatitude', 'maxLongitude'],
+      description: 'Only apartments inside this bounding box'
+    },
+    polygon: {
+      type: 'array',
+      items: { type: 'object', properties: coordinateProperties, required: ['latitude', 'longitude'] },
+      minItems: 3,
+      maxItems: 200,
+      description: 'Only apartments inside this drawn area'
+    },
+    sortBy: {
+      type: 'string',
+      enum: [...APARTMENT_SORTS],
+      description: 'Default: relevance when searching, else newest. distance requires near'
+    },
+    sortOrder: { type: 'string', enum: ['asc', 'desc'], description: 'Default depends on sortBy (e.g. price ascending, newest descending)' },
+    page: { type: 'number', minimum: 1, default: 1 },
+    limit: { type: 'number', minimum: 1, maximum: 100, default: 10 },
+    after: { type: 'string', description: 'Cursor from meta.nextCursor; takes precedence over page' },
+    before: { type: 'string', description: 'Cursor from meta.prevCursor' },
+    includeTotal: { type: 'boolean', description: 'Include total counts (default: true for page requests, false for cursor requests)' }
+  }
+};
+
 async function apartmentRoutes(fastify: any) {
   //#region GET Routes
   // GET /apartments - Simple GET endpoint for basic queries (backward compatibility)
   fastify.get('/apartments', {
-    preHandler: authenticateToken,
+    config: { policy: { access: 'authenticated', apiKeyScope: 'listings:read' } },
     schema: {
       tags: ['apartments'],
       summary: 'Get all apartments (basic)',
-      description: 'Get all apartments with basic filtering and pagination (excludes current user listings). For advanced filtering with multiple values, use POST /apartments/search',
+      description: 'Get apartments with basic filtering and pagination. By default (scope=browse) only other people\'s PUBLISHED listings are returned; scope=mine lists your own. For advanced filtering with multiple values, use POST /apartments/search',
       security: [{ bearerAuth: [] }],
       querystring: {
         type: 'object',
@@ -26,16 +246,30 @@ async function apartmentRoutes(fastify: any) {
           projectId: { type: 'string', format: 'uuid' },
           cityId: { type: 'string', format: 'uuid' },
           listerId: { type: 'string', format: 'uuid' },
-          status: { type: 'string', enum: ['ACTIVE', 'INACTIVE', 'SOLD'] },
+          status: { type: 'string', enum: [...LISTING_STATUSES] },
           minPrice: { type: 'number', minimum: 0 },
           maxPrice: { type: 'number', minimum: 0 },
           minArea: { type: 'number', minimum: 0 },
           maxArea: { type: 'number', minimum: 0 },
-          bedrooms: { type: 'number', minimum: 0 },
-          bathrooms: { type: 'number', minimum: 0 },
-          search: { type: 'string', description: 'Search by unit name or description' },
+          bedrooms: { type: 'array', items: { type: 'integer', minimum: 0 }, description: 'Exact bedroom counts (repeat the parameter for several)' },
+          minBedrooms: { type: 'integer', minimum: 0, description: 'Alone, "this many or more"; combined with bedrooms, an alternative to those counts' },
+          maxBedrooms: { type: 'integer', minimum: 0 },
+          bathrooms: { type: 'array', items: { type: 'integer', minimum: 0 }, description: 'Exact bathroom counts (repeat the parameter for several)' },
+          minBathrooms: { type: 'integer', minimum: 0 },
+          maxBathrooms: { type: 'integer', minimum: 0 },
+          search: { type: 'string', description: 'Full-text search over unit, description, amenities, project and city names (prefix match, ranked by relevance)' },
+          scope: scopeProperty,
+          sortBy: {
+            type: 'string',
+            enum: APARTMENT_SORTS.filter(sort => sort !== 'distance'),
+            description: 'Default: relevance when searching, else newest'
+          },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'], description: 'Default depends on sortBy (e.g. price ascending, newest descending)' },
           page: { type: 'number', minimum: 1, default: 1 },
-          limit: { type: 'number', minimum: 1, maximum: 100, default: 10 }
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 10 },
+          after: { type: 'string', description: 'Cursor from meta.nextCursor; takes precedence over page' },
+          before: { type: 'string', description: 'Cursor from meta.prevCursor' },
+          includeTotal: { type: 'boolean', description: 'Include total counts (default: true for page requests, false for cursor requests)' }
         }
       },
       response: {
@@ -49,8 +283,11 @@ async function apartmentRoutes(fastify: any) {
               properties: {
                 page: { type: 'number' },
                 limit: { type: 'number' },
-                total: { type: 'number', description: 'Total count of all apartments in database' },
-                totalFiltered: { type: 'number', description: 'Total count of apartments matching current filters' },
+                nextCursor: { type: ['string', 'null'], description: 'Pass as after to get the next page' },
+                prevCursor: { type: ['string', 'null'], description: 'Pass as before to get the previous page' },
+                hasMore: { type: 'boolean' },
+                total: { type: 'number', description: 'Total count of all apartments in database (when totals are included)' },
+                totalFiltered: { type: 'number', description: 'Total count of apartments matching current filters (when totals are included)' },
                 totalPages: { type: 'number' }
               }
             }
@@ -61,124 +298,209 @@ async function apartmentRoutes(fastify: any) {
   }, async (request, reply) => {
     try {
       const query = ApartmentQuerySchema.parse(request.query);
-      
-      // Build where clause
-      const where: any = {};
-      
-      if (query.projectId) {
-        where.projectId = query.projectId;
+      const scope = query.scope ?? 'browse';
+
+      if (!canUseScope(request.user, scope)) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Insufficient permissions'
+        });
       }
       
-      if (query.listerId) {
-        where.listerId = query.listerId;
-      }
+      // The single-valued query filters, as the search body's lists
+      const filters: ApartmentFilterOptions = {
+        projectIds: query.projectId ? [query.projectId] : undefined,
+        cityIds: query.cityId ? [query.cityId] : undefined,
+        listerIds: query.listerId ? [query.listerId] : undefined,
+        statuses: query.status ? [query.status] : undefined,
+        minPrice: query.minPrice,
+        maxPrice: query.maxPrice,
+        minArea: query.minArea,
+        maxArea: query.maxArea,
+        bedrooms: query.bedrooms,
+        minBedrooms: query.minBedrooms,
+        maxBedrooms: query.maxBedrooms,
+        bathrooms: query.bathrooms,
+        minBathrooms: query.minBathrooms,
+        maxBathrooms: query.maxBathrooms
+      };
 
-      if (query.status) {
-        where.status = query.status;
-      }
+      // Offset pages keep their totals; cursor pages only count when asked to
+      const includeTotal = query.includeTotal ?? !(query.after || query.before);
 
-      if (query.cityId) {
-        where.project = {
-          cityId: query.cityId
-        };
-      }
-      
-      if (query.minPrice || query.maxPrice) {
-        where.priceEgp = {};
-        if (query.minPrice) where.priceEgp.gte = query.minPrice;
-        if (query.maxPrice) where.priceEgp.lte = query.maxPrice;
-      }
+      const [{ apartments, total: totalFiltered, nextCursor, prevCursor }, totalAll] = await Promise.all([
+        findApartmentPage({ ...query, ...filters, includeTotal }, request.user.id, apartmentListInclude),
+        includeTotal ? prisma.apartment.count() : undefined
+      ]);
 
-      if (query.minArea || query.maxArea) {
-        where.areaSqm = {};
-        if (query.minArea) where.areaSqm.gte = query.minArea;
-        if (query.maxArea) where.areaSqm.lte = query.maxArea;
-      }
+      return reply.send({
+        success: true,
+        data: apartments,
+        meta: {
+          page: query.after || query.before ? undefined : query.page,
+          limit: query.limit,
+          nextCursor,
+          prevCursor,
+          hasMore: nextCursor !== null,
+          ...(includeTotal && {
+            total: totalAll,
+            totalFiltered: totalFiltered,
+            totalPages: Math.ceil(totalFiltered / query.limit)
+          })
+        }
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
 
-      if (query.bedrooms !== undefined) {
-        where.bedrooms = query.bedrooms;
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
       }
 
-      if (query.bathrooms !== undefined) {
-        where.bathrooms = query.bathrooms;
+      if (error.name === 'InvalidCursorError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.message
+        });
       }
-      
-      if (query.search) {
-        where.OR = [
-          { unitName: { contains: query.search, mode: 'insensitive' } },
-          { unitNumber: { contains: query.search, mode: 'insensitive' } },
-          { description: { contains: query.search, mode: 'insensitive' } }
-        ];
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /apartments/moderation-queue - Listings waiting for review
+  fastify.get('/apartments/moderation-queue', {
+    config: { policy: { access: 'authenticated', permissions: ['listing:moderate'] } },
+    schema: {
+      tags: ['apartments'],
+      summary: 'Moderation queue',
+      description: 'Listings submitted for review, longest waiting first. Approve with POST /apartments/:id/approve or send back with POST /apartments/:id/reject.',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 10 }
+        }
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { page, limit } = PaginationSchema.parse(request.query);
+      const where: Prisma.ApartmentWhereInput = { status: 'PENDING_REVIEW' };
 
-      const [apartments, totalFiltered, totalAll] = await Promise.all([
+      const [apartments, total] = await Promise.all([
         prisma.apartment.findMany({
           where,
-          include: {
-            project: {
-              select: {
-                id: true,
-                name: true,
-                city: {
-                  select: {
-                    id: true,
-                    name: true,
-                    country: true
-                  }
-                }
-              }
-            },
-            lister: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                phone: true,
-                role: true
-              }
-            },
-            images: {
-              select: {
-                id: true,
-                imageUrl: true,
-                position: true
-              },
-              orderBy: { position: 'asc' }
-            },
-            amenities: {
-              select: {
-                id: true,
-                amenity: true
-              }
-            },
-            _count: {
-              select: {
-                watchlists: true,
-                reviews: true,
-                visits: true
-              }
-            }
-          },
-          skip: (query.page - 1) * query.limit,
-          take: query.limit,
-          orderBy: { createdAt: 'desc' }
+          include: apartmentListInclude,
+          orderBy: [{ statusChangedAt: 'asc' }, { id: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit
         }),
-        prisma.apartment.count({ where }), 
-        prisma.apartment.count() 
+        prisma.apartment.count({ where })
       ]);
 
-      const totalPages = Math.ceil(totalFiltered / query.limit);
-
       return reply.send({
         success: true,
-        data: apartments,
+        data: apartments.map(apartment => ({ ...apartment, submittedAt: apartment.statusChangedAt })),
         meta: {
-          page: query.page,
-          limit: query.limit,
-          total: totalAll,
-          totalFiltered: totalFiltered,
-          totalPages
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /apartments/:id/status-history - Lifecycle transitions of a listing
+  fastify.get('/apartments/:id/status-history', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartment' }, apiKeyScope: 'listings:read' } },
+    schema: {
+      tags: ['apartments'],
+      summary: 'Get apartment status history',
+      description: 'Every status change of a listing with who made it and when, oldest first. Lister and moderators only.',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      return reply.send({
+        success: true,
+        data: await findStatusHistory(id)
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /apartments/:id/price-history - Asking price changes of a listing
+  fastify.get('/apartments/:id/price-history', {
+    schema: {
+      tags: ['apartments'],
+      summary: 'Get apartment price history',
+      description: 'Every change of the asking price of a listing, oldest first. The first entry is the price it was listed at. Visible to anyone who can see the listing.',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const apartment = await prisma.apartment.findUnique({
+        where: { id },
+        select: { status: true, listerId: true }
+      });
+
+      if (!apartment || !(await canViewListing(request, reply, apartment))) {
+        if (reply.sent) {
+          return reply;
         }
+        return reply.code(404).send({
+          success: false,
+          error: 'Apartment not found'
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: await findPriceHistory(id)
       });
     } catch (error) {
       fastify.log.error(error);
@@ -189,6 +511,135 @@ async function apartmentRoutes(fastify: any) {
     }
   });
 
+  // GET /apartments/:id/payment-plans - Installment plans offered for a unit
+  fastify.get('/apartments/:id/payment-plans', {
+    schema: {
+      tags: ['apartments'],
+      summary: 'Get apartment payment plans',
+      description: 'Payment plans of the unit itself, then those of its project, lowest down payment first. For sale listings with a price each plan carries a summary of the down payment, the monthly equivalent of the installments and the maintenance fee. Visible to anyone who can see the listing.',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const apartment = await prisma.apartment.findUnique({
+        where: { id },
+        select: { id: true, projectId: true, status: true, listerId: true, listingType: true, priceEgp: true }
+      });
+
+      if (!apartment || !(await canViewListing(request, reply, apartment))) {
+        if (reply.sent) {
+          return reply;
+        }
+        return reply.code(404).send({
+          success: false,
+          error: 'Apartment not found'
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: await findApartmentPaymentPlans(apartment)
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /apartments/:id/payment-plans/:planId/schedule - Installment schedule of a unit on a plan
+  fastify.get('/apartments/:id/payment-plans/:planId/schedule', {
+    schema: {
+      tags: ['apartments'],
+      summary: 'Get payment schedule',
+      description: 'Every payment of buying the unit at its asking price on one of its payment plans: the down payment on startDate, each installment\'s due date and amount, and the maintenance fee on delivery. Only sale listings with a price have a schedule.',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          planId: { type: 'string', format: 'uuid' }
+        },
+        required: ['id', 'planId']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          startDate: { type: 'string', format: 'date', description: 'When the down payment is made (defaults to today)' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, planId } = request.params as { id: string; planId: string };
+      const query = PaymentScheduleQuerySchema.parse(request.query);
+
+      const apartment = await prisma.apartment.findUnique({
+        where: { id },
+        select: { projectId: true, status: true, listerId: true, listingType: true, priceEgp: true }
+      });
+
+      if (!apartment || !(await canViewListing(request, reply, apartment))) {
+        if (reply.sent) {
+          return reply;
+        }
+        return reply.code(404).send({
+          success: false,
+          error: 'Apartment not found'
+        });
+      }
+
+      const plan = await prisma.paymentPlan.findFirst({
+        where: { id: planId, OR: [{ apartmentId: id }, { projectId: apartment.projectId }] }
+      });
+
+      if (!plan) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Payment plan not found'
+        });
+      }
+
+      if (apartment.listingType !== 'SALE' || apartment.priceEgp === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Only sale listings with a price have a payment schedule'
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: {
+          planId: plan.id,
+          ...buildPaymentSchedule(plan, apartment.priceEgp, query.startDate ?? startOfToday())
+        }
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
   // GET /apartments/:id - Get apartment by ID
   fastify.get('/apartments/:id', {
     schema: {
@@ -277,7 +728,10 @@ async function apartmentRoutes(fastify: any) {
         }
       });
 
-      if (!apartment) {
+      if (!apartment || !(await canViewListing(request, reply, apartment))) {
+        if (reply.sent) {
+          return reply;
+        }
         return reply.code(404).send({
           success: false,
           error: 'Apartment not found'
@@ -339,6 +793,7 @@ async function apartmentRoutes(fastify: any) {
       // 2. Same city
       // 3. Similar size (±20%)
       // 4. Similar price range (±30%)
+      // Only listings of the same type, so rentals are not suggested next to sales
 
       const relatedApartments = await prisma.$queryRaw`
         WITH apartment_data AS (
@@ -361,7 +816,8 @@ async function apartmentRoutes(fastify: any) {
           FROM apartments a
           JOIN projects p ON a.project_id = p.id
           JOIN cities c ON p.city_id = c.id
-          WHERE a.id != ${id}::uuid AND a.status = 'ACTIVE'
+          WHERE a.id != ${id}::uuid AND a.status = 'PUBLISHED'
+            AND a.listing_type = ${currentApartment.listingType}::"ListingType"
         )
         SELECT * FROM apartment_data 
         WHERE relevance_score > 0
@@ -434,46 +890,13 @@ async function apartmentRoutes(fastify: any) {
   //#region POST Routes
   // POST /apartments/search - Get all apartments with optional filtering and pagination (supports multiple values)
   fastify.post('/apartments/search', {
-    preHandler: authenticateToken,
+    config: { policy: { access: 'authenticated', apiKeyScope: 'listings:read' } },
     schema: {
       tags: ['apartments'],
       summary: 'Search all apartments',
-      description: 'Get all apartments with comprehensive filtering and pagination (excludes current user listings). Supports multiple values for project, city, lister, and status filters.',
+      description: 'Get apartments with comprehensive filtering and pagination. By default (scope=browse) only other people\'s PUBLISHED listings are returned; scope=mine lists your own. Supports multiple values for project, city, lister, and status filters, and location filters (radius, bounding box, polygon). Apartments without coordinates are located by their project.',
       security: [{ bearerAuth: [] }],
-      body: {
-        type: 'object',
-        properties: {
-          projectIds: { 
-            type: 'array', 
-            items: { type: 'string', format: 'uuid' },
-            description: 'Filter by multiple project IDs'
-          },
-          cityIds: { 
-            type: 'array', 
-            items: { type: 'string', format: 'uuid' },
-            description: 'Filter by multiple city IDs'
-          },
-          listerIds: { 
-            type: 'array', 
-            items: { type: 'string', format: 'uuid' },
-            description: 'Filter by multiple lister IDs'
-          },
-          statuses: { 
-            type: 'array', 
-            items: { type: 'string', enum: ['ACTIVE', 'INACTIVE', 'SOLD'] },
-            description: 'Filter by multiple statuses'
-          },
-          minPrice: { type: 'number', minimum: 0 },
-          maxPrice: { type: 'number', minimum: 0 },
-          minArea: { type: 'number', minimum: 0 },
-          maxArea: { type: 'number', minimum: 0 },
-          bedrooms: { type: 'number', minimum: 0 },
-          bathrooms: { type: 'number', minimum: 0 },
-          search: { type: 'string', description: 'Search by unit name or description' },
-          page: { type: 'number', minimum: 1, default: 1 },
-          limit: { type: 'number', minimum: 1, maximum: 100, default: 10 }
-        }
-      },
+      body: apartmentSearchBody,
       response: {
         200: {
           type: 'object',
@@ -485,8 +908,11 @@ async function apartmentRoutes(fastify: any) {
               properties: {
                 page: { type: 'number' },
                 limit: { type: 'number' },
-                total: { type: 'number', description: 'Total count of all apartments in database' },
-                totalFiltered: { type: 'number', description: 'Total count of apartments matching current filters' },
+                nextCursor: { type: ['string', 'null'], description: 'Pass as after to get the next page' },
+                prevCursor: { type: ['string', 'null'], description: 'Pass as before to get the previous page' },
+                hasMore: { type: 'boolean' },
+                total: { type: 'number', description: 'Total count of all apartments in database (when totals are included)' },
+                totalFiltered: { type: 'number', description: 'Total count of apartments matching current filters (when totals are included)' },
                 totalPages: { type: 'number' }
               }
             }
@@ -497,148 +923,123 @@ async function apartmentRoutes(fastify: any) {
   }, async (request, reply) => {
     try {
       const query = ApartmentSearchSchema.parse(request.body);
-      
-      // Build where clause
-      const where: any = {};
+      const scope = query.scope ?? 'browse';
 
-      if (query.projectIds && query.projectIds.length > 0) {
-        where.projectId = {
-          in: query.projectIds
-        };
-      }
-      
-      if (query.listerIds && query.listerIds.length > 0) {
-        where.listerId = {
-          in: query.listerIds
-        };
+      if (!canUseScope(request.user, scope)) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Insufficient permissions'
+        });
       }
 
-      if (query.statuses && query.statuses.length > 0) {
-        where.status = {
-          in: query.statuses
-        };
-      }
+      // Offset pages keep their totals; cursor pages only count when asked to
+      const includeTotal = query.includeTotal ?? !(query.after || query.before);
 
-      if (query.cityIds && query.cityIds.length > 0) {
-        where.project = {
-          cityId: {
-            in: query.cityIds
-          }
-        };
-      }
-      
-      if (query.minPrice || query.maxPrice) {
-        where.priceEgp = {};
-        if (query.minPrice) where.priceEgp.gte = query.minPrice;
-        if (query.maxPrice) where.priceEgp.lte = query.maxPrice;
-      }
+      const [{ apartments, total: totalFiltered, nextCursor, prevCursor }, totalAll] = await Promise.all([
+        findApartmentPage({ ...query, includeTotal }, request.user.id, apartmentListInclude),
+        includeTotal ? prisma.apartment.count() : undefined
+      ]);
 
-      if (query.minArea || query.maxArea) {
-        where.areaSqm = {};
-        if (query.minArea) where.areaSqm.gte = query.minArea;
-        if (query.maxArea) where.areaSqm.lte = query.maxArea;
-      }
+      return reply.send({
+        success: true,
+        data: apartments,
+        meta: {
+          page: query.after || query.before ? undefined : query.page,
+          limit: query.limit,
+          nextCursor,
+          prevCursor,
+          hasMore: nextCursor !== null,
+          ...(includeTotal && {
+            total: totalAll,
+            totalFiltered: totalFiltered,
+            totalPages: Math.ceil(totalFiltered / query.limit)
+          })
+        }
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
 
-      if (query.bedrooms !== undefined) {
-        where.bedrooms = query.bedrooms;
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
       }
 
-      if (query.bathrooms !== undefined) {
-        where.bathrooms = query.bathrooms;
+      if (error.name === 'InvalidCursorError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.message
+        });
       }
-      
-      if (query.search) {
-        where.OR = [
-          { unitName: { contains: query.search, mode: 'insensitive' } },
-          { unitNumber: { contains: query.search, mode: 'insensitive' } },
-          { description: { contains: query.search, mode: 'insensitive' } }
-        ];
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+  
+  // POST /apartments/facets - Result counts per filter option for the search sidebar
+  fastify.post('/apartments/facets', {
+    config: { policy: { access: 'authenticated', apiKeyScope: 'listings:read' } },
+    schema: {
+      tags: ['apartments'],
+      summary: 'Search facet counts',
+      description: 'Takes the same body as /apartments/search and returns how many apartments each city, project, status, bedroom and bathroom count and amenity would yield, plus price and area histograms. Each facet is counted without its own filter; pagination and sorting are ignored.',
+      security: [{ bearerAuth: [] }],
+      body: apartmentSearchBody,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object', additionalProperties: true }
+          }
+        }
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const query = ApartmentSearchSchema.parse(request.body);
 
-      const [apartments, totalFiltered, totalAll] = await Promise.all([
-        prisma.apartment.findMany({
-          where,
-          include: {
-            project: {
-              select: {
-                id: true,
-                name: true,
-                city: {
-                  select: {
-                    id: true,
-                    name: true,
-                    country: true
-                  }
-                }
-              }
-            },
-            lister: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                phone: true,
-                role: true
-              }
-            },
-            images: {
-              select: {
-                id: true,
-                imageUrl: true,
-                position: true
-              },
-              orderBy: { position: 'asc' }
-            },
-            amenities: {
-              select: {
-                id: true,
-                amenity: true
-              }
-            },
-            _count: {
-              select: {
-                watchlists: true,
-                reviews: true,
-                visits: true
-              }
-            }
-          },
-          skip: (query.page - 1) * query.limit,
-          take: query.limit,
-          orderBy: { createdAt: 'desc' }
-        }),
-        prisma.apartment.count({ where }), 
-        prisma.apartment.count() 
-      ]);
+      if (!canUseScope(request.user, query.scope ?? 'browse')) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Insufficient permissions'
+        });
+      }
 
-      const totalPages = Math.ceil(totalFiltered / query.limit);
+      const facets = await findApartmentFacets(query, request.user.id);
 
       return reply.send({
         success: true,
-        data: apartments,
-        meta: {
-          page: query.page,
-          limit: query.limit,
-          total: totalAll,
-          totalFiltered: totalFiltered,
-          totalPages
-        }
+        data: facets
       });
-    } catch (error) {
+    } catch (error: any) {
       fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
       return reply.code(500).send({
         success: false,
         error: 'Internal server error'
       });
     }
   });
-  
+
   // POST /apartments - Create new apartment
   fastify.post('/apartments', {
+    config: { policy: { access: 'authenticated', permissions: ['listing:create'], verified: true, apiKeyScope: 'listings:write' }, audit: { entity: 'apartment' } },
     schema: {
       tags: ['apartments'],
       summary: 'Create new apartment',
-      description: 'Create a new apartment',
+      description: 'Create a new apartment as a draft or submitted for review. It becomes public once a moderator approves it.',
       body: {
         type: 'object',
         properties: {
@@ -648,15 +1049,16 @@ async function apartmentRoutes(fastify: any) {
           bedrooms: { type: 'number', minimum: 0 },
           bathrooms: { type: 'number', minimum: 0 },
           areaSqm: { type: 'number', minimum: 0 },
-          priceEgp: { type: 'number', minimum: 0 },
+          priceEgp: { type: 'number', minimum: 0, description: 'Sale price, or the rent per rentPeriod' },
+          ...listingTermsProperties,
           address: { type: 'string' },
           latitude: { type: 'number' },
           longitude: { type: 'number' },
           description: { type: 'string' },
-          listerId: { type: 'string', format: 'uuid' },
-          status: { type: 'string', enum: ['ACTIVE', 'INACTIVE', 'SOLD'], default: 'ACTIVE' }
+          listerId: { type: 'string', format: 'uuid', description: 'Admin only - defaults to the authenticated user' },
+          status: { type: 'string', enum: ['DRAFT', 'PENDING_REVIEW'], default: 'DRAFT', description: 'Save as a draft or submit for review straight away' }
         },
-        required: ['projectId', 'unitName', 'listerId']
+        required: ['projectId', 'unitName']
       },
       response: {
         201: {
@@ -674,6 +1076,12 @@ async function apartmentRoutes(fastify: any) {
                 bathrooms: { type: 'number' },
                 areaSqm: { type: 'number' },
                 priceEgp: { type: 'number' },
+                listingType: { type: 'string' },
+                rentPeriod: { type: ['string', 'null'] },
+                depositEgp: { type: ['number', 'null'] },
+                minLeaseMonths: { type: ['integer', 'null'] },
+                furnished: { type: 'boolean' },
+                availableFrom: { type: ['string', 'null'] },
                 address: { type: 'string' },
                 description: { type: 'string' },
                 status: { type: 'string' },
@@ -696,6 +1104,22 @@ async function apartmentRoutes(fastify: any) {
     try {
       const body = CreateApartmentSchema.parse(request.body);
 
+      const termsError = rentalTermsError({
+        listingType: body.listingType,
+        rentPeriod: body.rentPeriod,
+        depositEgp: body.depositEgp,
+        minLeaseMonths: body.minLeaseMonths
+      });
+      if (termsError) {
+        return reply.code(400).send({
+          success: false,
+          error: termsError
+        });
+      }
+
+      // The lister is always the caller, unless a moderator lists on someone's behalf
+      const listerId = hasPermission(request.user, 'listing:moderate') && body.listerId ? body.listerId : request.user.id;
+
       const project = await prisma.project.findUnique({
         where: { id: body.projectId }
       });
@@ -708,7 +1132,7 @@ async function apartmentRoutes(fastify: any) {
       }
 
       const lister = await prisma.user.findUnique({
-        where: { id: body.listerId }
+        where: { id: listerId }
       });
 
       if (!lister) {
@@ -718,8 +1142,42 @@ async function apartmentRoutes(fastify: any) {
         });
       }
       
+      const data: Prisma.ApartmentUncheckedCreateInput = {
+        projectId: body.projectId,
+        listerId,
+        unitName: body.unitName,
+        unitNumber: body.unitNumber,
+        bedrooms: body.bedrooms,
+        bathrooms: body.bathrooms,
+        areaSqm: body.areaSqm,
+        priceEgp: body.priceEgp,
+        listingType: body.listingType,
+        rentPeriod: body.rentPeriod,
+        depositEgp: body.depositEgp,
+        minLeaseMonths: body.minLeaseMonths,
+        furnished: body.furnished,
+        availableFrom: body.availableFrom,
+        address: body.address,
+        latitude: body.latitude,
+        longitude: body.longitude,
+        description: body.description,
+        status: body.status,
+        // Submitting on creation is recorded like a later POST /apartments/:id/submit
+        ...(body.status === 'PENDING_REVIEW' && {
+          statusChanges: {
+            create: { actorId: request.user.id, action: 'submit', fromStatus: 'DRAFT', toStatus: 'PENDING_REVIEW' }
+          }
+        }),
+        // The asking price is tracked from the start, so the history shows where it began
+        ...(body.priceEgp !== undefined && {
+          priceChanges: {
+            create: { oldPriceEgp: null, newPriceEgp: body.priceEgp, changedById: request.user.id }
+          }
+        })
+      };
+
       const apartment = await prisma.apartment.create({
-        data: body as any,
+        data,
         include: {
           project: {
             select: {
@@ -767,13 +1225,101 @@ async function apartmentRoutes(fastify: any) {
   });
   //#endregion
 
+  //#region Lifecycle Routes
+  // POST /apartments/:id/<action> - Move a listing along its lifecycle (one route per LISTING_ACTIONS entry)
+  for (const action of LISTING_ACTIONS) {
+    const transition = LISTING_TRANSITIONS[action];
+
+    fastify.post(`/apartments/:id/${action}`, {
+      config: {
+        // Moderation steps need listing:moderate; the rest are open to the lister (and moderators)
+        policy: transition.moderatorOnly
+          ? { access: 'authenticated', permissions: ['listing:moderate'], apiKeyScope: 'listings:write' }
+          : { access: 'authenticated', owner: { resource: 'apartment' }, apiKeyScope: 'listings:write' },
+        audit: { entity: 'apartment', action }
+      },
+      schema: {
+        tags: ['apartments'],
+        summary: `Listing transition: ${action}`,
+        description: `Moves a ${transition.from.join(', ')} listing to ${transition.to}.${transition.moderatorOnly ? ' Moderators only.' : ''}${transition.requiresNote ? ' A note explaining why is required.' : ''}`,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' }
+          },
+          required: ['id']
+        },
+        // The body is optional unless a note is required
+        body: {
+          type: ['object', 'null'],
+          properties: {
+            note: { type: 'string', maxLength: 1000, description: 'Kept in the status history (e.g. why a listing was rejected)' }
+          },
+          ...(transition.requiresNote && { required: ['note'] })
+        }
+      }
+    }, async (request, reply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const { note } = ListingTransitionSchema.parse(request.body ?? {});
+
+        if (transition.requiresNote && !note) {
+          return reply.code(400).send({
+            success: false,
+            error: `A note is required to ${action} a listing`
+          });
+        }
+
+        const apartment = await transitionListing(id, action, request.user.id, note);
+
+        if (!apartment) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Apartment not found'
+          });
+        }
+
+        return reply.send({
+          success: true,
+          data: {
+            ...apartment,
+            transitions: availableTransitions(apartment.status, hasPermission(request.user, 'listing:moderate'))
+          }
+        });
+      } catch (error: any) {
+        fastify.log.error(error);
+
+        if (error.name === 'ZodError') {
+          return reply.code(400).send({
+            success: false,
+            error: error.issues.map((issue: any) => issue.message).join(', ')
+          });
+        }
+
+        if (error.name === 'ListingTransitionError') {
+          return reply.code(409).send({
+            success: false,
+            error: error.message
+          });
+        }
+
+        return reply.code(500).send({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    });
+  }
+  //#endregion
+
   //#region PUT Routes
   // PUT /apartments/:id - Update apartment
   fastify.put('/apartments/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartment' }, apiKeyScope: 'listings:write' }, audit: { entity: 'apartment' } },
     schema: {
       tags: ['apartments'],
       summary: 'Update apartment',
-      description: 'Update an existing apartment',
+      description: 'Update an existing apartment. The status is changed through the transition endpoints (e.g. POST /apartments/:id/submit). Once a listing has left DRAFT its lister may only change priceEgp; holders of listing:moderate may change anything.',
       params: {
         type: 'object',
         properties: {
@@ -790,13 +1336,13 @@ async function apartmentRoutes(fastify: any) {
           bedrooms: { type: 'number', minimum: 0 },
           bathrooms: { type: 'number', minimum: 0 },
           areaSqm: { type: 'number', minimum: 0 },
-          priceEgp: { type: 'number', minimum: 0 },
+          priceEgp: { type: 'number', minimum: 0, description: 'Sale price, or the rent per rentPeriod' },
+          ...listingTermsProperties,
           address: { type: 'string' },
           latitude: { type: 'number' },
           longitude: { type: 'number' },
           description: { type: 'string' },
-          listerId: { type: 'string', format: 'uuid' },
-          status: { type: 'string', enum: ['ACTIVE', 'INACTIVE', 'SOLD'] }
+          listerId: { type: 'string', format: 'uuid' }
         }
       },
       response: {
@@ -815,6 +1361,14 @@ async function apartmentRoutes(fastify: any) {
                 bathrooms: { type: 'number' },
                 areaSqm: { type: 'number' },
                 priceEgp: { type: 'number' },
+                priceDropPercent: { type: ['number', 'null'] },
+                priceDroppedAt: { type: ['string', 'null'] },
+                listingType: { type: 'string' },
+                rentPeriod: { type: ['string', 'null'] },
+                depositEgp: { type: ['number', 'null'] },
+                minLeaseMonths: { type: ['integer', 'null'] },
+                furnished: { type: 'boolean' },
+                availableFrom: { type: ['string', 'null'] },
                 address: { type: 'string' },
                 description: { type: 'string' },
                 status: { type: 'string' },
@@ -835,6 +1389,14 @@ async function apartmentRoutes(fastify: any) {
   }, async (request, reply) => {
     try {
       const { id } = request.params as { id: string };
+
+      if ((request.body as any)?.status !== undefined) {
+        return reply.code(400).send({
+          success: false,
+          error: 'The status cannot be set directly; use the transition endpoints (e.g. POST /apartments/:id/submit)'
+        });
+      }
+
       const body = UpdateApartmentSchema.parse(request.body);
       
       // Check if apartment exists
@@ -849,6 +1411,30 @@ async function apartmentRoutes(fastify: any) {
         });
       }
 
+      // Past DRAFT the lister may only reprice; moderators may still edit the whole listing
+      const contentError = Object.keys(body).some(field => field !== 'priceEgp')
+        && listingContentError(existingApartment.status, hasPermission(request.user, 'listing:moderate'));
+
+      if (contentError) {
+        return reply.code(409).send({
+          success: false,
+          error: contentError
+        });
+      }
+
+      const listingType = body.listingType ?? existingApartment.listingType;
+      // A sale only fails on rental terms sent with it; the ones it had as a rental are dropped below
+      const termsError = rentalTermsError(listingType === 'RENT'
+        ? { listingType, rentPeriod: body.rentPeriod === undefined ? existingApartment.rentPeriod : body.rentPeriod }
+        : { listingType, rentPeriod: body.rentPeriod, depositEgp: body.depositEgp, minLeaseMonths: body.minLeaseMonths });
+
+      if (termsError) {
+        return reply.code(400).send({
+          success: false,
+          error: termsError
+        });
+      }
+
       // Verify project exists if projectId is being updated
       if (body.projectId) {
         const project = await prisma.project.findUnique({
@@ -863,6 +1449,14 @@ async function apartmentRoutes(fastify: any) {
         }
       }
 
+      // Only moderators may reassign a listing to another lister
+      if (body.listerId && body.listerId !== existingApartment.listerId && !hasPermission(request.user, 'listing:moderate')) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Only moderators can change the lister of an apartment'
+        });
+      }
+
       // Verify lister exists if listerId is being updated
       if (body.listerId) {
         const lister = await prisma.user.findUnique({
@@ -877,12 +1471,17 @@ async function apartmentRoutes(fastify: any) {
         }
       }
       
+      const { priceEgp, ...fields } = body;
+
+      // A new price is recorded in the price history in the same write
       const apartment = await prisma.apartment.update({
         where: { id },
         data: {
           ...Object.fromEntries(
-            Object.entries(body).filter(([_, value]) => value !== undefined)
-          )
+            Object.entries(fields).filter(([_, value]) => value !== undefined)
+          ),
+          ...(listingType === 'SALE' && { rentPeriod: null, depositEgp: null, minLeaseMonths: null }),
+          ...priceChangeData(existingApartment.priceEgp, priceEgp, request.user.id)
         },
         include: {
           project: {
@@ -934,6 +1533,7 @@ async function apartmentRoutes(fastify: any) {
   //#region DELETE Routes
   // DELETE /apartments/:id - Delete apartment
   fastify.delete('/apartments/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartment' }, apiKeyScope: 'listings:write' }, audit: { entity: 'apartment' } },
     schema: {
       tags: ['apartments'],
       summary: 'Delete apartment',
@@ -0,0 +1,265 @@
+import fastifyPlugin from 'fastify-plugin';
+import { PrismaClient } from '@prisma/client';
+import { CreateApiKeySchema } from '../types';
+import {
+  API_KEY_SCOPES,
+  DEFAULT_API_KEY_TTL_DAYS,
+  MAX_ACTIVE_API_KEYS,
+  generateApiKey
+} from '../lib/api-keys';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true
+};
+
+const apiKeyProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  prefix: { type: 'string', description: 'First characters of the key, to tell keys apart' },
+  scopes: { type: 'array', items: { type: 'string' } },
+  expiresAt: { type: 'string', nullable: true },
+  lastUsedAt: { type: 'string', nullable: true },
+  lastUsedIp: { type: 'string', nullable: true },
+  revokedAt: { type: 'string', nullable: true },
+  createdAt: { type: 'string' }
+};
+
+const errorResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' }
+  }
+};
+
+async function apiKeyRoutes(fastify: any) {
+  // GET /api-keys/scopes - List the scopes a key can be granted
+  fastify.get('/api-keys/scopes', {
+    config: { policy: { access: 'authenticated' } },
+    schema: {
+      tags: ['api-keys'],
+      summary: 'List API key scopes',
+      description: 'List the scopes that can be granted to an API key',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request: any, reply: any) => {
+    return reply.send({
+      success: true,
+      data: Object.entries(API_KEY_SCOPES).map(([name, description]) => ({ name, description }))
+    });
+  });
+
+  // GET /api-keys - List the current user's API keys
+  fastify.get('/api-keys', {
+    config: { policy: { access: 'authenticated' } },
+    schema: {
+      tags: ['api-keys'],
+      summary: 'List API keys',
+      description: 'List the API keys of the current user, including revoked and expired ones. The keys themselves are never returned',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: apiKeyProperties
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const apiKeys = await prisma.apiKey.findMany({
+        where: { userId: request.user.id },
+        select: apiKeySelect,
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: apiKeys
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /api-keys - Mint a new API key
+  fastify.post('/api-keys', {
+    config: { policy: { access: 'authenticated', verified: true } },
+    schema: {
+      tags: ['api-keys'],
+      summary: 'Create API key',
+      description: `Mint an API key for integrations. The key is returned once and cannot be retrieved again; send it in the \`X-API-Key\` header. A key acts as its owner, limited to its scopes. At most ${MAX_ACTIVE_API_KEYS} active keys per user`,
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 100 },
+          scopes: {
+            type: 'array',
+            items: { type: 'string', enum: Object.keys(API_KEY_SCOPES) },
+            minItems: 1
+          },
+          expiresInDays: { type: 'number', minimum: 1, maximum: 365, default: DEFAULT_API_KEY_TTL_DAYS }
+        },
+        required: ['name', 'scopes']
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                ...apiKeyProperties,
+                key: { type: 'string', description: 'The API key; store it now, it is not shown again' }
+              }
+            }
+          }
+        },
+        400: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = CreateApiKeySchema.parse(request.body);
+
+      const activeKeys = await prisma.apiKey.count({
+        where: {
+          userId: request.user.id,
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+        }
+      });
+
+      if (activeKeys >= MAX_ACTIVE_API_KEYS) {
+        return reply.code(400).send({
+          success: false,
+          error: `You can have at most ${MAX_ACTIVE_API_KEYS} active API keys. Revoke one first`
+        });
+      }
+
+      const { key, keyHash, prefix } = generateApiKey();
+
+      const apiKey = await prisma.apiKey.create({
+        data: {
+          userId: request.user.id,
+          name: body.name,
+          prefix,
+          keyHash,
+          scopes: [...new Set(body.scopes)],
+          expiresAt: new Date(Date.now() + body.expiresInDays * DAY_MS)
+        },
+        select: apiKeySelect
+      });
+
+      return reply.code(201).send({
+        success: true,
+        message: 'API key created. Copy it now, it will not be shown again',
+        data: { ...apiKey, key }
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /api-keys/:id - Revoke an API key
+  fastify.delete('/api-keys/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apiKey' } } },
+    schema: {
+      tags: ['api-keys'],
+      summary: 'Revoke API key',
+      description: 'Revoke an API key immediately. Users revoke their own keys; holders of user:manage can revoke any key',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        404: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const existingKey = await prisma.apiKey.findUnique({
+        where: { id },
+        select: { id: true }
+      });
+
+      if (!existingKey) {
+        return reply.code(404).send({
+          success: false,
+          error: 'API key not found'
+        });
+      }
+
+      // Keep the first revocation time if the key was already revoked
+      await prisma.apiKey.updateMany({
+        where: { id, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+
+      return reply.send({
+        success: true,
+        message: 'API key revoked successfully'
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default fastifyPlugin(apiKeyRoutes);
@@ -0,0 +1,107 @@
+import fastifyPlugin from 'fastify-plugin';
+import { PrismaClient } from '@prisma/client';
+import { AuditEventQuerySchema } from '../types';
+import { AUDIT_ENTITIES } from '../lib/audit';
+
+const prisma = new PrismaClient();
+
+async function auditEventRoutes(fastify: any) {
+  // GET /audit-events - Search the audit log
+  fastify.get('/audit-events', {
+    config: { policy: { access: 'authenticated', permissions: ['audit:read'] } },
+    schema: {
+      tags: ['audit'],
+      summary: 'Get audit events',
+      description: 'Search the audit log of sensitive changes, newest first. Each event records who acted, on what, from where and the field-level changes',
+      querystring: {
+        type: 'object',
+        properties: {
+          actorId: { type: 'string', format: 'uuid', description: 'User who made the change' },
+          entityType: { type: 'string', enum: [...AUDIT_ENTITIES] },
+          entityId: { type: 'string', format: 'uuid' },
+          action: { type: 'string', description: 'e.g. apartment.update or user.assign_role' },
+          dateFrom: { type: 'string', format: 'date-time' },
+          dateTo: { type: 'string', format: 'date-time' },
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 10 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const query = AuditEventQuerySchema.parse(request.query);
+
+      const where: any = {};
+
+      if (query.actorId) {
+        where.actorId = query.actorId;
+      }
+
+      if (query.entityType) {
+        where.entityType = query.entityType;
+      }
+
+      if (query.entityId) {
+        where.entityId = query.entityId;
+      }
+
+      if (query.action) {
+        where.action = query.action;
+      }
+
+      if (query.dateFrom || query.dateTo) {
+        where.createdAt = {};
+        if (query.dateFrom) where.createdAt.gte = new Date(query.dateFrom);
+        if (query.dateTo) where.createdAt.lte = new Date(query.dateTo);
+      }
+
+      const [events, total] = await Promise.all([
+        prisma.auditEvent.findMany({
+          where,
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        prisma.auditEvent.count({ where })
+      ]);
+
+      // Events outlive the accounts that made them, so actors are looked up rather than joined
+      const actorIds = [...new Set(events.map(event => event.actorId).filter((id): id is string => !!id))];
+      const actors = await prisma.user.findMany({
+        where: { id: { in: actorIds } },
+        select: { id: true, email: true, name: true, role: true }
+      });
+      const actorsById = new Map(actors.map(actor => [actor.id, actor]));
+
+      return reply.send({
+        success: true,
+        data: events.map(event => ({
+          ...event,
+          actor: event.actorId ? actorsById.get(event.actorId) ?? null : null
+        })),
+        meta: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit)
+        }
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default fastifyPlugin(auditEventRoutes);
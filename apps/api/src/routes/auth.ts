@@ -1,24 +1,72 @@
 import fastifyPlugin from 'fastify-plugin';
 import { PrismaClient } from '@prisma/client';
 import * as bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import {
   LoginSchema,
-  RegisterSchema
+  RegisterSchema,
+  RefreshTokenSchema,
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  ChangePasswordSchema,
+  VerifyEmailSchema
 } from '../types/index';
+import {
+  createSession,
+  createImpersonationSession,
+  resumeSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  IMPERSONATION_TTL_MINUTES
+} from '../lib/sessions';
+import { issueSession, clearSessionCookies, verifyCsrf, wantsCookieSession, REFRESH_COOKIE } from '../lib/cookies';
+import { generateToken, hashToken } from '../lib/tokens';
+import { sendMail } from '../lib/mailer';
+import { passwordResetEmail, passwordChangedEmail } from '../lib/emails';
+import { sendVerificationEmail, verificationRetryAfter, confirmEmail } from '../lib/verification';
+import { loginRetryAfter, recordFailedLogin, clearFailedLogins } from '../lib/login-attempts';
+import { signChallengeToken, isTwoFactorRequired, CHALLENGE_TTL_SECONDS } from '../lib/two-factor';
+import { isClosedByAdmin } from '../lib/account-deletion';
+import { isPermission, Permission } from '../lib/permissions';
 
 const prisma = new PrismaClient();
 
-// JWT secret - in production this should come from environment variables
-const JWT_SECRET = process.env.JWT_SECRET || 'Placeholder-Secret';
+const PASSWORD_RESET_TTL_MINUTES = Number.parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+
+// Accounts holding any of these cannot be impersonated, so support cannot act with admin rights
+const NON_IMPERSONABLE_PERMISSIONS: Permission[] = ['user:manage', 'role:manage', 'user:impersonate'];
+
+// With `X-Auth-Mode: cookie` the tokens are set as httpOnly cookies and omitted from the body
+const tokenResponseProperties = {
+  token: { type: 'string', description: 'Short-lived access token' },
+  refreshToken: { type: 'string', description: 'Single-use refresh token, rotated on every refresh' },
+  expiresIn: { type: 'number', description: 'Access token lifetime in seconds' }
+};
+
+const messageResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' }
+  }
+};
+
+const errorResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' }
+  }
+};
 
 async function authRoutes(fastify: any) {
   // POST /auth/register - Register new user
   fastify.post('/auth/register', {
+    config: { policy: { access: 'public' } },
     schema: {
       tags: ['authentication'],
       summary: 'Register new user',
-      description: 'Create a new user account',
+      description: 'Create a new user account and email a verification link',
       body: {
         type: 'object',
         properties: {
@@ -50,7 +98,7 @@ async function authRoutes(fastify: any) {
                     createdAt: { type: 'string' }
                   }
                 },
-                token: { type: 'string' }
+                ...tokenResponseProperties
               }
             }
           }
@@ -103,13 +151,15 @@ async function authRoutes(fastify: any) {
         }
       });
 
-      // Generate JWT token
-      const payload = { 
-        userId: user.id, 
-        email: user.email,
-        role: user.role 
-      };
-      const token = jwt.sign(payload, JWT_SECRET, { expiresIn: '12h' });
+      // A failing mailer should not block sign up; the user can ask for a new link
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error('Failed to send verification email:', mailError);
+      }
+
+      // Start a session (new registrations are remembered by default)
+      const session = await createSession(user, request, true);
 
       // Update last login
       await prisma.user.update({
@@ -121,7 +171,7 @@ async function authRoutes(fastify: any) {
         success: true,
         data: {
           user,
-          token
+          ...issueSession(request, reply, session)
         }
       });
     } catch (error: any) {
@@ -143,15 +193,17 @@ async function authRoutes(fastify: any) {
 
   // POST /auth/login - Login user
   fastify.post('/auth/login', {
+    config: { policy: { access: 'public' } },
     schema: {
       tags: ['authentication'],
       summary: 'Login user',
-      description: 'Authenticate user and return JWT token',
+      description: 'Authenticate user and start a session. Returns a short-lived access token and a refresh token, or a challenge token to complete with POST /auth/2fa/verify when two-factor authentication is enabled. Repeated failures lock the account (and client IP) temporarily with exponential backoff',
       body: {
         type: 'object',
         properties: {
           email: { type: 'string', format: 'email' },
-          password: { type: 'string', minLength: 1 }
+          password: { type: 'string', minLength: 1 },
+          rememberMe: { type: 'boolean', default: false, description: 'Keep the session alive for 30 days instead of 12 hours' }
         },
         required: ['email', 'password']
       },
@@ -173,10 +225,13 @@ async function authRoutes(fastify: any) {
                     phone: { type: 'string' },
                     avatarUrl: { type: 'string' },
                     isVerified: { type: 'boolean' },
+                    twoFactorEnabled: { type: 'boolean' },
                     lastLogin: { type: 'string' }
                   }
                 },
-                token: { type: 'string' }
+                ...tokenResponseProperties,
+                twoFactorRequired: { type: 'boolean', description: 'True when the login must be completed with a TOTP or recovery code' },
+                challengeToken: { type: 'string', description: 'Short-lived token for POST /auth/2fa/verify' }
               }
             }
           }
@@ -187,12 +242,24 @@ async function authRoutes(fastify: any) {
             success: { type: 'boolean' },
             error: { type: 'string' }
           }
-        }
+        },
+        429: errorResponse
       }
     }
   }, async (request: any, reply: any) => {
     try {
       const body = LoginSchema.parse(request.body);
+
+      const sendTooManyAttempts = (retryAfter: number) => reply.code(429).header('Retry-After', String(retryAfter)).send({
+        success: false,
+        error: `Too many failed login attempts. Try again in ${retryAfter} seconds`
+      });
+
+      // Refuse early while the account or the client IP is locked out
+      const lockedFor = await loginRetryAfter(body.email, request.ip);
+      if (lockedFor > 0) {
+        return sendTooManyAttempts(lockedFor);
+      }
       
       // Find user by email
       const user = await prisma.user.findUnique({
@@ -206,49 +273,68 @@ async function authRoutes(fastify: any) {
           phone: true,
           avatarUrl: true,
           isVerified: true,
-          lastLogin: true
+          twoFactorEnabled: true,
+          lastLogin: true,
+          deletionScheduledAt: true,
+          deletionRequestedById: true
         }
       });
 
-      if (!user) {
+      // Verify password
+      const isPasswordValid = user && await bcrypt.compare(body.password, user.passwordHash);
+      
+      if (!isPasswordValid) {
+        const retryAfter = await recordFailedLogin(body.email, request.ip, user?.id);
+        if (retryAfter > 0) {
+          return sendTooManyAttempts(retryAfter);
+        }
+
         return reply.code(401).send({
           success: false,
           error: 'Invalid email or password'
         });
       }
 
-      // Verify password
-      const isPasswordValid = await bcrypt.compare(body.password, user.passwordHash);
-      
-      if (!isPasswordValid) {
-        return reply.code(401).send({
+      if (isClosedByAdmin(user)) {
+        return reply.code(403).send({
           success: false,
-          error: 'Invalid email or password'
+          error: 'This account has been closed'
+        });
+      }
+
+      // Password is correct but a second factor is needed before a session is started. The failure
+      // counter is left alone until that factor is verified, so re-entering the password between
+      // code guesses does not reset the lockout of /auth/2fa/verify.
+      if (user.twoFactorEnabled) {
+        return reply.send({
+          success: true,
+          data: {
+            twoFactorRequired: true,
+            challengeToken: await signChallengeToken(user.id, body.rememberMe),
+            expiresIn: CHALLENGE_TTL_SECONDS
+          }
         });
       }
 
-      // Generate JWT token
-      const payload2 = { 
-        userId: user.id, 
-        email: user.email,
-        role: user.role 
-      };
-      const token = jwt.sign(payload2, JWT_SECRET, { expiresIn: '7d' });
+      // Start a new session
+      const session = await createSession(user, request, body.rememberMe);
 
-      // Update last login
+      await clearFailedLogins(body.email);
+
+      // Update last login; signing in during the grace period also cancels a pending account deletion
       await prisma.user.update({
         where: { id: user.id },
-        data: { lastLogin: new Date() }
+        data: { lastLogin: new Date(), deletionScheduledAt: null, deletionRequestedById: null }
       });
 
-      // Remove password hash from response
-      const { passwordHash, ...userResponse } = user;
+      // Remove password hash and deletion state from response
+      const { passwordHash, deletionScheduledAt, deletionRequestedById, ...userResponse } = user;
 
       return reply.send({
         success: true,
         data: {
           user: userResponse,
-          token
+          ...issueSession(request, reply, session)
         }
       });
     } catch (error: any) {
@@ -270,17 +356,12 @@ async function authRoutes(fastify: any) {
 
   // GET /auth/me - Get current user info (requires authentication)
   fastify.get('/auth/me', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true } },
     schema: {
       tags: ['authentication'],
       summary: 'Get current user',
       description: 'Get current authenticated user information',
-      headers: {
-        type: 'object',
-        properties: {
-          authorization: { type: 'string', description: 'Bearer token' }
-        },
-        required: ['authorization']
-      },
+      security: [{ bearerAuth: [] }],
       response: {
         200: {
           type: 'object',
@@ -296,6 +377,23 @@ async function authRoutes(fastify: any) {
                 phone: { type: 'string' },
                 avatarUrl: { type: 'string' },
                 isVerified: { type: 'boolean' },
+                twoFactorEnabled: { type: 'boolean' },
+                twoFactorRequired: { type: 'boolean', description: 'The role requires 2FA but the user has not enrolled yet' },
+                permissions: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Effective permissions granted by the user\'s role'
+                },
+                impersonator: {
+                  type: 'object',
+                  nullable: true,
+                  description: 'The admin viewing the app as this user, when this is an impersonation session',
+                  properties: {
+                    id: { type: 'string' },
+                    email: { type: 'string' },
+                    name: { type: 'string' }
+                  }
+                },
                 lastLogin: { type: 'string' },
                 createdAt: { type: 'string' },
                 updatedAt: { type: 'string' }
@@ -314,24 +412,8 @@ async function authRoutes(fastify: any) {
     }
   }, async (request: any, reply: any) => {
     try {
-      // Extract token from Authorization header
-      const authHeader = request.headers.authorization;
-      
-      if (!authHeader?.startsWith('Bearer ')) {
-        return reply.code(401).send({
-          success: false,
-          error: 'Authorization token required'
-        });
-      }
-
-      const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-      
-      // Verify JWT token
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      
-      // Get user from database
       const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
+        where: { id: request.user.id },
         select: {
           id: true,
           email: true,
@@ -340,6 +422,7 @@ async function authRoutes(fastify: any) {
           phone: true,
           avatarUrl: true,
           isVerified: true,
+          twoFactorEnabled: true,
           lastLogin: true,
           createdAt: true,
           updatedAt: true
@@ -355,18 +438,199 @@ async function authRoutes(fastify: any) {
 
       return reply.send({
         success: true,
-        data: user
+        data: {
+          ...user,
+          twoFactorRequired: isTwoFactorRequired(user),
+          permissions: request.user.permissions,
+          impersonator: request.impersonator ?? null
+        }
       });
     } catch (error: any) {
       console.error(error);
-      
-      if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/refresh - Exchange a refresh token for a new token pair
+  fastify.post('/auth/refresh', {
+    config: { policy: { access: 'public' } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Refresh session',
+      description: 'Rotate the refresh token and issue a new access token. Presenting an already-used refresh token revokes the whole session. Cookie sessions omit the body token and send the X-CSRF-Token header instead',
+      body: {
+        type: 'object',
+        properties: {
+          refreshToken: { type: 'string', minLength: 1 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: tokenResponseProperties
+            }
+          }
+        },
+        401: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = RefreshTokenSchema.parse(request.body ?? {});
+      let presentedToken = body.refreshToken;
+
+      if (!presentedToken) {
+        presentedToken = request.cookies?.[REFRESH_COOKIE];
+
+        if (presentedToken && !verifyCsrf(request)) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Invalid or missing CSRF token'
+          });
+        }
+      }
+
+      if (!presentedToken) {
         return reply.code(401).send({
           success: false,
-          error: 'Invalid or expired token'
+          error: 'Refresh token is required'
         });
       }
-      
+
+      const result = await rotateSession(presentedToken, request);
+
+      if (!result.success) {
+        clearSessionCookies(reply);
+        return reply.code(401).send({
+          success: false,
+          error: result.error
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: issueSession(request, reply, result.tokens)
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /auth/sessions - List the current user's active sessions
+  fastify.get('/auth/sessions', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'List active sessions',
+      description: 'List the devices the current user is signed in on',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const sessions = await prisma.session.findMany({
+        where: {
+          userId: request.user.id,
+          revokedAt: null,
+          expiresAt: { gt: new Date() }
+        },
+        select: {
+          id: true,
+          userAgent: true,
+          ipAddress: true,
+          createdAt: true,
+          lastUsedAt: true,
+          expiresAt: true
+        },
+        orderBy: { lastUsedAt: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: sessions.map(session => ({
+          ...session,
+          current: session.id === request.sessionId
+        }))
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // GET /auth/verify - Confirm an email address
+  fastify.get('/auth/verify', {
+    config: { policy: { access: 'public' } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Verify email',
+      description: 'Confirm the email address with the token from the verification email',
+      querystring: {
+        type: 'object',
+        properties: {
+          token: { type: 'string', minLength: 1 }
+        },
+        required: ['token']
+      },
+      response: {
+        200: messageResponse,
+        400: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const query = VerifyEmailSchema.parse(request.query);
+
+      const verified = await confirmEmail(query.token);
+
+      if (!verified) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid or expired verification link'
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Email verified successfully'
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
       return reply.code(500).send({
         success: false,
         error: 'Internal server error'
@@ -374,38 +638,528 @@ async function authRoutes(fastify: any) {
     }
   });
 
-  // POST /auth/logout - Logout user (placeholder for token blacklisting)
+  // POST /auth/resend-verification - Send a new verification email
+  fastify.post('/auth/resend-verification', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Resend verification email',
+      description: 'Send a new verification link to the current user. Limited to one email per minute and five per day',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: messageResponse,
+        400: errorResponse,
+        429: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { id: true, email: true, name: true, isVerified: true }
+      });
+
+      if (user.isVerified) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Email is already verified'
+        });
+      }
+
+      const retryAfter = await verificationRetryAfter(user.id);
+
+      if (retryAfter > 0) {
+        return reply.code(429).header('Retry-After', String(retryAfter)).send({
+          success: false,
+          error: `Please wait ${retryAfter} seconds before requesting another email`
+        });
+      }
+
+      await sendVerificationEmail(user);
+
+      return reply.send({
+        success: true,
+        message: 'Verification email sent'
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/forgot-password - Email a password reset link
+  fastify.post('/auth/forgot-password', {
+    config: { policy: { access: 'public' } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Request password reset',
+      description: 'Email a single-use password reset link. Always responds with the same message so it cannot be used to discover registered emails',
+      body: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' }
+        },
+        required: ['email']
+      },
+      response: {
+        200: messageResponse,
+        400: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = ForgotPasswordSchema.parse(request.body);
+
+      const user = await prisma.user.findUnique({
+        where: { email: body.email },
+        select: { id: true, email: true, name: true }
+      });
+
+      if (user) {
+        // Only the most recent link stays valid
+        await prisma.passwordResetToken.updateMany({
+          where: { userId: user.id, usedAt: null },
+          data: { usedAt: new Date() }
+        });
+
+        const token = generateToken();
+        await prisma.passwordResetToken.create({
+          data: {
+            userId: user.id,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000)
+          }
+        });
+
+        await sendMail(passwordResetEmail(user, token, PASSWORD_RESET_TTL_MINUTES));
+      }
+
+      return reply.send({
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent'
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/reset-password - Set a new password using a reset token
+  fastify.post('/auth/reset-password', {
+    config: { policy: { access: 'public' } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Reset password',
+      description: 'Set a new password with a token from the reset email. The token is single-use and every existing session is signed out',
+      body: {
+        type: 'object',
+        properties: {
+          token: { type: 'string', minLength: 1 },
+          password: { type: 'string', minLength: 8 }
+        },
+        required: ['token', 'password']
+      },
+      response: {
+        200: messageResponse,
+        400: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = ResetPasswordSchema.parse(request.body);
+
+      const resetToken = await prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(body.token) }
+      });
+
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid or expired reset token'
+        });
+      }
+
+      // Claim the token first so a concurrent request cannot use it too
+      const { count } = await prisma.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+
+      if (count === 0) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid or expired reset token'
+        });
+      }
+
+      const passwordHash = await bcrypt.hash(body.password, 12);
+
+      await prisma.user.update({
+        where: { id: resetToken.userId },
+        data: { passwordHash }
+      });
+
+      await revokeUserSessions(resetToken.userId, 'password_reset');
+
+      return reply.send({
+        success: true,
+        message: 'Password has been reset. Please sign in with your new password'
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/change-password - Change the current user's password
+  fastify.post('/auth/change-password', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Change password',
+      description: 'Change the password of the signed-in user. Every other session is signed out',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          currentPassword: { type: 'string', minLength: 1 },
+          newPassword: { type: 'string', minLength: 8 }
+        },
+        required: ['currentPassword', 'newPassword']
+      },
+      response: {
+        200: messageResponse,
+        400: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = ChangePasswordSchema.parse(request.body);
+
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { id: true, email: true, name: true, passwordHash: true }
+      });
+
+      const isPasswordValid = user && await bcrypt.compare(body.currentPassword, user.passwordHash);
+
+      if (!isPasswordValid) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Current password is incorrect'
+        });
+      }
+
+      const passwordHash = await bcrypt.hash(body.newPassword, 12);
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { passwordHash }
+      });
+
+      // Keep this device signed in, sign out everywhere else
+      await revokeUserSessions(user.id, 'password_change', request.sessionId);
+
+      await sendMail(passwordChangedEmail(user));
+
+      return reply.send({
+        success: true,
+        message: 'Password changed successfully'
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/logout - Logout user by revoking the current session
   fastify.post('/auth/logout', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true, allowDuringImpersonation: true } },
     schema: {
       tags: ['authentication'],
       summary: 'Logout user',
-      description: 'Logout current user (placeholder for token invalidation)',
-      headers: {
+      description: 'Revoke the current session. Its access and refresh tokens stop working immediately',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      await revokeSession(request.sessionId, 'logout');
+      clearSessionCookies(reply);
+
+      return reply.send({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/logout-all - Logout user from every device
+  fastify.post('/auth/logout-all', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Logout from all devices',
+      description: 'Revoke every session of the current user, including this one',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                revokedSessions: { type: 'number' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const revokedSessions = await revokeUserSessions(request.user.id, 'logout_all');
+      clearSessionCookies(reply);
+
+      return reply.send({
+        success: true,
+        message: 'Logged out from all devices',
+        data: { revokedSessions }
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+  // POST /auth/impersonate/:userId - View the app as another user
+  fastify.post('/auth/impersonate/:userId', {
+    config: {
+      policy: { access: 'authenticated', permissions: ['user:impersonate'] },
+      audit: { entity: 'user', action: 'impersonate', key: 'userId' }
+    },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Impersonate user',
+      description: `Start a read-only session as another user to see what they see. The session lasts ${IMPERSONATION_TTL_MINUTES} minutes and cannot be extended; its token carries both identities, mutating requests are refused and every request is recorded in the audit log against the admin. Administrator accounts cannot be impersonated. End it with DELETE /auth/impersonate`,
+      security: [{ bearerAuth: [] }],
+      params: {
         type: 'object',
         properties: {
-          authorization: { type: 'string', description: 'Bearer token' }
-        }
+          userId: { type: 'string', format: 'uuid' }
+        },
+        required: ['userId']
       },
       response: {
         200: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            message: { type: 'string' }
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                user: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    email: { type: 'string' },
+                    name: { type: 'string' },
+                    role: { type: 'string' }
+                  }
+                },
+                expiresAt: { type: 'string', description: 'When the impersonation session ends' },
+                ...tokenResponseProperties
+              }
+            }
           }
+        },
+        400: errorResponse,
+        403: errorResponse,
+        404: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const { userId } = request.params as { userId: string };
+
+      if (userId === request.user.id) {
+        return reply.code(400).send({
+          success: false,
+          error: 'You cannot impersonate yourself'
+        });
+      }
+
+      const target = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          roleDefinition: { select: { permissions: true } }
+        }
+      });
+
+      if (!target) {
+        return reply.code(404).send({
+          success: false,
+          error: 'User not found'
+        });
+      }
+
+      const { roleDefinition, ...user } = target;
+      const permissions = roleDefinition.permissions.filter(isPermission);
+
+      if (permissions.some(permission => NON_IMPERSONABLE_PERMISSIONS.includes(permission))) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Administrator accounts cannot be impersonated'
+        });
+      }
+
+      const session = await createImpersonationSession(user, { id: request.user.id, sessionId: request.sessionId }, request);
+
+      return reply.send({
+        success: true,
+        message: `Viewing as ${user.name}`,
+        data: {
+          user,
+          expiresAt: session.sessionExpiresAt,
+          ...issueSession(request, reply, session)
         }
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /auth/impersonate - Stop viewing as another user
+  fastify.delete('/auth/impersonate', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true, allowDuringImpersonation: true } },
+    schema: {
+      tags: ['authentication'],
+      summary: 'Stop impersonating',
+      description: 'End the current impersonation session. Cookie sessions are switched back to the admin\'s own session; Bearer clients go back to the token they held before',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                expiresIn: { type: 'number', description: 'Lifetime of the restored access token in seconds' }
+              }
+            }
+          }
+        },
+        400: errorResponse
       }
     }
   }, async (request: any, reply: any) => {
-    // In a production app, you would want to:
-    // 1. Add the token to a blacklist
-    // 2. Store blacklisted tokens in Redis or database
-    // 3. Check blacklist in authentication middleware
-    
-    return reply.send({
-      success: true,
-      message: 'Logged out successfully'
-    });
+    try {
+      const impersonator = request.impersonator;
+
+      if (!impersonator) {
+        return reply.code(400).send({
+          success: false,
+          error: 'You are not viewing as another user'
+        });
+      }
+
+      await revokeSession(request.sessionId, 'impersonation_ended');
+
+      // The browser's cookies were replaced when impersonation started, so hand the admin's session back
+      if (wantsCookieSession(request)) {
+        const resumed = impersonator.sessionId ? await resumeSession(impersonator.sessionId) : null;
+
+        if (!resumed) {
+          clearSessionCookies(reply);
+          return reply.send({
+            success: true,
+            message: 'Impersonation ended. Your own session has expired, please sign in again'
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'Impersonation ended',
+          data: issueSession(request, reply, resumed)
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Impersonation ended'
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
   });
 }
 
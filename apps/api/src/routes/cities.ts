@@ -141,6 +141,7 @@ async function cityRoutes(fastify: any) {
 
   // POST /cities - Create a new city
   fastify.post('/cities', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:create'], apiKeyScope: 'catalog:write' }, audit: { entity: 'city' } },
     schema: {
       tags: ['cities'],
       summary: 'Create new city',
@@ -188,6 +189,7 @@ async function cityRoutes(fastify: any) {
 
   // PUT /cities/:id - Update a city
   fastify.put('/cities/:id', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:manage'] }, audit: { entity: 'city' } },
     schema: {
       tags: ['cities'],
       summary: 'Update city',
@@ -252,6 +254,7 @@ async function cityRoutes(fastify: any) {
 
   // DELETE /cities/:id - Delete a city
   fastify.delete('/cities/:id', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:manage'] }, audit: { entity: 'city' } },
     schema: {
       tags: ['cities'],
       summary: 'Delete city',
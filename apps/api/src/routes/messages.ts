@@ -1,6 +1,6 @@
 import fastifyPlugin from 'fastify-plugin';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken } from '../lib/auth';
+import { cursorQuery, encodeCursor, isUuid, toCursorPage } from '../lib/cursors';
 
 const prisma = new PrismaClient();
 
@@ -8,7 +8,7 @@ async function messageRoutes(fastify: any) {
   //#region GET Routes
   // GET /conversations - Get all conversations for the current user
   fastify.get('/conversations', {
-    preHandler: authenticateToken,
+    config: { policy: { access: 'authenticated' } },
     schema: {
       tags: ['messages'],
       summary: 'Get user conversations',
@@ -18,7 +18,10 @@ async function messageRoutes(fastify: any) {
         type: 'object',
         properties: {
           page: { type: 'number', minimum: 1, default: 1 },
-          limit: { type: 'number', minimum: 1, maximum: 50, default: 20 }
+          limit: { type: 'number', minimum: 1, maximum: 50, default: 20 },
+          after: { type: 'string', description: 'Cursor from meta.nextCursor; takes precedence over page' },
+          before: { type: 'string', description: 'Cursor from meta.prevCursor' },
+          includeTotal: { type: 'boolean', description: 'Include total counts (default: true for page requests, false for cursor requests)' }
         }
       },
       response: {
@@ -32,6 +35,9 @@ async function messageRoutes(fastify: any) {
               properties: {
                 page: { type: 'number' },
                 limit: { type: 'number' },
+                nextCursor: { type: ['string', 'null'] },
+                prevCursor: { type: ['string', 'null'] },
+                hasMore: { type: 'boolean' },
                 total: { type: 'number' },
                 totalPages: { type: 'number' }
               }
@@ -42,7 +48,16 @@ async function messageRoutes(fastify: any) {
     }
   }, async (request: any, reply: any) => {
     try {
-      const { page = 1, limit = 20 } = request.query;
+      const { page = 1, limit = 20, after, before } = request.query;
+      const includeTotal = request.query.includeTotal ?? !(after || before);
+
+      // The two cursors read in opposite directions
+      if (after && before) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Use either after or before, not both'
+        });
+      }
       const currentUser = request.user;
 
       if (!currentUser?.id) {
@@ -60,7 +75,7 @@ async function messageRoutes(fastify: any) {
         ]
       };
 
-      const [conversations, total] = await Promise.all([
+      const [rows, total] = await Promise.all([
         prisma.conversation.findMany({
           where,
           include: {
@@ -117,17 +132,13 @@ async function messageRoutes(fastify: any) {
               }
             }
           },
-          orderBy: { createdAt: 'desc' },
-          skip: (page - 1) * limit,
-          take: limit
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          ...cursorQuery('conversations', { page, limit, after, before })
         }),
-        prisma.conversation.count({ where })
+        includeTotal ? prisma.conversation.count({ where }) : undefined
       ]);
 
-      const totalPages = Math.ceil(total / limit);
-
-      console.log(`Total Conversations ${total}`);
-      console.log(`Total Pages ${totalPages}`);
+      const { items: conversations, nextCursor, prevCursor } = toCursorPage('conversations', rows, { page, limit, after, before });
 
 
       // TODO: Create mappers and DTOs
@@ -179,19 +190,32 @@ async function messageRoutes(fastify: any) {
         success: true,
         data: formattedConversations,
         meta: {
-          page,
+          page: after || before ? undefined : page,
           limit,
-          total,
-          totalPages
+          nextCursor,
+          prevCursor,
+          hasMore: nextCursor !== null,
+          ...(includeTotal && {
+            total,
+            totalPages: Math.ceil(total / limit)
+          })
         }
       };
 
       console.log(`Response Data: `, responseData);
 
       return reply.send(responseData);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error in conversations endpoint:', error);
       fastify.log.error(error);
+
+      if (error.name === 'InvalidCursorError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.message
+        });
+      }
+
       return reply.code(500).send({
         success: false,
         error: 'Internal server error'
@@ -201,7 +225,7 @@ async function messageRoutes(fastify: any) {
 
   // GET /conversations/:id/messages - Get messages in a conversation
   fastify.get('/conversations/:id/messages', {
-    preHandler: authenticateToken,
+    config: { policy: { access: 'authenticated' } },
     schema: {
       tags: ['messages'],
       summary: 'Get conversation messages',
@@ -218,14 +242,25 @@ async function messageRoutes(fastify: any) {
         properties: {
           page: { type: 'number', minimum: 1, default: 1 },
           limit: { type: 'number', minimum: 1, maximum: 100, default: 50 },
-          before: { type: 'string', format: 'uuid', description: 'Get messages before this message ID' }
+          before: { type: 'string', description: 'Cursor from meta.nextCursor, or a message ID; loads older messages' },
+          after: { type: 'string', description: 'Cursor from meta.prevCursor; loads newer messages' },
+          includeTotal: { type: 'boolean', description: 'Include total counts (default: true for page requests, false for cursor requests)' }
         }
       }
     }
   }, async (request: any, reply: any) => {
     try {
       const { id } = request.params;
-      const { page = 1, limit = 50, before } = request.query;
+      const { page = 1, limit = 50, after, before } = request.query;
+      const includeTotal = request.query.includeTotal ?? !(after || before);
+
+      // The two cursors read in opposite directions
+      if (after && before) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Use either after or before, not both'
+        });
+      }
       const currentUser = request.user;
 
       // Verify user has access to this conversation
@@ -262,24 +297,20 @@ async function messageRoutes(fastify: any) {
         });
       }
 
-      // Build where clause for messages
-      const where: any = { conversationId: id };
-      
-      if (before) {
-        // Get the createdAt of the 'before' message
-        const beforeMessage = await prisma.message.findUnique({
-          where: { id: before },
-          select: { createdAt: true }
-        });
-        
-        if (beforeMessage) {
-          where.createdAt = { lt: beforeMessage.createdAt };
-        }
-      }
+      // Pages run newest first, so `before` (older messages, as it always meant) reads the next page
+      // and `after` the previous one. Cursors are only valid within this conversation; `before` still
+      // takes a plain message ID too.
+      const cursorScope = `messages:${id}`;
+      const pageParams = {
+        page,
+        limit,
+        after: before && isUuid(before) ? encodeCursor(cursorScope, before) : before,
+        before: after
+      };
 
-      const [messages, total] = await Promise.all([
+      const [rows, total] = await Promise.all([
         prisma.message.findMany({
-          where,
+          where: { conversationId: id },
           include: {
             sender: {
               select: {
@@ -290,13 +321,14 @@ async function messageRoutes(fastify: any) {
               }
             }
           },
-          orderBy: { createdAt: 'desc' },
-          skip: before ? 0 : (page - 1) * limit,
-          take: limit
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          ...cursorQuery(cursorScope, pageParams)
         }),
-        prisma.message.count({ where: { conversationId: id } })
+        includeTotal ? prisma.message.count({ where: { conversationId: id } }) : undefined
       ]);
 
+      const { items: messages, nextCursor, prevCursor } = toCursorPage(cursorScope, rows, pageParams);
+
       // Mark messages as read if they were sent to the current user
       const unreadMessageIds = messages
         .filter(msg => msg.senderId !== currentUser.id && !msg.isRead)
@@ -320,8 +352,6 @@ async function messageRoutes(fastify: any) {
         });
       }
 
-      const totalPages = Math.ceil(total / limit);
-
       return reply.send({
         success: true,
         data: {
@@ -332,16 +362,28 @@ async function messageRoutes(fastify: any) {
           },
           messages: [...messages].reverse(), // Reverse to show oldest first
           meta: {
-            page,
+            page: after || before ? undefined : page,
             limit,
-            total,
-            totalPages,
-            hasMore: before ? messages.length === limit : total > page * limit
+            nextCursor,
+            prevCursor,
+            hasMore: nextCursor !== null,
+            ...(includeTotal && {
+              total,
+              totalPages: Math.ceil(total / limit)
+            })
           }
         }
       });
-    } catch (error) {
+    } catch (error: any) {
       fastify.log.error(error);
+
+      if (error.name === 'InvalidCursorError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.message
+        });
+      }
+
       return reply.code(500).send({
         success: false,
         error: 'Internal server error'
@@ -351,7 +393,7 @@ async function messageRoutes(fastify: any) {
 
   // GET /conversations/:id/unread-count - Get unread message count for conversation
   fastify.get('/conversations/:id/unread-count', {
-    preHandler: authenticateToken,
+    config: { policy: { access: 'authenticated' } },
     schema: {
       tags: ['messages'],
       summary: 'Get unread message count',
@@ -435,7 +477,7 @@ async function messageRoutes(fastify: any) {
   //#region POST Routes
   // POST /conversations - Create or get existing conversation
   fastify.post('/conversations', {
-    preHandler: authenticateToken,
+    config: { policy: { access: 'authenticated', verified: true } },
     schema: {
       tags: ['messages'],
       summary: 'Start conversation',
@@ -602,7 +644,7 @@ async function messageRoutes(fastify: any) {
 
   // POST /conversations/:id/messages - Send a message in existing conversation
   fastify.post('/conversations/:id/messages', {
-    preHandler: authenticateToken,
+    config: { policy: { access: 'authenticated' } },
     schema: {
       tags: ['messages'],
       summary: 'Send message',
@@ -688,7 +730,7 @@ async function messageRoutes(fastify: any) {
 
   // PUT /messages/:id/read - Mark message as read
   fastify.put('/messages/:id/read', {
-    preHandler: authenticateToken,
+    config: { policy: { access: 'authenticated' } },
     schema: {
       tags: ['messages'],
       summary: 'Mark message as read',
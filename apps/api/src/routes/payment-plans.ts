@@ -0,0 +1,451 @@
+import fastifyPlugin from 'fastify-plugin';
+import { PrismaClient } from '@prisma/client';
+import {
+  CreatePaymentPlanSchema,
+  CreateProjectPaymentPlanSchema,
+  UpdatePaymentPlanSchema,
+  ProjectPaymentPlanParamsSchema,
+  UuidParamsSchema
+} from '../types';
+import { INSTALLMENT_FREQUENCIES, MAX_PLAN_YEARS } from '../lib/payment-plans';
+
+const prisma = new PrismaClient();
+
+const paymentPlanTermsProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  downPaymentPercent: { type: 'number', minimum: 0, maximum: 100, description: 'Share of the price paid up front' },
+  years: { type: 'integer', minimum: 1, maximum: MAX_PLAN_YEARS, description: 'Years the rest of the price is spread over' },
+  installmentFrequency: { type: 'string', enum: [...INSTALLMENT_FREQUENCIES] },
+  maintenanceFeePercent: { type: 'number', minimum: 0, maximum: 100, description: 'Share of the price due on delivery' }
+};
+
+const updatePaymentPlanBody = {
+  type: 'object',
+  properties: {
+    ...paymentPlanTermsProperties,
+    deliveryDate: { type: ['string', 'null'], format: 'date' }
+  }
+};
+
+// A unit's plans are managed like the listing, by its lister or a moderator (the `paymentPlan`
+// owner lookup only resolves unit plans). A project's plans are managed like the project itself,
+// by catalog managers from a session, under /projects/:id/payment-plans.
+async function paymentPlanRoutes(fastify: any) {
+  // GET /projects/:id/payment-plans - Plans a developer offers for every unit of a project
+  fastify.get('/projects/:id/payment-plans', {
+    schema: {
+      tags: ['payment-plans'],
+      summary: 'Get project payment plans',
+      description: 'Installment plans offered for every unit of a project, lowest down payment first. Plans of a single unit, together with its project\'s, are listed by GET /apartments/{id}/payment-plans.',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const params = UuidParamsSchema.parse(request.params);
+
+      const plans = await prisma.paymentPlan.findMany({
+        where: { projectId: params.id },
+        orderBy: [{ downPaymentPercent: 'asc' }, { years: 'desc' }, { createdAt: 'asc' }]
+      });
+
+      return reply.send({
+        success: true,
+        data: plans
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /projects/:id/payment-plans - Add a payment plan for every unit of a project
+  fastify.post('/projects/:id/payment-plans', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:manage'] }, audit: { entity: 'paymentPlan', key: 'planId' } },
+    schema: {
+      tags: ['payment-plans'],
+      summary: 'Create project payment plan',
+      description: 'Add an installment plan offered for every unit of a project',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          ...paymentPlanTermsProperties,
+          deliveryDate: { type: 'string', format: 'date' }
+        },
+        required: ['name', 'downPaymentPercent', 'years', 'installmentFrequency']
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const params = UuidParamsSchema.parse(request.params);
+      const body = CreateProjectPaymentPlanSchema.parse(request.body);
+
+      const project = await prisma.project.findUnique({
+        where: { id: params.id },
+        select: { id: true }
+      });
+
+      if (!project) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const plan = await prisma.paymentPlan.create({
+        data: {
+          projectId: project.id,
+          name: body.name,
+          downPaymentPercent: body.downPaymentPercent,
+          years: body.years,
+          installmentFrequency: body.installmentFrequency,
+          maintenanceFeePercent: body.maintenanceFeePercent,
+          deliveryDate: body.deliveryDate
+        }
+      });
+
+      return reply.code(201).send({
+        success: true,
+        data: plan
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // PUT /projects/:id/payment-plans/:planId - Update the terms of a project payment plan
+  fastify.put('/projects/:id/payment-plans/:planId', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:manage'] }, audit: { entity: 'paymentPlan', key: 'planId' } },
+    schema: {
+      tags: ['payment-plans'],
+      summary: 'Update project payment plan',
+      description: 'Update the terms of a project payment plan',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          planId: { type: 'string', format: 'uuid' }
+        },
+        required: ['id', 'planId']
+      },
+      body: updatePaymentPlanBody
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const params = ProjectPaymentPlanParamsSchema.parse(request.params);
+      const body = UpdatePaymentPlanSchema.parse(request.body);
+
+      const existingPlan = await prisma.paymentPlan.findFirst({
+        where: { id: params.planId, projectId: params.id },
+        select: { id: true }
+      });
+
+      if (!existingPlan) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Payment plan not found'
+        });
+      }
+
+      const plan = await prisma.paymentPlan.update({
+        where: { id: existingPlan.id },
+        data: body
+      });
+
+      return reply.send({
+        success: true,
+        data: plan
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /projects/:id/payment-plans/:planId - Delete a project payment plan
+  fastify.delete('/projects/:id/payment-plans/:planId', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:manage'] }, audit: { entity: 'paymentPlan', key: 'planId' } },
+    schema: {
+      tags: ['payment-plans'],
+      summary: 'Delete project payment plan',
+      description: 'Delete a project payment plan',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          planId: { type: 'string', format: 'uuid' }
+        },
+        required: ['id', 'planId']
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const params = ProjectPaymentPlanParamsSchema.parse(request.params);
+
+      const existingPlan = await prisma.paymentPlan.findFirst({
+        where: { id: params.planId, projectId: params.id },
+        select: { id: true }
+      });
+
+      if (!existingPlan) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Payment plan not found'
+        });
+      }
+
+      await prisma.paymentPlan.delete({
+        where: { id: existingPlan.id }
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Payment plan deleted successfully'
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /payment-plans - Add a payment plan to a single unit
+  fastify.post('/payment-plans', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'apartment', from: 'body', key: 'apartmentId' }, apiKeyScope: 'listings:write' }, audit: { entity: 'paymentPlan' } },
+    schema: {
+      tags: ['payment-plans'],
+      summary: 'Create unit payment plan',
+      description: 'Add an installment plan for one unit (its lister or a moderator). Plans for every unit of a project are added with POST /projects/{id}/payment-plans.',
+      body: {
+        type: 'object',
+        properties: {
+          apartmentId: { type: 'string', format: 'uuid' },
+          ...paymentPlanTermsProperties,
+          deliveryDate: { type: 'string', format: 'date' }
+        },
+        required: ['apartmentId', 'name', 'downPaymentPercent', 'years', 'installmentFrequency']
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = CreatePaymentPlanSchema.parse(request.body);
+
+      const apartment = await prisma.apartment.findUnique({
+        where: { id: body.apartmentId },
+        select: { id: true }
+      });
+
+      if (!apartment) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Apartment not found'
+        });
+      }
+
+      const plan = await prisma.paymentPlan.create({
+        data: {
+          apartmentId: apartment.id,
+          name: body.name,
+          downPaymentPercent: body.downPaymentPercent,
+          years: body.years,
+          installmentFrequency: body.installmentFrequency,
+          maintenanceFeePercent: body.maintenanceFeePercent,
+          deliveryDate: body.deliveryDate
+        }
+      });
+
+      return reply.code(201).send({
+        success: true,
+        data: plan
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // PUT /payment-plans/:id - Update the terms of a unit payment plan
+  fastify.put('/payment-plans/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'paymentPlan' }, apiKeyScope: 'listings:write' }, audit: { entity: 'paymentPlan' } },
+    schema: {
+      tags: ['payment-plans'],
+      summary: 'Update unit payment plan',
+      description: 'Update the terms of a unit payment plan. The unit it belongs to cannot be changed.',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      body: updatePaymentPlanBody
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const params = UuidParamsSchema.parse(request.params);
+      const body = UpdatePaymentPlanSchema.parse(request.body);
+
+      // Moderators bypass the owner lookup, so the plan may still be missing or a project's
+      const existingPlan = await prisma.paymentPlan.findFirst({
+        where: { id: params.id, apartmentId: { not: null } },
+        select: { id: true }
+      });
+
+      if (!existingPlan) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Payment plan not found'
+        });
+      }
+
+      const plan = await prisma.paymentPlan.update({
+        where: { id: existingPlan.id },
+        data: body
+      });
+
+      return reply.send({
+        success: true,
+        data: plan
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /payment-plans/:id - Delete a unit payment plan
+  fastify.delete('/payment-plans/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'paymentPlan' }, apiKeyScope: 'listings:write' }, audit: { entity: 'paymentPlan' } },
+    schema: {
+      tags: ['payment-plans'],
+      summary: 'Delete unit payment plan',
+      description: 'Delete a unit payment plan',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const params = UuidParamsSchema.parse(request.params);
+
+      const existingPlan = await prisma.paymentPlan.findFirst({
+        where: { id: params.id, apartmentId: { not: null } },
+        select: { id: true }
+      });
+
+      if (!existingPlan) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Payment plan not found'
+        });
+      }
+
+      await prisma.paymentPlan.delete({
+        where: { id: existingPlan.id }
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Payment plan deleted successfully'
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default fastifyPlugin(paymentPlanRoutes);
@@ -158,7 +158,7 @@ async function projectRoutes(fastify: any) {
               createdAt: true
             },
             where: {
-              status: 'ACTIVE'
+              status: 'PUBLISHED'
             },
             orderBy: { unitName: 'asc' }
           }
@@ -187,6 +187,7 @@ async function projectRoutes(fastify: any) {
 
   // POST /projects - Create new project
   fastify.post('/projects', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:create'], apiKeyScope: 'catalog:write' }, audit: { entity: 'project' } },
     schema: {
       body: {
         type: 'object',
@@ -260,6 +261,7 @@ async function projectRoutes(fastify: any) {
 
   // PUT /projects/:id - Update project
   fastify.put('/projects/:id', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:manage'] }, audit: { entity: 'project' } },
     schema: {
       params: {
         type: 'object',
@@ -355,6 +357,7 @@ async function projectRoutes(fastify: any) {
 
   // DELETE /projects/:id - Delete project
   fastify.delete('/projects/:id', {
+    config: { policy: { access: 'authenticated', permissions: ['catalog:manage'] }, audit: { entity: 'project' } },
     schema: {
       params: {
         type: 'object',
@@ -178,26 +178,26 @@ async function reviewRoutes(fastify: any) {
 
   // POST /reviews - Create new review
   fastify.post('/reviews', {
+    config: { policy: { access: 'authenticated' }, audit: { entity: 'review' } },
     schema: {
       body: {
         type: 'object',
         properties: {
           apartmentId: { type: 'string', format: 'uuid' },
-          userId: { type: 'string', format: 'uuid' },
           rating: { type: 'number', minimum: 1, maximum: 5 },
           comment: { type: 'string' }
         },
-        required: ['apartmentId', 'userId', 'rating']
+        required: ['apartmentId', 'rating']
       }
     }
   }, async (request: any, reply: any) => {
     try {
       const body = request.body as {
         apartmentId: string;
-        userId: string;
         rating: number;
         comment?: string;
       };
+      const userId = request.user.id;
       
       // Verify apartment exists
       const apartment = await prisma.apartment.findUnique({
@@ -211,23 +211,11 @@ async function reviewRoutes(fastify: any) {
         });
       }
 
-      // Verify user exists
-      const user = await prisma.user.findUnique({
-        where: { id: body.userId }
-      });
-
-      if (!user) {
-        return reply.code(400).send({
-          success: false,
-          error: 'User not found'
-        });
-      }
-
       // Check if user already reviewed this apartment
       const existingReview = await prisma.review.findFirst({
         where: {
           apartmentId: body.apartmentId,
-          userId: body.userId
+          userId
         }
       });
 
@@ -239,7 +227,7 @@ async function reviewRoutes(fastify: any) {
       }
 
       // Check if user is trying to review their own apartment
-      if (apartment.listerId === body.userId) {
+      if (apartment.listerId === userId) {
         return reply.code(400).send({
           success: false,
           error: 'Users cannot review their own apartments'
@@ -247,7 +235,12 @@ async function reviewRoutes(fastify: any) {
       }
       
       const review = await prisma.review.create({
-        data: body,
+        data: {
+          apartmentId: body.apartmentId,
+          userId,
+          rating: body.rating,
+          comment: body.comment
+        },
         include: {
           apartment: {
             select: {
@@ -290,6 +283,7 @@ async function reviewRoutes(fastify: any) {
 
   // PUT /reviews/:id - Update review
   fastify.put('/reviews/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'review' } }, audit: { entity: 'review' } },
     schema: {
       params: {
         type: 'object',
@@ -371,6 +365,7 @@ async function reviewRoutes(fastify: any) {
 
   // DELETE /reviews/:id - Delete review
   fastify.delete('/reviews/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'review' } }, audit: { entity: 'review' } },
     schema: {
       params: {
         type: 'object',
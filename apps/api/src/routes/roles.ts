@@ -0,0 +1,331 @@
+import fastifyPlugin from 'fastify-plugin';
+import { PrismaClient } from '@prisma/client';
+import {
+  CreateRoleSchema,
+  UpdateRoleSchema,
+  UuidParamsSchema
+} from '../types';
+import { PERMISSIONS } from '../lib/permissions';
+import { DEFAULT_LISTING_DURATION_DAYS } from '../lib/listing-lifecycle';
+import { TWO_FACTOR_PERMISSION, TWO_FACTOR_REQUIRED_ROLES } from '../lib/two-factor';
+
+const prisma = new PrismaClient();
+
+const roleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  permissions: true,
+  listingDurationDays: true,
+  isSystem: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: {
+    select: { users: true }
+  }
+};
+
+const listingDurationProperty = {
+  type: ['integer', 'null'],
+  minimum: 1,
+  maximum: 365,
+  description: `Days a listing by this role's users stays published before it expires; null uses the default (${DEFAULT_LISTING_DURATION_DAYS})`
+};
+
+async function roleRoutes(fastify: any) {
+  // GET /permissions - List every permission a role can grant
+  fastify.get('/permissions', {
+    config: { policy: { access: 'authenticated', permissions: ['role:manage'] } },
+    schema: {
+      tags: ['roles'],
+      summary: 'Get all permissions',
+      description: 'List the permissions that can be granted to roles'
+    }
+  }, async (request, reply) => {
+    return reply.send({
+      success: true,
+      data: Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description }))
+    });
+  });
+
+  // GET /roles - List roles with their permissions
+  fastify.get('/roles', {
+    config: { policy: { access: 'authenticated', permissions: ['role:manage'] } },
+    schema: {
+      tags: ['roles'],
+      summary: 'Get all roles',
+      description: 'List roles with their permissions and number of users'
+    }
+  }, async (request, reply) => {
+    try {
+      const roles = await prisma.role.findMany({
+        select: roleSelect,
+        orderBy: { name: 'asc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: roles
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /roles - Create a role
+  fastify.post('/roles', {
+    config: { policy: { access: 'authenticated', permissions: ['role:manage'] } },
+    schema: {
+      tags: ['roles'],
+      summary: 'Create role',
+      description: 'Create a role that grants a set of permissions',
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Upper case, e.g. MODERATOR' },
+          description: { type: 'string' },
+          permissions: { type: 'array', items: { type: 'string' } },
+          listingDurationDays: listingDurationProperty
+        },
+        required: ['name']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const body = CreateRoleSchema.parse(request.body);
+
+      const existingRole = await prisma.role.findUnique({
+        where: { name: body.name }
+      });
+
+      if (existingRole) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Role with this name already exists'
+        });
+      }
+
+      const role = await prisma.role.create({
+        data: {
+          name: body.name,
+          description: body.description,
+          permissions: body.permissions,
+          listingDurationDays: body.listingDurationDays
+        },
+        select: roleSelect
+      });
+
+      return reply.code(201).send({
+        success: true,
+        data: role
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // PUT /roles/:id - Update a role
+  fastify.put('/roles/:id', {
+    config: { policy: { access: 'authenticated', permissions: ['role:manage'] } },
+    schema: {
+      tags: ['roles'],
+      summary: 'Update role',
+      description: 'Rename a role, change the permissions it grants or how long its users\' listings stay published; built-in roles cannot be renamed',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          permissions: { type: 'array', items: { type: 'string' } },
+          listingDurationDays: listingDurationProperty
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const params = UuidParamsSchema.parse(request.params);
+      const body = UpdateRoleSchema.parse(request.body);
+
+      const existingRole = await prisma.role.findUnique({
+        where: { id: params.id }
+      });
+
+      if (!existingRole) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Role not found'
+        });
+      }
+
+      // The application refers to built-in roles by name
+      if (existingRole.isSystem && body.name && body.name !== existingRole.name) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Built-in roles cannot be renamed'
+        });
+      }
+
+      // Keeps an administrator from locking themselves out
+      if (existingRole.name === request.user.role && body.permissions && !body.permissions.includes('role:manage')) {
+        return reply.code(400).send({
+          success: false,
+          error: 'You cannot remove role:manage from your own role'
+        });
+      }
+
+      // Roles that must use 2FA have to keep their name and the permission to enroll
+      if (TWO_FACTOR_REQUIRED_ROLES.includes(existingRole.name)) {
+        if (body.name && body.name !== existingRole.name) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Roles listed in TWO_FACTOR_REQUIRED_ROLES cannot be renamed'
+          });
+        }
+
+        if (body.permissions && !body.permissions.includes(TWO_FACTOR_PERMISSION)) {
+          return reply.code(400).send({
+            success: false,
+            error: `Roles that require two-factor authentication must keep ${TWO_FACTOR_PERMISSION}`
+          });
+        }
+      }
+
+      if (body.name && body.name !== existingRole.name) {
+        const nameTaken = await prisma.role.findUnique({
+          where: { name: body.name }
+        });
+
+        if (nameTaken) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Role with this name already exists'
+          });
+        }
+      }
+
+      // Users reference roles by name, so a rename cascades to them
+      const role = await prisma.role.update({
+        where: { id: params.id },
+        data: body,
+        select: roleSelect
+      });
+
+      return reply.send({
+        success: true,
+        data: role
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /roles/:id - Delete a role
+  fastify.delete('/roles/:id', {
+    config: { policy: { access: 'authenticated', permissions: ['role:manage'] } },
+    schema: {
+      tags: ['roles'],
+      summary: 'Delete role',
+      description: 'Delete a custom role that no user holds',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const params = UuidParamsSchema.parse(request.params);
+
+      const existingRole = await prisma.role.findUnique({
+        where: { id: params.id },
+        include: {
+          _count: {
+            select: { users: true }
+          }
+        }
+      });
+
+      if (!existingRole) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Role not found'
+        });
+      }
+
+      if (existingRole.isSystem) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Built-in roles cannot be deleted'
+        });
+      }
+
+      if (TWO_FACTOR_REQUIRED_ROLES.includes(existingRole.name)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Roles listed in TWO_FACTOR_REQUIRED_ROLES cannot be deleted'
+        });
+      }
+
+      if (existingRole._count.users > 0) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Cannot delete role assigned to users'
+        });
+      }
+
+      await prisma.role.delete({
+        where: { id: params.id }
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Role deleted successfully'
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default fastifyPlugin(roleRoutes);
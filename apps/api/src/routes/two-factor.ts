@@ -0,0 +1,551 @@
+import fastifyPlugin from 'fastify-plugin';
+import { PrismaClient } from '@prisma/client';
+import * as bcrypt from 'bcryptjs';
+import * as QRCode from 'qrcode';
+import {
+  TwoFactorCodeSchema,
+  TwoFactorVerifySchema,
+  DisableTwoFactorSchema
+} from '../types/index';
+import { createSession } from '../lib/sessions';
+import { isClosedByAdmin } from '../lib/account-deletion';
+import { issueSession } from '../lib/cookies';
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from '../lib/totp';
+import { loginRetryAfter, recordFailedLogin, clearFailedLogins } from '../lib/login-attempts';
+import {
+  TWO_FACTOR_ISSUER,
+  TWO_FACTOR_PERMISSION,
+  canUseTwoFactor,
+  mustUseTwoFactor,
+  verifyChallengeToken,
+  consumeChallenge,
+  verifySecondFactor,
+  generateRecoveryCodes,
+  remainingRecoveryCodes
+} from '../lib/two-factor';
+
+const prisma = new PrismaClient();
+
+const errorResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' }
+  }
+};
+
+const recoveryCodesResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    data: {
+      type: 'object',
+      properties: {
+        recoveryCodes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Single-use recovery codes, shown only once'
+        }
+      }
+    }
+  }
+};
+
+const secondFactorProperties = {
+  code: { type: 'string', description: '6-digit code from the authenticator app' },
+  recoveryCode: { type: 'string', description: 'One of the recovery codes issued at enrollment' }
+};
+
+async function twoFactorRoutes(fastify: any) {
+  // GET /auth/2fa - Two-factor status of the current user
+  fastify.get('/auth/2fa', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true } },
+    schema: {
+      tags: ['two-factor'],
+      summary: 'Get two-factor status',
+      description: 'Whether 2FA is enabled or required for the current user, and how many recovery codes are left',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                enabled: { type: 'boolean' },
+                required: { type: 'boolean' },
+                available: { type: 'boolean', description: 'Whether the user role can enroll' },
+                recoveryCodesRemaining: { type: 'number' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const { twoFactorEnabled } = request.user;
+
+      return reply.send({
+        success: true,
+        data: {
+          enabled: twoFactorEnabled,
+          required: mustUseTwoFactor(request.user),
+          available: canUseTwoFactor(request.user),
+          recoveryCodesRemaining: twoFactorEnabled ? await remainingRecoveryCodes(request.user.id) : 0
+        }
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/2fa/setup - Start TOTP enrollment
+  fastify.post('/auth/2fa/setup', {
+    config: { policy: { access: 'authenticated', permissions: [TWO_FACTOR_PERMISSION], allowWithoutTwoFactor: true } },
+    schema: {
+      tags: ['two-factor'],
+      summary: 'Start two-factor enrollment',
+      description: 'Generate a new TOTP secret. Scan the QR code (or enter the secret) in an authenticator app, then confirm with POST /auth/2fa/enable',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                secret: { type: 'string' },
+                otpauthUrl: { type: 'string', description: 'otpauth:// provisioning URI' },
+                qrCode: { type: 'string', description: 'Provisioning URI as a PNG data URL' }
+              }
+            }
+          }
+        },
+        400: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      if (request.user.twoFactorEnabled) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Two-factor authentication is already enabled'
+        });
+      }
+
+      // The secret stays pending until a code generated from it is confirmed
+      const secret = generateTotpSecret();
+      await prisma.user.update({
+        where: { id: request.user.id },
+        data: { twoFactorSecret: secret, twoFactorLastStep: null }
+      });
+
+      const otpauthUrl = totpProvisioningUri(secret, request.user.email, TWO_FACTOR_ISSUER);
+      const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+      return reply.send({
+        success: true,
+        data: { secret, otpauthUrl, qrCode }
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/2fa/enable - Confirm enrollment with a first code
+  fastify.post('/auth/2fa/enable', {
+    config: { policy: { access: 'authenticated', permissions: [TWO_FACTOR_PERMISSION], allowWithoutTwoFactor: true } },
+    schema: {
+      tags: ['two-factor'],
+      summary: 'Enable two-factor authentication',
+      description: 'Confirm the secret from /auth/2fa/setup with a code from the authenticator app. Returns recovery codes',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          code: { type: 'string' }
+        },
+        required: ['code']
+      },
+      response: {
+        200: recoveryCodesResponse,
+        400: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = TwoFactorCodeSchema.parse(request.body);
+
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { twoFactorEnabled: true, twoFactorSecret: true }
+      });
+
+      if (user.twoFactorEnabled) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Two-factor authentication is already enabled'
+        });
+      }
+
+      const step = user.twoFactorSecret ? verifyTotp(user.twoFactorSecret, body.code) : null;
+
+      if (step === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid verification code'
+        });
+      }
+
+      await prisma.user.update({
+        where: { id: request.user.id },
+        data: { twoFactorEnabled: true, twoFactorLastStep: step }
+      });
+
+      const recoveryCodes = await generateRecoveryCodes(request.user.id);
+
+      return reply.send({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: { recoveryCodes }
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/2fa/disable - Turn off two-factor authentication
+  fastify.post('/auth/2fa/disable', {
+    config: { policy: { access: 'authenticated' } },
+    schema: {
+      tags: ['two-factor'],
+      summary: 'Disable two-factor authentication',
+      description: 'Requires the account password and a current code (or recovery code). Not allowed for roles that require 2FA',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          password: { type: 'string', minLength: 1 },
+          ...secondFactorProperties
+        },
+        required: ['password']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        400: errorResponse,
+        403: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = DisableTwoFactorSchema.parse(request.body);
+
+      if (mustUseTwoFactor(request.user)) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Two-factor authentication is required for your role'
+        });
+      }
+
+      if (!request.user.twoFactorEnabled) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Two-factor authentication is not enabled'
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { passwordHash: true }
+      });
+
+      const isPasswordValid = await bcrypt.compare(body.password, user.passwordHash);
+      const isFactorValid = isPasswordValid && await verifySecondFactor(request.user.id, body);
+
+      if (!isFactorValid) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid password or verification code'
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: request.user.id },
+          data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastStep: null }
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: request.user.id } })
+      ]);
+
+      return reply.send({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/2fa/recovery-codes - Replace the recovery codes
+  fastify.post('/auth/2fa/recovery-codes', {
+    config: { policy: { access: 'authenticated' } },
+    schema: {
+      tags: ['two-factor'],
+      summary: 'Regenerate recovery codes',
+      description: 'Invalidate all existing recovery codes and issue a new set. Requires a current code',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          code: { type: 'string' }
+        },
+        required: ['code']
+      },
+      response: {
+        200: recoveryCodesResponse,
+        400: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = TwoFactorCodeSchema.parse(request.body);
+
+      if (!request.user.twoFactorEnabled) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Two-factor authentication is not enabled'
+        });
+      }
+
+      const isValid = await verifySecondFactor(request.user.id, { code: body.code });
+
+      if (!isValid) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid verification code'
+        });
+      }
+
+      const recoveryCodes = await generateRecoveryCodes(request.user.id);
+
+      return reply.send({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: { recoveryCodes }
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /auth/2fa/verify - Second login step
+  fastify.post('/auth/2fa/verify', {
+    config: { policy: { access: 'public' } },
+    schema: {
+      tags: ['two-factor'],
+      summary: 'Complete two-factor login',
+      description: 'Exchange the challenge token from /auth/login and a TOTP or recovery code for a session',
+      body: {
+        type: 'object',
+        properties: {
+          challengeToken: { type: 'string', minLength: 1 },
+          ...secondFactorProperties
+        },
+        required: ['challengeToken']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                user: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    email: { type: 'string' },
+                    name: { type: 'string' },
+                    role: { type: 'string' },
+                    phone: { type: 'string' },
+                    avatarUrl: { type: 'string' },
+                    isVerified: { type: 'boolean' },
+                    twoFactorEnabled: { type: 'boolean' },
+                    lastLogin: { type: 'string' }
+                  }
+                },
+                token: { type: 'string' },
+                refreshToken: { type: 'string' },
+                expiresIn: { type: 'number' }
+              }
+            }
+          }
+        },
+        401: errorResponse,
+        429: errorResponse
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = TwoFactorVerifySchema.parse(request.body);
+
+      const challenge = verifyChallengeToken(body.challengeToken);
+
+      if (!challenge) {
+        return reply.code(401).send({
+          success: false,
+          error: 'Login challenge expired, please sign in again'
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: challenge.userId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          phone: true,
+          avatarUrl: true,
+          isVerified: true,
+          twoFactorEnabled: true,
+          lastLogin: true,
+          deletionScheduledAt: true,
+          deletionRequestedById: true
+        }
+      });
+
+      if (!user?.twoFactorEnabled) {
+        return reply.code(401).send({
+          success: false,
+          error: 'Login challenge expired, please sign in again'
+        });
+      }
+
+      if (isClosedByAdmin(user)) {
+        return reply.code(403).send({
+          success: false,
+          error: 'This account has been closed'
+        });
+      }
+
+      // Wrong codes count towards the same lockout as wrong passwords
+      const lockedFor = await loginRetryAfter(user.email, request.ip);
+      const isValid = lockedFor === 0 && await verifySecondFactor(user.id, body);
+
+      if (!isValid) {
+        const retryAfter = lockedFor || await recordFailedLogin(user.email, request.ip, user.id);
+        if (retryAfter > 0) {
+          return reply.code(429).header('Retry-After', String(retryAfter)).send({
+            success: false,
+            error: `Too many failed login attempts. Try again in ${retryAfter} seconds`
+          });
+        }
+
+        return reply.code(401).send({
+          success: false,
+          error: 'Invalid verification code'
+        });
+      }
+
+      await clearFailedLogins(user.email);
+
+      // A challenge starts one session; a replayed token is refused even with a fresh code
+      if (!await consumeChallenge(challenge)) {
+        return reply.code(401).send({
+          success: false,
+          error: 'Login challenge expired, please sign in again'
+        });
+      }
+
+      const session = await createSession(user, request, challenge.rememberMe);
+
+      // Also cancels a pending account deletion, as a password login does
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lastLogin: new Date(), deletionScheduledAt: null, deletionRequestedById: null }
+      });
+
+      const { deletionScheduledAt, deletionRequestedById, ...userResponse } = user;
+
+      return reply.send({
+        success: true,
+        data: {
+          user: userResponse,
+          ...issueSession(request, reply, session)
+        }
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+}
+
+export default fastifyPlugin(twoFactorRoutes);
@@ -2,24 +2,38 @@ import fastifyPlugin from 'fastify-plugin';
 import { PrismaClient } from '@prisma/client';
 import * as bcrypt from 'bcryptjs';
 import {
+  AccountExportQuerySchema,
+  AssignRoleSchema,
   CreateUserSchema,
+  DeleteAccountSchema,
+  DeleteUserSchema,
   UpdateUserSchema,
   UserQuerySchema
 } from '../types/index';
+import { revokeUserSessions } from '../lib/sessions';
+import { clearSessionCookies } from '../lib/cookies';
+import { unlockAccount } from '../lib/login-attempts';
+import { hasPermission } from '../lib/auth';
+import { DEFAULT_ROLE } from '../lib/permissions';
+import { sendMail } from '../lib/mailer';
+import { accountDeletionEmail } from '../lib/emails';
+import { ACCOUNT_DELETION_GRACE_DAYS, scheduleAccountDeletion } from '../lib/account-deletion';
+import { buildAccountExport, zipAccountExport } from '../lib/account-export';
 
 const prisma = new PrismaClient();
 
 async function userRoutes(fastify: any) {
   // GET /users - Get all users with filtering and pagination
   fastify.get('/users', {
+    config: { policy: { access: 'authenticated', permissions: ['user:manage'] } },
     schema: {
       tags: ['users'],
       summary: 'Get all users',
-      description: 'Get all users with optional filtering and pagination',
+      description: 'Get all users with optional filtering and pagination (requires user:manage)',
       querystring: {
         type: 'object',
         properties: {
-          role: { type: 'string', enum: ['ADMIN', 'USER', 'AGENT'] },
+          role: { type: 'string', description: 'Role name' },
           isVerified: { type: 'boolean' },
           search: { type: 'string', description: 'Search by name or email' },
           page: { type: 'number', minimum: 1, default: 1 },
@@ -91,6 +105,149 @@ async function userRoutes(fastify: any) {
     }
   });
 
+  // GET /users/me/export - Download everything we hold about the current user
+  fastify.get('/users/me/export', {
+    config: { policy: { access: 'authenticated', allowWithoutTwoFactor: true } },
+    schema: {
+      tags: ['users'],
+      summary: 'Export my data',
+      description: 'Download the current user\'s profile, listings, conversations and messages, reviews, visits, watchlist, sessions and API keys as a JSON file, or as a ZIP archive with one JSON file per section',
+      querystring: {
+        type: 'object',
+        properties: {
+          format: { type: 'string', enum: ['json', 'zip'], default: 'json' }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const query = AccountExportQuerySchema.parse(request.query);
+
+      const bundle = await buildAccountExport(request.user.id);
+      const filename = `nawy-export-${bundle.exportedAt.slice(0, 10)}`;
+
+      if (query.format === 'zip') {
+        const archive = await zipAccountExport(bundle);
+        return reply
+          .header('Content-Type', 'application/zip')
+          .header('Content-Disposition', `attachment; filename="${filename}.zip"`)
+          .send(archive);
+      }
+
+      return reply
+        .header('Content-Disposition', `attachment; filename="${filename}.json"`)
+        .send(bundle);
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // DELETE /users/me - Close the current user's account
+  fastify.delete('/users/me', {
+    config: {
+      policy: { access: 'authenticated', allowWithoutTwoFactor: true },
+      audit: { entity: 'user', action: 'request_deletion', self: true }
+    },
+    schema: {
+      tags: ['users'],
+      summary: 'Delete my account',
+      description: `Close the current account. You are signed out everywhere, API keys are revoked and live listings are taken down. After ${ACCOUNT_DELETION_GRACE_DAYS} days your personal data is erased: your messages and reviews are shown as from a deleted user, without their text or comment, and the login lockouts and audit events that are kept lose your email, profile, IP addresses and user agents. Signing in before then cancels the deletion`,
+      body: {
+        type: 'object',
+        properties: {
+          password: { type: 'string', minLength: 1 }
+        },
+        required: ['password']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                deletionScheduledAt: { type: 'string', description: 'When the personal data will be erased' },
+                listings: { type: 'number', description: 'Listings taken down' }
+              }
+            }
+          }
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const body = DeleteAccountSchema.parse(request.body);
+
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { id: true, email: true, name: true, passwordHash: true }
+      });
+
+      if (!user || !(await bcrypt.compare(body.password, user.passwordHash))) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Password is incorrect'
+        });
+      }
+
+      const { purgeAt, listings } = await scheduleAccountDeletion(user.id, { requestedById: user.id, reason: 'account_deleted' });
+
+      clearSessionCookies(reply);
+
+      try {
+        await sendMail(accountDeletionEmail(user, purgeAt));
+      } catch (mailError) {
+        console.error('Failed to send account deletion email:', mailError);
+      }
+
+      return reply.send({
+        success: true,
+        message: `Your account has been closed and will be permanently deleted in ${ACCOUNT_DELETION_GRACE_DAYS} days. Sign in before then to keep it`,
+        data: {
+          id: user.id,
+          deletionScheduledAt: purgeAt,
+          listings
+        }
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
   // GET /users/:id - Get user by ID
   fastify.get('/users/:id', {
     schema: {
@@ -186,17 +343,18 @@ async function userRoutes(fastify: any) {
 
   // POST /users - Create new user
   fastify.post('/users', {
+    config: { policy: { access: 'authenticated', permissions: ['user:manage'] }, audit: { entity: 'user' } },
     schema: {
       tags: ['users'],
       summary: 'Create new user',
-      description: 'Create a new user',
+      description: 'Create a new user (requires user:manage, and role:manage to pick a role other than USER)',
       body: {
         type: 'object',
         properties: {
           email: { type: 'string', format: 'email' },
           password: { type: 'string', minLength: 8 },
           name: { type: 'string', minLength: 1 },
-          role: { type: 'string', enum: ['ADMIN', 'USER', 'AGENT'], default: 'USER' },
+          role: { type: 'string', default: 'USER' },
           phone: { type: 'string' },
           avatarUrl: { type: 'string', format: 'uri' }
         },
@@ -235,6 +393,24 @@ async function userRoutes(fastify: any) {
   }, async (request: any, reply: any) => {
     try {
       const body = CreateUserSchema.parse(request.body);
+
+      if (body.role !== DEFAULT_ROLE && !hasPermission(request.user, 'role:manage')) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Insufficient permissions to assign roles'
+        });
+      }
+
+      const role = await prisma.role.findUnique({
+        where: { name: body.role }
+      });
+
+      if (!role) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Unknown role'
+        });
+      }
       
       // Check if user already exists
       const existingUser = await prisma.user.findUnique({
@@ -296,6 +472,7 @@ async function userRoutes(fastify: any) {
 
   // PUT /users/:id - Update user
   fastify.put('/users/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'user' } }, audit: { entity: 'user' } },
     schema: {
       tags: ['users'],
       summary: 'Update user',
@@ -312,7 +489,6 @@ async function userRoutes(fastify: any) {
         properties: {
           email: { type: 'string', format: 'email' },
           name: { type: 'string', minLength: 1 },
-          role: { type: 'string', enum: ['ADMIN', 'USER', 'AGENT'] },
           phone: { type: 'string' },
           avatarUrl: { type: 'string', format: 'uri' },
           isVerified: { type: 'boolean' }
@@ -352,6 +528,14 @@ async function userRoutes(fastify: any) {
     try {
       const { id } = request.params as { id: string };
       const body = UpdateUserSchema.parse(request.body);
+
+      // Verification status is managed by user administrators; roles go through PUT /users/:id/role
+      if (body.isVerified !== undefined && !hasPermission(request.user, 'user:manage')) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Only user administrators can change verification status'
+        });
+      }
       
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
@@ -418,10 +602,11 @@ async function userRoutes(fastify: any) {
 
   // DELETE /users/:id - Delete user
   fastify.delete('/users/:id', {
+    config: { policy: { access: 'authenticated', permissions: ['user:manage'] }, audit: { entity: 'user' } },
     schema: {
       tags: ['users'],
       summary: 'Delete user',
-      description: 'Delete a user',
+      description: `Close a user account on their behalf (requires user:manage), e.g. for a privacy request. Same as DELETE /users/me: the user is signed out, their live listings are taken down, or handed over to \`transferListingsTo\` (the email of a user who can list apartments; also requires listing:moderate), and their personal data is erased after ${ACCOUNT_DELETION_GRACE_DAYS} days. Unlike a closure the user requested, signing in does not undo it: their sign-ins are refused`,
       params: {
         type: 'object',
         properties: {
@@ -429,6 +614,12 @@ async function userRoutes(fastify: any) {
         },
         required: ['id']
       },
+      body: {
+        type: ['object', 'null'],
+        properties: {
+          transferListingsTo: { type: 'string', format: 'email' }
+        }
+      },
       response: {
         200: {
           type: 'object',
@@ -437,6 +628,13 @@ async function userRoutes(fastify: any) {
             message: { type: 'string' }
           }
         },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        },
         404: {
           type: 'object',
           properties: {
@@ -449,10 +647,12 @@ async function userRoutes(fastify: any) {
   }, async (request: any, reply: any) => {
     try {
       const { id } = request.params as { id: string };
+      const body = DeleteUserSchema.parse(request.body ?? {});
       
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
-        where: { id }
+        where: { id },
+        select: { id: true, deletionScheduledAt: true, deletedAt: true }
       });
 
       if (!existingUser) {
@@ -461,14 +661,208 @@ async function userRoutes(fastify: any) {
           error: 'User not found'
         });
       }
-      
-      await prisma.user.delete({
+
+      if (existingUser.deletionScheduledAt || existingUser.deletedAt) {
+        return reply.code(400).send({
+          success: false,
+          error: 'User is already deleted'
+        });
+      }
+
+      let transferListingsTo: string | undefined;
+
+      if (body.transferListingsTo) {
+        // Reassigning listings is a moderation action
+        if (!hasPermission(request.user, 'listing:moderate')) {
+          return reply.code(403).send({
+            success: false,
+            error: 'Insufficient permissions to transfer listings'
+          });
+        }
+
+        const recipient = await prisma.user.findUnique({
+          where: { email: body.transferListingsTo },
+          select: {
+            id: true,
+            deletionScheduledAt: true,
+            deletedAt: true,
+            roleDefinition: { select: { permissions: true } }
+          }
+        });
+
+        if (!recipient || recipient.id === id || recipient.deletionScheduledAt || recipient.deletedAt) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Listings can only be transferred to another active account'
+          });
+        }
+
+        if (!recipient.roleDefinition.permissions.includes('listing:create')) {
+          return reply.code(400).send({
+            success: false,
+            error: 'The new owner is not allowed to list apartments'
+          });
+        }
+
+        transferListingsTo = recipient.id;
+      }
+
+      // Messages, reviews and listings reference the user, so the row is anonymized later instead of removed
+      await scheduleAccountDeletion(id, {
+        requestedById: request.user.id,
+        transferListingsTo,
+        reason: 'account_deleted_by_admin'
+      });
+
+      return reply.send({
+        success: true,
+        message: `User deleted successfully. Their personal data will be erased in ${ACCOUNT_DELETION_GRACE_DAYS} days`
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+
+  // DELETE /users/:id/sessions - Force sign-out of a user on every device
+  fastify.delete('/users/:id/sessions', {
+    config: { policy: { access: 'authenticated', permissions: ['user:manage'] }, audit: { entity: 'user', action: 'revoke_sessions' } },
+    schema: {
+      tags: ['users'],
+      summary: 'Revoke user sessions',
+      description: 'Sign a user out of every device by revoking all of their sessions (requires user:manage)',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                revokedSessions: { type: 'number' }
+              }
+            }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const existingUser = await prisma.user.findUnique({
         where: { id }
       });
 
+      if (!existingUser) {
+        return reply.code(404).send({
+          success: false,
+          error: 'User not found'
+        });
+      }
+
+      const revokedSessions = await revokeUserSessions(id, 'admin_revoked');
+
+      return reply.send({
+        success: true,
+        message: 'User sessions revoked successfully',
+        data: { revokedSessions }
+      });
+    } catch (error) {
+      console.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // POST /users/:id/unlock - Lift a login lockout
+  fastify.post('/users/:id/unlock', {
+    config: { policy: { access: 'authenticated', permissions: ['user:manage'] }, audit: { entity: 'user', action: 'unlock' } },
+    schema: {
+      tags: ['users'],
+      summary: 'Unlock user login',
+      description: 'Reset failed login attempts and lift any active lockout on a user account (requires user:manage)',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                resolvedLockouts: { type: 'number' }
+              }
+            }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const existingUser = await prisma.user.findUnique({
+        where: { id },
+        select: { email: true }
+      });
+
+      if (!existingUser) {
+        return reply.code(404).send({
+          success: false,
+          error: 'User not found'
+        });
+      }
+
+      const resolvedLockouts = await unlockAccount(existingUser.email, request.user.id);
+
       return reply.send({
         success: true,
-        message: 'User deleted successfully'
+        message: 'User account unlocked successfully',
+        data: { resolvedLockouts }
       });
     } catch (error) {
       console.error(error);
@@ -478,6 +872,125 @@ async function userRoutes(fastify: any) {
       });
     }
   });
+
+  // PUT /users/:id/role - Assign a role
+  fastify.put('/users/:id/role', {
+    config: { policy: { access: 'authenticated', permissions: ['role:manage'] }, audit: { entity: 'user', action: 'assign_role' } },
+    schema: {
+      tags: ['users'],
+      summary: 'Assign user role',
+      description: 'Give a user a different role; their permissions change on their next request (requires role:manage)',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          role: { type: 'string', description: 'Role name' }
+        },
+        required: ['role']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                email: { type: 'string' },
+                name: { type: 'string' },
+                role: { type: 'string' }
+              }
+            }
+          }
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request: any, reply: any) => {
+    try {
+      const { id } = request.params as { id: string };
+      const body = AssignRoleSchema.parse(request.body);
+
+      // Keeps an administrator from locking themselves out
+      if (id === request.user.id) {
+        return reply.code(400).send({
+          success: false,
+          error: 'You cannot change your own role'
+        });
+      }
+
+      const [existingUser, role] = await Promise.all([
+        prisma.user.findUnique({ where: { id }, select: { id: true } }),
+        prisma.role.findUnique({ where: { name: body.role }, select: { name: true } })
+      ]);
+
+      if (!existingUser) {
+        return reply.code(404).send({
+          success: false,
+          error: 'User not found'
+        });
+      }
+
+      if (!role) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Unknown role'
+        });
+      }
+
+      const user = await prisma.user.update({
+        where: { id },
+        data: { role: role.name },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true
+        }
+      });
+
+      return reply.send({
+        success: true,
+        message: 'User role updated successfully',
+        data: user
+      });
+    } catch (error: any) {
+      console.error(error);
+
+      if (error.name === 'ZodError') {
+        return reply.code(400).send({
+          success: false,
+          error: error.issues.map((issue: any) => issue.message).join(', ')
+        });
+      }
+
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
 };
 
 export default fastifyPlugin(userRoutes);
@@ -1,5 +1,6 @@
 import fastifyPlugin from 'fastify-plugin';
 import { PrismaClient } from '@prisma/client';
+import { hasPermission } from '../lib/auth';
 
 const prisma = new PrismaClient();
 
@@ -216,25 +217,25 @@ async function visitRoutes(fastify: any) {
 
   // POST /visits - Create new visit
   fastify.post('/visits', {
+    config: { policy: { access: 'authenticated', verified: true }, audit: { entity: 'visit' } },
     schema: {
       body: {
         type: 'object',
         properties: {
           apartmentId: { type: 'string', format: 'uuid' },
-          userId: { type: 'string', format: 'uuid' },
           scheduledAt: { type: 'string', format: 'date-time' }
         },
-        required: ['apartmentId', 'userId', 'scheduledAt']
+        required: ['apartmentId', 'scheduledAt']
       }
     }
   }, async (request: any, reply: any) => {
     try {
       const body = request.body as {
         apartmentId: string;
-        userId: string;
         scheduledAt: string;
         notes?: string;
       };
+      const userId = request.user.id;
       
       // Verify apartment exists
       const apartment = await prisma.apartment.findUnique({
@@ -248,20 +249,8 @@ async function visitRoutes(fastify: any) {
         });
       }
 
-      // Verify user exists
-      const user = await prisma.user.findUnique({
-        where: { id: body.userId }
-      });
-
-      if (!user) {
-        return reply.code(400).send({
-          success: false,
-          error: 'User not found'
-        });
-      }
-
       // Check if user is trying to visit their own apartment
-      if (apartment.listerId === body.userId) {
+      if (apartment.listerId === userId) {
         return reply.code(400).send({
           success: false,
           error: 'Users cannot schedule visits to their own apartments'
@@ -301,7 +290,8 @@ async function visitRoutes(fastify: any) {
       
       const visit = await prisma.visit.create({
         data: {
-          ...body,
+          apartmentId: body.apartmentId,
+          userId,
           scheduledAt: new Date(body.scheduledAt)
         },
         include: {
@@ -352,6 +342,7 @@ async function visitRoutes(fastify: any) {
 
   // PUT /visits/:id - Update visit (mainly for confirming)
   fastify.put('/visits/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'visit' } }, audit: { entity: 'visit' } },
     schema: {
       params: {
         type: 'object',
@@ -380,7 +371,12 @@ async function visitRoutes(fastify: any) {
       
       // Check if visit exists
       const existingVisit = await prisma.visit.findUnique({
-        where: { id }
+        where: { id },
+        include: {
+          apartment: {
+            select: { listerId: true }
+          }
+        }
       });
 
       if (!existingVisit) {
@@ -390,6 +386,14 @@ async function visitRoutes(fastify: any) {
         });
       }
 
+      // Only the apartment lister (or a visit manager) can confirm a visit
+      if (body.confirmed !== undefined && !hasPermission(request.user, 'visit:manage') && existingVisit.apartment.listerId !== request.user.id) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Only the apartment lister can confirm a visit'
+        });
+      }
+
       // If updating scheduledAt, check if it's in the future
       if (body.scheduledAt) {
         const scheduledDate = new Date(body.scheduledAt);
@@ -460,6 +464,7 @@ async function visitRoutes(fastify: any) {
 
   // DELETE /visits/:id - Delete visit
   fastify.delete('/visits/:id', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'visit' } }, audit: { entity: 'visit' } },
     schema: {
       params: {
         type: 'object',
@@ -58,6 +58,10 @@ async function watchlistRoutes(fastify: any) {
                 bathrooms: true,
                 areaSqm: true,
                 priceEgp: true,
+                listingType: true,
+                rentPeriod: true,
+                priceDropPercent: true,
+                priceDroppedAt: true,
                 status: true,
                 project: {
                   select: {
@@ -113,6 +117,7 @@ async function watchlistRoutes(fastify: any) {
 
   // POST /watchlists - Add apartment to watchlist
   fastify.post('/watchlists', {
+    config: { policy: { access: 'authenticated', permissions: ['watchlist:use'] } },
     schema: {
       tags: ['watchlists'],
       summary: 'Create watchlist entry',
@@ -120,10 +125,9 @@ async function watchlistRoutes(fastify: any) {
       body: {
         type: 'object',
         properties: {
-          userId: { type: 'string', format: 'uuid' },
           apartmentId: { type: 'string', format: 'uuid' }
         },
-        required: ['userId', 'apartmentId']
+        required: ['apartmentId']
       },
       response: {
         201: {
@@ -144,22 +148,10 @@ async function watchlistRoutes(fastify: any) {
     }
   }, async (request: any, reply: any) => {
     try {
-      const { userId, apartmentId } = request.body as {
-        userId: string;
+      const { apartmentId } = request.body as {
         apartmentId: string;
       };
-      
-      // Verify user exists
-      const user = await prisma.user.findUnique({
-        where: { id: userId }
-      });
-
-      if (!user) {
-        return reply.code(400).send({
-          success: false,
-          error: 'User not found'
-        });
-      }
+      const userId = request.user.id;
 
       // Verify apartment exists
       const apartment = await prisma.apartment.findUnique({
@@ -243,6 +235,7 @@ async function watchlistRoutes(fastify: any) {
 
   // DELETE /watchlists/:userId/:apartmentId - Remove apartment from watchlist
   fastify.delete('/watchlists/:userId/:apartmentId', {
+    config: { policy: { access: 'authenticated', owner: { resource: 'watchlist', key: 'userId' } } },
     schema: {
       tags: ['watchlists'],
       summary: 'Remove watchlist entry',
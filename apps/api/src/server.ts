@@ -1,11 +1,21 @@
 import { app } from './lib/fastify';
+import { applyRoutePolicy } from './lib/policies';
+import { applyAuditLog, auditImpersonatedRequest } from './lib/audit';
+import { startAccountPurgeJob } from './lib/account-deletion';
+import { startListingExpiryJob } from './lib/listing-expiry';
+import { assertTwoFactorRoles } from './lib/two-factor';
 import * as path from 'node:path';
 import apartmentRoutes from './routes/apartments';
 import apartmentImageRoutes from './routes/apartment-images';
 import apartmentAmenityRoutes from './routes/apartment-amenities';
+import paymentPlanRoutes from './routes/payment-plans';
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/two-factor';
 import healthRoutes from './routes/health';
 import userRoutes from './routes/users';
+import roleRoutes from './routes/roles';
+import apiKeyRoutes from './routes/api-keys';
+import auditEventRoutes from './routes/audit-events';
 import cityRoutes from './routes/cities';
 import projectRoutes from './routes/projects';
 import messageRoutes from './routes/messages';
@@ -13,6 +23,12 @@ import watchlistRoutes from './routes/watchlists';
 import reviewRoutes from './routes/reviews';
 import visitRoutes from './routes/visits';
 
+// Comma-separated origins allowed to call the API from a browser; defaults to the web app
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || process.env.WEB_APP_URL || 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
 async function main() {
   try {
     // Register static file serving
@@ -21,9 +37,14 @@ async function main() {
       prefix: '/',
     });
 
+    // Register cookie parsing (session and CSRF cookies)
+    await app.register(require('@fastify/cookie'));
+
     // Register CORS
     await app.register(require('@fastify/cors'), {
-      origin: true, // Allow all origins in development
+      // Credentialed requests carry the session cookies, so only the web app's own origins may make them
+      origin: CORS_ORIGINS,
+      credentials: true, // Let the web app send its session cookies
     });
 
     // Register Swagger
@@ -44,20 +65,33 @@ async function main() {
             name: 'Authorization',
             in: 'header',
             description: 'Enter JWT token in the format: Bearer <token>'
+          },
+          apiKeyAuth: {
+            type: 'apiKey',
+            name: 'X-API-Key',
+            in: 'header',
+            description: 'Partner API key (nawy_...), limited to the endpoints its scopes allow'
           }
         },
         security: [
           {
             bearerAuth: []
+          },
+          {
+            apiKeyAuth: []
           }
         ],
         tags: [
           // System & Auth
           { name: 'health', description: 'Health check endpoints' },
           { name: 'authentication', description: 'User authentication & authorization' },
+          { name: 'two-factor', description: 'Two-factor authentication - TOTP enrollment and login challenges' },
           
           // Core Entities
           { name: 'users', description: 'User management - User profiles and account operations' },
+          { name: 'roles', description: 'Roles & permissions - Access control administration' },
+          { name: 'api-keys', description: 'API keys - Scoped credentials for partner integrations' },
+          { name: 'audit', description: 'Audit log - History of sensitive changes' },
           { name: 'cities', description: 'City management - Geographic locations' },
           { name: 'projects', description: 'Project management - Real estate projects' },
           
@@ -65,6 +99,7 @@ async function main() {
           { name: 'apartments', description: 'Apartment listings - Core property management' },
           { name: 'apartment-images', description: 'Apartment images - Property media management' },
           { name: 'apartment-amenities', description: 'Apartment amenities - Property features' },
+          { name: 'payment-plans', description: 'Payment plans - Developer installment plans for projects and units' },
           
           // User Interactions
           { name: 'messages', description: 'Messaging system - User conversations about properties' },
@@ -131,15 +166,26 @@ async function main() {
       }
     });
 
+    // Attach declared access policies (and reject unprotected mutating routes)
+    app.addHook('onRoute', applyRoutePolicy);
+    // Audit log: routes that declare `config.audit`, and every request made while impersonating
+    app.addHook('onRoute', applyAuditLog);
+    app.addHook('onResponse', auditImpersonatedRequest);
+
     // Register routes with tags for Swagger grouping
     await app.register(healthRoutes, { prefix: '/api' });
     await app.register(authRoutes, { prefix: '/api' });
+    await app.register(twoFactorRoutes, { prefix: '/api' });
     await app.register(userRoutes, { prefix: '/api' });
+    await app.register(roleRoutes, { prefix: '/api' });
+    await app.register(apiKeyRoutes, { prefix: '/api' });
+    await app.register(auditEventRoutes, { prefix: '/api' });
     await app.register(cityRoutes, { prefix: '/api' });
     await app.register(projectRoutes, { prefix: '/api' });
     await app.register(apartmentRoutes, { prefix: '/api' });
     await app.register(apartmentImageRoutes, { prefix: '/api' });
     await app.register(apartmentAmenityRoutes, { prefix: '/api' });
+    await app.register(paymentPlanRoutes, { prefix: '/api' });
     await app.register(messageRoutes, { prefix: '/api' });
     await app.register(watchlistRoutes, { prefix: '/api' });
     await app.register(reviewRoutes, { prefix: '/api' });
@@ -149,7 +195,15 @@ async function main() {
     const port = Number.parseInt(process.env.PORT || '4000');
     const host = process.env.HOST || 'localhost';
 
+    // Refuse to start when a role that must use 2FA could not enroll
+    await assertTwoFactorRoles();
+
     await app.listen({ port, host });
+
+    // Erase the personal data of accounts whose deletion grace period is over
+    startAccountPurgeJob(app.log);
+    // Remind listers of listings about to expire, and take expired ones out of search
+    startListingExpiryJob(app.log);
     
     console.log(`Server running on http://${host}:${port}`);
     console.log(`API Documentation available at http://${host}:${port}/docs`);
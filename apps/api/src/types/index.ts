@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { isPermission } from '../lib/permissions';
+import { DEFAULT_API_KEY_TTL_DAYS, isApiKeyScope } from '../lib/api-keys';
+import { AUDIT_ENTITIES } from '../lib/audit';
+import { APARTMENT_SCOPES, APARTMENT_SORTS } from '../lib/apartment-search';
+import { LISTING_STATUSES } from '../lib/listing-lifecycle';
+import { LISTING_TYPES, RENT_PERIODS } from '../lib/listing-types';
+import { INSTALLMENT_FREQUENCIES, MAX_PLAN_YEARS } from '../lib/payment-plans';
 
 // Common schemas
 export const PaginationSchema = z.object({
@@ -6,6 +13,18 @@ export const PaginationSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).optional().default(10),
 });
 
+// Opaque `after`/`before` cursors from a previous page's meta; totals cost extra queries,
+// so cursor requests skip them unless asked
+export const CursorPaginationSchema = z.object({
+  after: z.string().min(1).optional(),
+  before: z.string().min(1).optional(),
+  includeTotal: z.boolean().optional(),
+});
+
+const hasSingleCursor = (data: { after?: string; before?: string }) => !(data.after && data.before);
+
+const SINGLE_CURSOR_MESSAGE = { message: 'Use either after or before, not both' };
+
 export const UuidParamsSchema = z.object({
   id: z.string().uuid('Invalid UUID format')
 });
@@ -14,6 +33,50 @@ export const UuidParamsSchema = z.object({
 export const LoginSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(1, 'Password is required'),
+  rememberMe: z.boolean().optional().default(false),
+});
+
+export const RefreshTokenSchema = z.object({
+  // Cookie sessions send the refresh token as a cookie instead
+  refreshToken: z.string().min(1, 'Refresh token is required').optional(),
+});
+
+export const ForgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+export const VerifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+export const TwoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export const TwoFactorVerifySchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+}).refine(data => data.code || data.recoveryCode, {
+  message: 'Either a code or a recovery code is required',
+});
+
+export const DisableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+}).refine(data => data.code || data.recoveryCode, {
+  message: 'Either a code or a recovery code is required',
+});
+
+export const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(8, 'New password must be at least 8 characters'),
 });
 
 export const RegisterSchema = z.object({
@@ -29,7 +92,7 @@ export const CreateUserSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
   name: z.string().min(1, 'Name is required'),
-  role: z.enum(['ADMIN', 'USER', 'AGENT']).optional().default('USER'),
+  role: z.string().min(1).max(50).optional().default('USER'),
   phone: z.string().optional(),
   avatarUrl: z.string().url().optional(),
 });
@@ -37,18 +100,65 @@ export const CreateUserSchema = z.object({
 export const UpdateUserSchema = z.object({
   email: z.string().email().optional(),
   name: z.string().min(1).optional(),
-  role: z.enum(['ADMIN', 'USER', 'AGENT']).optional(),
   phone: z.string().optional(),
   avatarUrl: z.string().url().optional(),
   isVerified: z.boolean().optional(),
 });
 
+export const AssignRoleSchema = z.object({
+  role: z.string().min(1, 'Role is required').max(50),
+});
+
+export const DeleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const DeleteUserSchema = z.object({
+  transferListingsTo: z.string().email('Invalid email format').optional(),
+});
+
+export const AccountExportQuerySchema = z.object({
+  format: z.enum(['json', 'zip']).optional().default('json'),
+});
+
 export const UserQuerySchema = z.object({
-  role: z.enum(['ADMIN', 'USER', 'AGENT']).optional(),
+  role: z.string().optional(),
   isVerified: z.boolean().optional(),
   search: z.string().optional(),
 }).merge(PaginationSchema);
 
+// Role schemas
+const PermissionNameSchema = z.string().refine(isPermission, (value) => ({ message: `Unknown permission: ${value}` }));
+
+export const CreateRoleSchema = z.object({
+  name: z.string().regex(/^[A-Z][A-Z0-9_]{1,49}$/, 'Role name must be upper case letters, digits or underscores'),
+  description: z.string().max(255).optional(),
+  permissions: z.array(PermissionNameSchema).default([]),
+  // null falls back to the default listing duration
+  listingDurationDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+export const UpdateRoleSchema = CreateRoleSchema.partial();
+
+// API key schemas
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(
+    z.string().refine(isApiKeyScope, (value) => ({ message: `Unknown scope: ${value}` }))
+  ).min(1, 'At least one scope is required'),
+  expiresInDays: z.number().int().min(1).max(365).optional().default(DEFAULT_API_KEY_TTL_DAYS),
+});
+
+// Audit log schemas
+export const AuditEventQuerySchema = z.object({
+  actorId: z.string().uuid().optional(),
+  entityType: z.enum(AUDIT_ENTITIES).optional(),
+  entityId: z.string().uuid().optional(),
+  action: z.string().max(50).optional(),
+  dateFrom: z.string().datetime().optional(),
+  dateTo: z.string().datetime().optional(),
+}).merge(PaginationSchema);
+
 // City schemas
 export const CreateCitySchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -90,6 +200,10 @@ export const ProjectQuerySchema = z.object({
 }).merge(PaginationSchema);
 
 // Apartment schemas
+const ListingTypeSchema = z.enum(LISTING_TYPES);
+
+const RentPeriodSchema = z.enum(RENT_PERIODS);
+
 export const CreateApartmentSchema = z.object({
   projectId: z.string().uuid('Invalid project ID'),
   unitName: z.string().min(1, 'Unit name is required'),
@@ -98,12 +212,19 @@ export const CreateApartmentSchema = z.object({
   bathrooms: z.number().int().min(0).optional(),
   areaSqm: z.number().positive().optional(),
   priceEgp: z.number().positive().optional(),
+  listingType: ListingTypeSchema.optional().default('SALE'),
+  rentPeriod: RentPeriodSchema.optional(),
+  depositEgp: z.number().min(0).optional(),
+  minLeaseMonths: z.number().int().min(1).max(120).optional(),
+  furnished: z.boolean().optional(),
+  availableFrom: z.coerce.date().optional(),
   address: z.string().optional(),
   latitude: z.number().optional(),
   longitude: z.number().optional(),
   description: z.string().optional(),
-  listerId: z.string().uuid('Invalid lister ID'),
-  status: z.enum(['ACTIVE', 'INACTIVE', 'SOLD']).optional().default('ACTIVE'),
+  listerId: z.string().uuid('Invalid lister ID').optional(),
+  // New listings start as drafts or go straight to review; later moves use the transition endpoints
+  status: z.enum(['DRAFT', 'PENDING_REVIEW']).optional().default('DRAFT'),
 });
 
 export const UpdateApartmentSchema = z.object({
@@ -114,41 +235,154 @@ export const UpdateApartmentSchema = z.object({
   bathrooms: z.number().int().min(0).optional(),
   areaSqm: z.number().positive().optional(),
   priceEgp: z.number().positive().optional(),
+  listingType: ListingTypeSchema.optional(),
+  // Rental terms and the availability date are cleared with null
+  rentPeriod: RentPeriodSchema.nullable().optional(),
+  depositEgp: z.number().min(0).nullable().optional(),
+  minLeaseMonths: z.number().int().min(1).max(120).nullable().optional(),
+  furnished: z.boolean().optional(),
+  availableFrom: z.coerce.date().nullable().optional(),
   address: z.string().optional(),
   latitude: z.number().optional(),
   longitude: z.number().optional(),
   description: z.string().optional(),
   listerId: z.string().uuid().optional(),
-  status: z.enum(['ACTIVE', 'INACTIVE', 'SOLD']).optional(),
 });
 
+const CoordinatesSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+const ApartmentSortSchema = z.enum(APARTMENT_SORTS);
+
+// One room count or several; a single number is still accepted and becomes a one-item list
+const RoomCountsSchema = z.union([
+  z.array(z.coerce.number().int().min(0)),
+  z.coerce.number().int().min(0).transform(count => [count]),
+]);
+
+// Exact counts and the min/max range are alternatives, so "1, 2 or 5+" is bedrooms [1, 2] with minBedrooms 5
+const hasOrderedRoomRanges = (data: { minBedrooms?: number; maxBedrooms?: number; minBathrooms?: number; maxBathrooms?: number }) =>
+  !(data.minBedrooms !== undefined && data.maxBedrooms !== undefined && data.minBedrooms > data.maxBedrooms) &&
+  !(data.minBathrooms !== undefined && data.maxBathrooms !== undefined && data.minBathrooms > data.maxBathrooms);
+
+const ORDERED_ROOM_RANGES_MESSAGE = { message: 'Room minimums must not exceed their maximums' };
+
+const SortOrderSchema = z.enum(['asc', 'desc']);
+
+const ApartmentScopeSchema = z.enum(APARTMENT_SCOPES);
+
+const ApartmentStatusSchema = z.enum(LISTING_STATUSES);
+
 export const ApartmentQuerySchema = z.object({
   projectId: z.string().uuid().optional(),
   cityId: z.string().uuid().optional(),
   listerId: z.string().uuid().optional(),
-  status: z.enum(['ACTIVE', 'INACTIVE', 'SOLD']).optional(),
+  status: ApartmentStatusSchema.optional(),
   minPrice: z.coerce.number().positive().optional(),
   maxPrice: z.coerce.number().positive().optional(),
   minArea: z.coerce.number().positive().optional(),
   maxArea: z.coerce.number().positive().optional(),
-  bedrooms: z.coerce.number().int().min(0).optional(),
-  bathrooms: z.coerce.number().int().min(0).optional(),
+  bedrooms: RoomCountsSchema.optional(),
+  minBedrooms: z.coerce.number().int().min(0).optional(),
+  maxBedrooms: z.coerce.number().int().min(0).optional(),
+  bathrooms: RoomCountsSchema.optional(),
+  minBathrooms: z.coerce.number().int().min(0).optional(),
+  maxBathrooms: z.coerce.number().int().min(0).optional(),
   search: z.string().optional(),
-}).merge(PaginationSchema);
+  scope: ApartmentScopeSchema.optional(),
+  // Distance needs a reference point, which only POST /apartments/search accepts
+  sortBy: ApartmentSortSchema.exclude(['distance']).optional(),
+  sortOrder: SortOrderSchema.optional(),
+}).merge(PaginationSchema).merge(CursorPaginationSchema).refine(hasSingleCursor, SINGLE_CURSOR_MESSAGE).refine(hasOrderedRoomRanges, ORDERED_ROOM_RANGES_MESSAGE);
 
 export const ApartmentSearchSchema = z.object({
   projectIds: z.array(z.string().uuid()).optional(),
   cityIds: z.array(z.string().uuid()).optional(),
   listerIds: z.array(z.string().uuid()).optional(),
-  statuses: z.array(z.enum(['ACTIVE', 'INACTIVE', 'SOLD'])).optional(),
+  statuses: z.array(ApartmentStatusSchema).optional(),
+  listingType: ListingTypeSchema.optional(),
+  rentPeriods: z.array(RentPeriodSchema).optional(),
+  furnished: z.boolean().optional(),
+  maxDeposit: z.number().positive().optional(),
+  leaseMonths: z.number().int().min(1).optional(),
+  availableBy: z.coerce.date().optional(),
   minPrice: z.number().positive().optional(),
   maxPrice: z.number().positive().optional(),
+  maxDownPayment: z.number().positive().optional(),
+  maxMonthlyInstallment: z.number().positive().optional(),
   minArea: z.number().positive().optional(),
   maxArea: z.number().positive().optional(),
-  bedrooms: z.number().int().min(0).optional(),
-  bathrooms: z.number().int().min(0).optional(),
+  bedrooms: RoomCountsSchema.optional(),
+  minBedrooms: z.number().int().min(0).optional(),
+  maxBedrooms: z.number().int().min(0).optional(),
+  bathrooms: RoomCountsSchema.optional(),
+  minBathrooms: z.number().int().min(0).optional(),
+  maxBathrooms: z.number().int().min(0).optional(),
+  amenities: z.array(z.string().trim().min(1)).max(50).optional(),
+  anyAmenities: z.array(z.string().trim().min(1)).max(50).optional(),
   search: z.string().optional(),
-}).merge(PaginationSchema);
+  scope: ApartmentScopeSchema.optional(),
+  near: CoordinatesSchema.optional(),
+  radiusKm: z.number().positive().max(500).optional(),
+  bbox: z.object({
+    minLatitude: z.number().min(-90).max(90),
+    minLongitude: z.number().min(-180).max(180),
+    maxLatitude: z.number().min(-90).max(90),
+    maxLongitude: z.number().min(-180).max(180),
+  }).refine(box => box.minLatitude <= box.maxLatitude && box.minLongitude <= box.maxLongitude, {
+    message: 'bbox minimums must not exceed its maximums',
+  }).optional(),
+  polygon: z.array(CoordinatesSchema).min(3, 'polygon needs at least 3 points').max(200).optional(),
+  sortBy: ApartmentSortSchema.optional(),
+  sortOrder: SortOrderSchema.optional(),
+}).merge(PaginationSchema).merge(CursorPaginationSchema).refine(hasSingleCursor, SINGLE_CURSOR_MESSAGE).refine(hasOrderedRoomRanges, ORDERED_ROOM_RANGES_MESSAGE).refine(data => data.near || (!data.radiusKm && data.sortBy !== 'distance'), {
+  message: 'near is required for radiusKm and sorting by distance',
+  path: ['near'],
+});
+
+export const ListingTransitionSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Payment plan schemas
+const InstallmentFrequencySchema = z.enum(INSTALLMENT_FREQUENCIES);
+
+const PaymentPlanTermsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  downPaymentPercent: z.number().min(0).max(100),
+  years: z.number().int().min(1).max(MAX_PLAN_YEARS),
+  installmentFrequency: InstallmentFrequencySchema,
+  maintenanceFeePercent: z.number().min(0).max(100).optional(),
+  deliveryDate: z.coerce.date().optional(),
+});
+
+// Plans for every unit of a project are created under the project; this one is for a single unit
+export const CreatePaymentPlanSchema = PaymentPlanTermsSchema.extend({
+  apartmentId: z.string().uuid('Invalid apartment ID'),
+});
+
+export const CreateProjectPaymentPlanSchema = PaymentPlanTermsSchema;
+
+// A plan cannot move to another project or unit
+export const UpdatePaymentPlanSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  downPaymentPercent: z.number().min(0).max(100).optional(),
+  years: z.number().int().min(1).max(MAX_PLAN_YEARS).optional(),
+  installmentFrequency: InstallmentFrequencySchema.optional(),
+  maintenanceFeePercent: z.number().min(0).max(100).optional(),
+  deliveryDate: z.coerce.date().nullable().optional(),
+});
+
+export const ProjectPaymentPlanParamsSchema = z.object({
+  id: z.string().uuid('Invalid project ID'),
+  planId: z.string().uuid('Invalid payment plan ID'),
+});
+
+export const PaymentScheduleQuerySchema = z.object({
+  startDate: z.coerce.date().optional(),
+});
 
 // Apartment Image schemas
 export const CreateApartmentImageSchema = z.object({
@@ -194,7 +428,6 @@ export const MessageQuerySchema = z.object({
 
 // Watchlist schemas
 export const CreateWatchlistSchema = z.object({
-  userId: z.string().uuid('Invalid user ID'),
   apartmentId: z.string().uuid('Invalid apartment ID'),
 });
 
@@ -205,7 +438,6 @@ export const WatchlistQuerySchema = z.object({
 // Review schemas
 export const CreateReviewSchema = z.object({
   apartmentId: z.string().uuid('Invalid apartment ID'),
-  userId: z.string().uuid('Invalid user ID'),
   rating: z.number().int().min(1).max(5),
   comment: z.string().optional(),
 });
@@ -225,7 +457,6 @@ export const ReviewQuerySchema = z.object({
 // Visit schemas
 export const CreateVisitSchema = z.object({
   apartmentId: z.string().uuid('Invalid apartment ID'),
-  userId: z.string().uuid('Invalid user ID'),
   scheduledAt: z.string().datetime('Invalid date format'),
 });
 
@@ -246,6 +477,8 @@ export const VisitQuerySchema = z.object({
 export type CreateUserInput = z.infer<typeof CreateUserSchema>;
 export type UpdateUserInput = z.infer<typeof UpdateUserSchema>;
 export type UserQuery = z.infer<typeof UserQuerySchema>;
+export type DeleteAccountInput = z.infer<typeof DeleteAccountSchema>;
+export type DeleteUserInput = z.infer<typeof DeleteUserSchema>;
 
 export type CreateCityInput = z.infer<typeof CreateCitySchema>;
 export type UpdateCityInput = z.infer<typeof UpdateCitySchema>;
@@ -259,6 +492,12 @@ export type CreateApartmentInput = z.infer<typeof CreateApartmentSchema>;
 export type UpdateApartmentInput = z.infer<typeof UpdateApartmentSchema>;
 export type ApartmentQuery = z.infer<typeof ApartmentQuerySchema>;
 export type ApartmentSearch = z.infer<typeof ApartmentSearchSchema>;
+export type ListingTransitionInput = z.infer<typeof ListingTransitionSchema>;
+
+export type CreatePaymentPlanInput = z.infer<typeof CreatePaymentPlanSchema>;
+export type CreateProjectPaymentPlanInput = z.infer<typeof CreateProjectPaymentPlanSchema>;
+export type UpdatePaymentPlanInput = z.infer<typeof UpdatePaymentPlanSchema>;
+export type PaymentScheduleQuery = z.infer<typeof PaymentScheduleQuerySchema>;
 
 export type CreateApartmentImageInput = z.infer<typeof CreateApartmentImageSchema>;
 export type UpdateApartmentImageInput = z.infer<typeof UpdateApartmentImageSchema>;
@@ -281,12 +520,22 @@ export type CreateVisitInput = z.infer<typeof CreateVisitSchema>;
 export type UpdateVisitInput = z.infer<typeof UpdateVisitSchema>;
 export type VisitQuery = z.infer<typeof VisitQuerySchema>;
 
+export type AuditEventQuery = z.infer<typeof AuditEventQuerySchema>;
+
 export type UuidParams = z.infer<typeof UuidParamsSchema>;
 export type PaginationParams = z.infer<typeof PaginationSchema>;
 
 // Authentication types
 export type LoginInput = z.infer<typeof LoginSchema>;
 export type RegisterInput = z.infer<typeof RegisterSchema>;
+export type RefreshTokenInput = z.infer<typeof RefreshTokenSchema>;
+export type ForgotPasswordInput = z.infer<typeof ForgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof ChangePasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof VerifyEmailSchema>;
+export type TwoFactorCodeInput = z.infer<typeof TwoFactorCodeSchema>;
+export type TwoFactorVerifyInput = z.infer<typeof TwoFactorVerifySchema>;
+export type DisableTwoFactorInput = z.infer<typeof DisableTwoFactorSchema>;
 
 // Response types
 export interface ApiResponse<T = any> {
@@ -0,0 +1,12 @@
+'use client';
+
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import ChangePassword from "@/page-components/ChangePassword";
+
+export default function ChangePasswordPage() {
+  return (
+    <ProtectedRoute>
+      <ChangePassword />
+    </ProtectedRoute>
+  );
+}
\ No newline at end of file
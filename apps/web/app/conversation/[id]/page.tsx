@@ -1,12 +1,7 @@
 'use client';
 
-import { ProtectedRoute } from "@/components/ProtectedRoute";
 import ConversationDetail from "@/page-components/ConversationDetail";
 
 export default function ConversationDetailPage() {
-  return (
-    <ProtectedRoute>
-      <ConversationDetail />
-    </ProtectedRoute>
-  );
+  return <ConversationDetail />;
 }
\ No newline at end of file
@@ -0,0 +1,7 @@
+'use client';
+
+import ForgotPassword from "@/page-components/ForgotPassword";
+
+export default function ForgotPasswordPage() {
+  return <ForgotPassword />;
+}
\ No newline at end of file
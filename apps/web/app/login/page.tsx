@@ -1,7 +1,13 @@
 'use client';
 
+import { Suspense } from "react";
 import Login from "@/page-components/Login";
 
 export default function LoginPage() {
-  return <Login />;
-}
\ No newline at end of file
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense>
+      <Login />
+    </Suspense>
+  );
+}
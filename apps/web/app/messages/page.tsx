@@ -1,12 +1,7 @@
 'use client';
 
-import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Messages from "@/page-components/Messages";
 
 export default function MessagesPage() {
-  return (
-    <ProtectedRoute>
-      <Messages />
-    </ProtectedRoute>
-  );
+  return <Messages />;
 }
\ No newline at end of file
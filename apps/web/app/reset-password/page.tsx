@@ -0,0 +1,13 @@
+'use client';
+
+import { Suspense } from "react";
+import ResetPassword from "@/page-components/ResetPassword";
+
+export default function ResetPasswordPage() {
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense>
+      <ResetPassword />
+    </Suspense>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+'use client';
+
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import Security from "@/page-components/Security";
+
+export default function SecurityPage() {
+  return (
+    <ProtectedRoute>
+      <Security />
+    </ProtectedRoute>
+  );
+}
\ No newline at end of file
@@ -5,7 +5,7 @@ import NewListing from "@/page-components/NewListing";
 
 export default function NewListingPage() {
   return (
-    <ProtectedRoute adminOnly>
+    <ProtectedRoute permission="listing:create">
       <NewListing />
     </ProtectedRoute>
   );
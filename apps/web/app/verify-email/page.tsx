@@ -0,0 +1,13 @@
+'use client';
+
+import { Suspense } from "react";
+import VerifyEmail from "@/page-components/VerifyEmail";
+
+export default function VerifyEmailPage() {
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
\ No newline at end of file
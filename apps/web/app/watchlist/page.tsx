@@ -1,12 +1,7 @@
 'use client';
 
-import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Watchlist from "@/page-components/Watchlist";
 
 export default function WatchlistPage() {
-  return (
-    <ProtectedRoute>
-      <Watchlist />
-    </ProtectedRoute>
-  );
+  return <Watchlist />;
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+// Set by the API as an httpOnly cookie; its presence means the browser holds a session.
+// The API still validates every request, this only avoids rendering protected pages for guests.
+const SESSION_COOKIE = 'nawy_access';
+
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', request.nextUrl.pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/sell/new', '/messages', '/watchlist', '/conversation/:path*'],
+};
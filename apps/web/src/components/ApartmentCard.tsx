@@ -6,7 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Heart, Bed, Bath, Square, MapPin, ImageIcon } from 'lucide-react';
 import { Apartment } from '@/services/api';
-import { formatPrice, formatArea, truncateText, cn } from '@/lib/utils';
+import { formatPrice, formatArea, formatEnumLabel, truncateText, cn } from '@/lib/utils';
 import { EnhancedTooltip } from '@/components/ui/enhanced-tooltip';
 import { useIsMobile } from '@/hooks/use-mobile';
 import Image from 'next/image';
@@ -38,11 +38,17 @@ export const ApartmentCard: React.FC<ApartmentCardProps> = ({
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'ACTIVE':
+      case 'PUBLISHED':
         return 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800';
       case 'SOLD':
+      case 'RENTED':
         return 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800';
-      case 'INACTIVE':
+      case 'RESERVED':
+      case 'PENDING_REVIEW':
+        return 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800';
+      case 'DRAFT':
+      case 'EXPIRED':
+      case 'ARCHIVED':
         return 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-900/20 dark:text-gray-400 dark:border-gray-800';
       default:
         return 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800';
@@ -88,9 +94,9 @@ export const ApartmentCard: React.FC<ApartmentCardProps> = ({
           {/* Image overlay gradient */}
           <div className="absolute inset-0 bg-gradient-to-t from-black/20 via-transparent to-transparent" />
           
-          {/* Status badge on image */}
+          {/* Status and listing type badges on image */}
           <div className={cn(
-            "absolute top-2 left-2",
+            "absolute top-2 left-2 flex gap-1",
             isMobile && "top-3 left-3"
           )}>
             <Badge 
@@ -100,8 +106,13 @@ export const ApartmentCard: React.FC<ApartmentCardProps> = ({
                 getStatusColor(apartment.status)
               )}
             >
-              {apartment.status}
+              {formatEnumLabel(apartment.status)}
             </Badge>
+            {apartment.listingType === 'RENT' && (
+              <Badge className="font-medium text-xs border backdrop-blur-sm bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800">
+                For rent
+              </Badge>
+            )}
           </div>
 
           {/* Images count badge */}
@@ -230,9 +241,10 @@ export const ApartmentCard: React.FC<ApartmentCardProps> = ({
               "font-bold bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent",
               isMobile ? "text-xl" : "text-2xl"
             )}>
-              {formatPrice(apartment.priceEgp)}
+              {formatPrice(apartment.priceEgp, 'EGP', 'en-US', apartment.listingType === 'RENT' ? apartment.rentPeriod : null)}
             </p>
-            {apartment.areaSqm && apartment.priceEgp && (
+            {/* Price per m² only compares between sales */}
+            {apartment.listingType !== 'RENT' && apartment.areaSqm && apartment.priceEgp && (
               <EnhancedTooltip content={`${formatPrice(apartment.priceEgp / apartment.areaSqm)} per m²`}>
                 <span className={cn(
                   "text-muted-foreground",
@@ -6,10 +6,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { MultiSelect, type MultiSelectOption } from '@/components/ui/multi-select';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Search, Filter, ChevronDown, ChevronUp, X } from 'lucide-react';
-import { citiesApi, projectsApi, City, Project, type ApartmentFilters } from '@/services/api';
+import { amenitiesApi, apartmentApi, citiesApi, projectsApi, City, Project, type AmenityCount, type ApartmentFacets, type ApartmentFilters, type ApartmentScope, type ApartmentStatus, type FacetCount, type ListingType, type RentPeriod } from '@/services/api';
 import { EnhancedTooltip, InfoTooltip } from '@/components/ui/enhanced-tooltip';
-import { formatPrice, debounce, cn } from '@/lib/utils';
+import { formatEnumLabel, formatPrice, debounce, cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 interface FilterValues {
@@ -23,34 +24,111 @@ interface FilterValues {
   bedrooms: string[];
   bathrooms: string[];
   status: string[];
+  // '' for any; the rental terms only apply when looking for rentals
+  listingType: string;
+  rentPeriods: string[];
+  furnished: string;
+  maxDeposit: string;
+  leaseMonths: string;
+  availableBy: string;
+  // Payment plan limits; plans are only offered on sales
+  maxDownPayment: string;
+  maxMonthlyInstallment: string;
+  amenities: string[];
 }
 
 interface ApartmentFiltersProps {
+  // Listings the counts are computed over; the list page keeps the scope itself
+  scope?: ApartmentScope;
   onFilterChange: (filters: ApartmentFilters) => void;
 }
 
+// The last room option is open-ended ("5+ bedrooms") and is sent as a minimum
+const BEDROOMS_OR_MORE = 5;
+const BATHROOMS_OR_MORE = 4;
+
 // Helper functions to reduce complexity
 const getMultiSelectOptions = {
-  status: (): MultiSelectOption[] => [
-    { value: 'ACTIVE', label: 'Active', description: 'Available apartments' },
-    { value: 'INACTIVE', label: 'Inactive', description: 'Not currently available' },
-    { value: 'SOLD', label: 'Sold', description: 'Already sold apartments' }
+  // Browsing only ever shows public listings, so the private statuses are offered for your own and all listings
+  status: (scope: ApartmentScope = 'browse'): MultiSelectOption[] => [
+    { value: 'PUBLISHED', label: 'Published', description: 'Available apartments' },
+    { value: 'RESERVED', label: 'Reserved', description: 'On hold for a buyer or tenant' },
+    { value: 'RENTED', label: 'Rented', description: 'Already rented apartments' },
+    { value: 'SOLD', label: 'Sold', description: 'Already sold apartments' },
+    ...(scope === 'browse' ? [] : [
+      { value: 'DRAFT', label: 'Draft', description: 'Not submitted yet' },
+      { value: 'PENDING_REVIEW', label: 'Pending review', description: 'Waiting for a moderator' },
+      { value: 'EXPIRED', label: 'Expired', description: 'No longer listed' },
+      { value: 'ARCHIVED', label: 'Archived', description: 'Taken down by the lister' }
+    ])
+  ],
+  rentPeriods: (): MultiSelectOption[] => [
+    { value: 'DAILY', label: 'Daily', description: 'Short stays' },
+    { value: 'MONTHLY', label: 'Monthly' },
+    { value: 'YEARLY', label: 'Yearly' }
   ],
   bedrooms: (): MultiSelectOption[] => [
     { value: '1', label: '1 bedroom' },
     { value: '2', label: '2 bedrooms' },
     { value: '3', label: '3 bedrooms' },
     { value: '4', label: '4 bedrooms' },
-    { value: '5', label: '5+ bedrooms' }
+    { value: String(BEDROOMS_OR_MORE), label: `${BEDROOMS_OR_MORE}+ bedrooms` }
   ],
   bathrooms: (): MultiSelectOption[] => [
     { value: '1', label: '1 bathroom' },
     { value: '2', label: '2 bathrooms' },
     { value: '3', label: '3 bathrooms' },
-    { value: '4', label: '4+ bathrooms' }
+    { value: String(BATHROOMS_OR_MORE), label: `${BATHROOMS_OR_MORE}+ bathrooms` }
   ]
 };
 
+// Facet counts keyed by option value
+const toCountMap = (counts: FacetCount<string | number>[]) =>
+  new Map(counts.map(({ value, count }) => [String(value), count]));
+
+// The open-ended option also counts every larger value
+const toRoomCountMap = (counts: FacetCount<number>[], orMore: number) => {
+  const countMap = toCountMap(counts.filter(({ value }) => value < orMore));
+  countMap.set(String(orMore), counts
+    .filter(({ value }) => value >= orMore)
+    .reduce((sum, { count }) => sum + count, 0));
+  return countMap;
+};
+
+// Selected room options as exact counts plus, when the open-ended option is picked, a minimum
+const toRoomFilter = (selected: string[], orMore: number) => {
+  const counts = selected.map(Number);
+  return {
+    exact: counts.filter(count => count < orMore),
+    min: counts.includes(orMore) ? orMore : undefined,
+  };
+};
+
+// Amenity names match case-insensitively, so their counts are keyed by the lowercased name
+const toAmenityCountMap = (counts: FacetCount[]) => {
+  const countMap = new Map<string, number>();
+  for (const { value, count } of counts) {
+    const key = value.trim().toLowerCase();
+    countMap.set(key, (countMap.get(key) ?? 0) + count);
+  }
+  return countMap;
+};
+
+// Options that would give no results are disabled, unless selected so they can still be cleared
+const withFacetCounts = (options: MultiSelectOption[], counts: Map<string, number> | undefined, selected: string[]) => {
+  if (!counts) {
+    return options;
+  }
+  return options.map(option => {
+    const count = counts.get(option.value) ?? 0;
+    return {
+      ...option,
+      count,
+      disabled: option.disabled || (count === 0 && !selected.includes(option.value)),
+    };
+  });
+};
+
 const buildApiFilters = (filterValues: FilterValues): ApartmentFilters => {
   const apiFilters: ApartmentFilters = {};
   
@@ -75,14 +153,53 @@ const buildApiFilters = (filterValues: FilterValues): ApartmentFilters => {
   if (filterValues.maxArea) {
     apiFilters.maxArea = Number(filterValues.maxArea);
   }
-  if (filterValues.bedrooms.length > 0) {
-    apiFilters.bedrooms = filterValues.bedrooms.map(Number);
+  const bedrooms = toRoomFilter(filterValues.bedrooms, BEDROOMS_OR_MORE);
+  if (bedrooms.exact.length > 0) {
+    apiFilters.bedrooms = bedrooms.exact;
   }
-  if (filterValues.bathrooms.length > 0) {
-    apiFilters.bathrooms = filterValues.bathrooms.map(Number);
+  if (bedrooms.min !== undefined) {
+    apiFilters.minBedrooms = bedrooms.min;
+  }
+  const bathrooms = toRoomFilter(filterValues.bathrooms, BATHROOMS_OR_MORE);
+  if (bathrooms.exact.length > 0) {
+    apiFilters.bathrooms = bathrooms.exact;
+  }
+  if (bathrooms.min !== undefined) {
+    apiFilters.minBathrooms = bathrooms.min;
   }
   if (filterValues.status.length > 0) {
-    apiFilters.status = filterValues.status as ('ACTIVE' | 'INACTIVE' | 'SOLD')[];
+    apiFilters.status = filterValues.status as ApartmentStatus[];
+  }
+  if (filterValues.listingType) {
+    apiFilters.listingType = filterValues.listingType as ListingType;
+  }
+  if (filterValues.listingType === 'RENT') {
+    if (filterValues.rentPeriods.length > 0) {
+      apiFilters.rentPeriods = filterValues.rentPeriods as RentPeriod[];
+    }
+    if (filterValues.maxDeposit) {
+      apiFilters.maxDeposit = Number(filterValues.maxDeposit);
+    }
+    if (filterValues.leaseMonths) {
+      apiFilters.leaseMonths = Number(filterValues.leaseMonths);
+    }
+  }
+  if (filterValues.furnished) {
+    apiFilters.furnished = filterValues.furnished === 'true';
+  }
+  if (filterValues.availableBy) {
+    apiFilters.availableBy = filterValues.availableBy;
+  }
+  if (filterValues.listingType !== 'RENT') {
+    if (filterValues.maxDownPayment) {
+      apiFilters.maxDownPayment = Number(filterValues.maxDownPayment);
+    }
+    if (filterValues.maxMonthlyInstallment) {
+      apiFilters.maxMonthlyInstallment = Number(filterValues.maxMonthlyInstallment);
+    }
+  }
+  if (filterValues.amenities.length > 0) {
+    apiFilters.amenities = filterValues.amenities;
   }
 
   return apiFilters;
@@ -100,6 +217,19 @@ const countActiveFilters = (filters: FilterValues): number => {
   count += filters.bedrooms.length;
   count += filters.bathrooms.length;
   count += filters.status.length;
+  if (filters.listingType) count++;
+  if (filters.listingType === 'RENT') {
+    count += filters.rentPeriods.length;
+    if (filters.maxDeposit.trim()) count++;
+    if (filters.leaseMonths.trim()) count++;
+  }
+  if (filters.furnished) count++;
+  if (filters.availableBy) count++;
+  if (filters.listingType !== 'RENT') {
+    if (filters.maxDownPayment.trim()) count++;
+    if (filters.maxMonthlyInstallment.trim()) count++;
+  }
+  count += filters.amenities.length;
   return count;
 };
 
@@ -139,17 +269,56 @@ const getFilterSummary = (filters: FilterValues, cities: City[], projects: Proje
   }
   
   if (filters.bedrooms.length > 0) {
-    activeFilters.push(`Bedrooms: ${filters.bedrooms.join(', ')}`);
+    const bedrooms = filters.bedrooms.map(value => Number(value) === BEDROOMS_OR_MORE ? `${value}+` : value);
+    activeFilters.push(`Bedrooms: ${bedrooms.join(', ')}`);
   }
   
   if (filters.bathrooms.length > 0) {
-    activeFilters.push(`Bathrooms: ${filters.bathrooms.join(', ')}`);
+    const bathrooms = filters.bathrooms.map(value => Number(value) === BATHROOMS_OR_MORE ? `${value}+` : value);
+    activeFilters.push(`Bathrooms: ${bathrooms.join(', ')}`);
   }
   
   if (filters.status.length > 0) {
     activeFilters.push(`Status: ${filters.status.join(', ')}`);
   }
 
+  if (filters.listingType) {
+    activeFilters.push(filters.listingType === 'RENT' ? 'For rent' : 'For sale');
+  }
+
+  if (filters.listingType === 'RENT') {
+    if (filters.rentPeriods.length > 0) {
+      activeFilters.push(`Rent: ${filters.rentPeriods.map(formatEnumLabel).join(', ')}`);
+    }
+    if (filters.maxDeposit) {
+      activeFilters.push(`Deposit up to ${formatPrice(Number(filters.maxDeposit))}`);
+    }
+    if (filters.leaseMonths) {
+      activeFilters.push(`Lease: ${filters.leaseMonths} months`);
+    }
+  }
+
+  if (filters.furnished) {
+    activeFilters.push(filters.furnished === 'true' ? 'Furnished' : 'Unfurnished');
+  }
+
+  if (filters.availableBy) {
+    activeFilters.push(`Available by ${filters.availableBy}`);
+  }
+
+  if (filters.listingType !== 'RENT') {
+    if (filters.maxDownPayment) {
+      activeFilters.push(`Down payment up to ${formatPrice(Number(filters.maxDownPayment))}`);
+    }
+    if (filters.maxMonthlyInstallment) {
+      activeFilters.push(`Installments up to ${formatPrice(Number(filters.maxMonthlyInstallment))} / month`);
+    }
+  }
+
+  if (filters.amenities.length > 0) {
+    activeFilters.push(`Amenities: ${filters.amenities.join(', ')}`);
+  }
+
   return activeFilters;
 };
 
@@ -160,6 +329,7 @@ interface FilterSectionProps {
   handleArrayChange: (field: keyof FilterValues, value: string[]) => void;
   handleApply: () => void;
   isMobile: boolean;
+  facets?: ApartmentFacets | null;
 }
 
 const SearchSection: React.FC<FilterSectionProps> = ({ filters, handleChange, handleApply, isMobile }) => (
@@ -200,22 +370,25 @@ const LocationFilters: React.FC<LocationFiltersProps> = ({
   projects, 
   isLoadingCities, 
   isLoadingProjects, 
-  isMobile 
+  isMobile,
+  facets
 }) => {
   const getCityOptions = (): MultiSelectOption[] => {
-    return cities.map(city => ({
+    const options = cities.map(city => ({
       value: city.id,
       label: `${city.name}, ${city.country}`,
       description: city.country
     }));
+    return withFacetCounts(options, facets ? toCountMap(facets.cities) : undefined, filters.cityId);
   };
 
   const getProjectOptions = (): MultiSelectOption[] => {
-    return projects.map(project => ({
+    const options = projects.map(project => ({
       value: project.id,
       label: project.name,
       description: project.city?.name
     }));
+    return withFacetCounts(options, facets ? toCountMap(facets.projects) : undefined, filters.projectId);
   };
 
   return (
@@ -258,14 +431,18 @@ const LocationFilters: React.FC<LocationFiltersProps> = ({
   );
 };
 
-const StatusFilters: React.FC<FilterSectionProps> = ({ filters, handleArrayChange, isMobile }) => (
+const StatusFilters: React.FC<FilterSectionProps & { scope?: ApartmentScope }> = ({ filters, handleArrayChange, isMobile, facets, scope }) => (
   <div className="space-y-2">
     <Label htmlFor="status" className="text-sm font-medium flex items-center gap-3">
       Status
       <InfoTooltip content="Filter by apartment availability status" />
     </Label>
     <MultiSelect
-      options={getMultiSelectOptions.status()}
+      options={withFacetCounts(
+        getMultiSelectOptions.status(scope),
+        facets ? toCountMap(facets.statuses) : undefined,
+        filters.status
+      )}
       value={filters.status}
       onChange={(value) => handleArrayChange('status', value)}
       placeholder="Any status"
@@ -276,6 +453,128 @@ const StatusFilters: React.FC<FilterSectionProps> = ({ filters, handleArrayChang
   </div>
 );
 
+// Radix selects cannot hold an empty value, so "any" stands for no filter
+const ANY = 'any';
+
+const ListingTypeFilters: React.FC<FilterSectionProps> = ({ filters, handleChange, handleArrayChange, isMobile, facets }) => {
+  const listingTypeCounts = facets ? toCountMap(facets.listingTypes) : undefined;
+  const withCount = (label: string, value: ListingType) =>
+    listingTypeCounts ? `${label} (${listingTypeCounts.get(value) ?? 0})` : label;
+  const inputClassName = cn(
+    "border-border/40 focus:border-primary/50",
+    isMobile ? "h-12" : "h-11"
+  );
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="listingType" className="text-sm font-medium flex items-center gap-3">
+          Listing Type
+          <InfoTooltip content="Units for sale or for rent; rentals can be narrowed down by their terms" />
+        </Label>
+        <Select
+          value={filters.listingType || ANY}
+          onValueChange={(value) => handleChange('listingType', value === ANY ? '' : value)}
+        >
+          <SelectTrigger id="listingType" className={isMobile ? "h-12" : "h-11"}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Sale or rent</SelectItem>
+            <SelectItem value="SALE">{withCount('For sale', 'SALE')}</SelectItem>
+            <SelectItem value="RENT">{withCount('For rent', 'RENT')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="furnished" className="text-sm font-medium flex items-center gap-3">
+          Furnishing
+        </Label>
+        <Select
+          value={filters.furnished || ANY}
+          onValueChange={(value) => handleChange('furnished', value === ANY ? '' : value)}
+        >
+          <SelectTrigger id="furnished" className={isMobile ? "h-12" : "h-11"}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            <SelectItem value="true">Furnished</SelectItem>
+            <SelectItem value="false">Unfurnished</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="availableBy" className="text-sm font-medium flex items-center gap-3">
+          Available By
+          <InfoTooltip content="Only units you can move into on or before this date" />
+        </Label>
+        <Input
+          id="availableBy"
+          type="date"
+          value={filters.availableBy}
+          onChange={(e) => handleChange('availableBy', e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      {filters.listingType === 'RENT' && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="rentPeriods" className="text-sm font-medium flex items-center gap-3">
+              Rent Period
+              <InfoTooltip content="How often the rent is charged" />
+            </Label>
+            <MultiSelect
+              options={getMultiSelectOptions.rentPeriods()}
+              value={filters.rentPeriods}
+              onChange={(value) => handleArrayChange('rentPeriods', value)}
+              placeholder="Any period"
+              searchPlaceholder="Search periods..."
+              emptyText="No periods found"
+              className={isMobile ? "h-12" : "h-11"}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="maxDeposit" className="text-sm font-medium flex items-center gap-3">
+              Max Deposit
+              <InfoTooltip content="Highest security deposit in Egyptian Pounds (EGP)" />
+            </Label>
+            <Input
+              id="maxDeposit"
+              type="number"
+              placeholder="50,000"
+              value={filters.maxDeposit}
+              onChange={(e) => handleChange('maxDeposit', e.target.value)}
+              min="0"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="leaseMonths" className="text-sm font-medium flex items-center gap-3">
+              Lease Length
+              <InfoTooltip content="How many months you want to rent for; listings asking for a longer minimum lease are hidden" />
+            </Label>
+            <Input
+              id="leaseMonths"
+              type="number"
+              placeholder="12"
+              value={filters.leaseMonths}
+              onChange={(e) => handleChange('leaseMonths', e.target.value)}
+              min="1"
+              className={inputClassName}
+            />
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
 const PriceRangeFilters: React.FC<FilterSectionProps> = ({ filters, handleChange, isMobile }) => (
   <>
     <div className="space-y-2">
@@ -318,6 +617,52 @@ const PriceRangeFilters: React.FC<FilterSectionProps> = ({ filters, handleChange
   </>
 );
 
+// Developer payment plans only come with sales, so these are hidden when looking for rentals
+const PaymentPlanFilters: React.FC<FilterSectionProps> = ({ filters, handleChange, isMobile }) => {
+  if (filters.listingType === 'RENT') return null;
+
+  const inputClassName = cn(
+    "border-border/40 focus:border-primary/50",
+    isMobile ? "h-12" : "h-11"
+  );
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="maxDownPayment" className="text-sm font-medium flex items-center gap-3">
+          Max Down Payment
+          <InfoTooltip content="Units with a payment plan whose down payment is at most this amount (EGP)" />
+        </Label>
+        <Input
+          id="maxDownPayment"
+          type="number"
+          placeholder="500,000"
+          value={filters.maxDownPayment}
+          onChange={(e) => handleChange('maxDownPayment', e.target.value)}
+          min="0"
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="maxMonthlyInstallment" className="text-sm font-medium flex items-center gap-3">
+          Max Monthly Installment
+          <InfoTooltip content="Units with a payment plan costing at most this much per month (EGP); quarterly and yearly installments are spread over their months. With a down payment limit, one plan must meet both" />
+        </Label>
+        <Input
+          id="maxMonthlyInstallment"
+          type="number"
+          placeholder="40,000"
+          value={filters.maxMonthlyInstallment}
+          onChange={(e) => handleChange('maxMonthlyInstallment', e.target.value)}
+          min="0"
+          className={inputClassName}
+        />
+      </div>
+    </>
+  );
+};
+
 const AreaRangeFilters: React.FC<FilterSectionProps> = ({ filters, handleChange, isMobile }) => (
   <>
     <div className="space-y-2">
@@ -360,43 +705,104 @@ const AreaRangeFilters: React.FC<FilterSectionProps> = ({ filters, handleChange,
   </>
 );
 
-const RoomFilters: React.FC<FilterSectionProps> = ({ filters, handleArrayChange, isMobile }) => (
-  <>
-    <div className="space-y-2">
-      <Label htmlFor="bedrooms" className="text-sm font-medium flex items-center gap-3">
-        Bedrooms
-        <InfoTooltip content="Number of bedrooms" />
-      </Label>
-      <MultiSelect
-        options={getMultiSelectOptions.bedrooms()}
-        value={filters.bedrooms}
-        onChange={(value) => handleArrayChange('bedrooms', value)}
-        placeholder="Any"
-        searchPlaceholder="Search bedrooms..."
-        emptyText="No options found"
-        className={isMobile ? "h-12" : "h-11"}
-      />
-    </div>
+const RoomFilters: React.FC<FilterSectionProps> = ({ filters, handleArrayChange, isMobile, facets }) => {
+  const bedroomOptions = getMultiSelectOptions.bedrooms();
+  const bathroomOptions = getMultiSelectOptions.bathrooms();
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="bedrooms" className="text-sm font-medium flex items-center gap-3">
+          Bedrooms
+          <InfoTooltip content="Number of bedrooms" />
+        </Label>
+        <MultiSelect
+          options={withFacetCounts(
+            bedroomOptions,
+            facets ? toRoomCountMap(facets.bedrooms, BEDROOMS_OR_MORE) : undefined,
+            filters.bedrooms
+          )}
+          value={filters.bedrooms}
+          onChange={(value) => handleArrayChange('bedrooms', value)}
+          placeholder="Any"
+          searchPlaceholder="Search bedrooms..."
+          emptyText="No options found"
+          className={isMobile ? "h-12" : "h-11"}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="bathrooms" className="text-sm font-medium flex items-center gap-3">
+          Bathrooms
+          <InfoTooltip content="Number of bathrooms" />
+        </Label>
+        <MultiSelect
+          options={withFacetCounts(
+            bathroomOptions,
+            facets ? toRoomCountMap(facets.bathrooms, BATHROOMS_OR_MORE) : undefined,
+            filters.bathrooms
+          )}
+          value={filters.bathrooms}
+          onChange={(value) => handleArrayChange('bathrooms', value)}
+          placeholder="Any"
+          searchPlaceholder="Search bathrooms..."
+          emptyText="No options found"
+          className={isMobile ? "h-12" : "h-11"}
+        />
+      </div>
+    </>
+  );
+};
+
+interface AmenityFiltersProps extends FilterSectionProps {
+  amenities: AmenityCount[];
+  isLoadingAmenities: boolean;
+}
+
+const AmenityFilters: React.FC<AmenityFiltersProps> = ({ 
+  filters, 
+  handleArrayChange, 
+  amenities, 
+  isLoadingAmenities, 
+  isMobile, 
+  facets 
+}) => {
+  const getAmenityOptions = (): MultiSelectOption[] => {
+    // Overall counts until the facets for the current filters arrive
+    const options = amenities.map(({ amenity, count }) => ({ value: amenity, label: amenity, count }));
+    if (!facets) {
+      return options;
+    }
 
+    const counts = toAmenityCountMap(facets.amenities);
+    return withFacetCounts(
+      options,
+      new Map(options.map(option => [option.value, counts.get(option.value.toLowerCase()) ?? 0])),
+      filters.amenities
+    );
+  };
+
+  return (
     <div className="space-y-2">
-      <Label htmlFor="bathrooms" className="text-sm font-medium flex items-center gap-3">
-        Bathrooms
-        <InfoTooltip content="Number of bathrooms" />
+      <Label htmlFor="amenities" className="text-sm font-medium flex items-center gap-3">
+        Amenities
+        <InfoTooltip content="Only show apartments that have all of the selected amenities" />
       </Label>
       <MultiSelect
-        options={getMultiSelectOptions.bathrooms()}
-        value={filters.bathrooms}
-        onChange={(value) => handleArrayChange('bathrooms', value)}
-        placeholder="Any"
-        searchPlaceholder="Search bathrooms..."
-        emptyText="No options found"
+        options={getAmenityOptions()}
+        value={filters.amenities}
+        onChange={(value) => handleArrayChange('amenities', value)}
+        placeholder="Any amenities"
+        searchPlaceholder="Search amenities..."
+        emptyText="No amenities found"
+        loading={isLoadingAmenities}
         className={isMobile ? "h-12" : "h-11"}
       />
     </div>
-  </>
-);
+  );
+};
 
-export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onFilterChange }) => {
+export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ scope, onFilterChange }) => {
   const [filters, setFilters] = useState<FilterValues>({
     search: '',
     cityId: [],
@@ -408,6 +814,15 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
     bedrooms: [],
     bathrooms: [],
     status: [],
+    listingType: '',
+    rentPeriods: [],
+    furnished: '',
+    maxDeposit: '',
+    leaseMonths: '',
+    availableBy: '',
+    maxDownPayment: '',
+    maxMonthlyInstallment: '',
+    amenities: [],
   });
 
   const [isOpen, setIsOpen] = useState(false);
@@ -415,6 +830,9 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
   const [projects, setProjects] = useState<Project[]>([]);
   const [isLoadingCities, setIsLoadingCities] = useState(false);
   const [isLoadingProjects, setIsLoadingProjects] = useState(false);
+  const [amenities, setAmenities] = useState<AmenityCount[]>([]);
+  const [isLoadingAmenities, setIsLoadingAmenities] = useState(false);
+  const [facets, setFacets] = useState<ApartmentFacets | null>(null);
   const isMobile = useIsMobile();
 
   // Debounced search handler for better UX
@@ -422,9 +840,10 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
     onFilterChange(newFilters);
   }, 300);
 
-  // Fetch cities on component mount
+  // Fetch cities and amenities on component mount
   useEffect(() => {
     fetchCities();
+    fetchAmenities();
   }, []);
 
   const fetchCities = async () => {
@@ -439,6 +858,18 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
     }
   };
 
+  const fetchAmenities = async () => {
+    setIsLoadingAmenities(true);
+    try {
+      const response = await amenitiesApi.getAll({ limit: 200 });
+      setAmenities(response || []);
+    } catch (error) {
+      console.error('Failed to fetch amenities:', error);
+    } finally {
+      setIsLoadingAmenities(false);
+    }
+  };
+
   const fetchProjectsForCities = async (cityIds: string[]) => {
     setIsLoadingProjects(true);
     try {
@@ -469,6 +900,30 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
     }
   }, [filters.cityId, filters.projectId.length]);
 
+  // Refresh the option counts while the panel is open, as the filters are edited
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await apartmentApi.getFacets({ ...buildApiFilters(filters), scope });
+        if (!cancelled) {
+          setFacets(response.data);
+        }
+      } catch (error) {
+        console.error('Failed to fetch filter counts:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [filters, isOpen, scope]);
+
   const handleChange = (field: keyof FilterValues, value: string) => {
     const newFilters = { ...filters, [field]: value };
     setFilters(newFilters);
@@ -502,6 +957,15 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
       bedrooms: [],
       bathrooms: [],
       status: [],
+      listingType: '',
+      rentPeriods: [],
+      furnished: '',
+      maxDeposit: '',
+      leaseMonths: '',
+      availableBy: '',
+      maxDownPayment: '',
+      maxMonthlyInstallment: '',
+      amenities: [],
     };
     setFilters(resetFilters);
     onFilterChange({});
@@ -590,6 +1054,7 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
                 isLoadingCities={isLoadingCities}
                 isLoadingProjects={isLoadingProjects}
                 isMobile={isMobile}
+                facets={facets}
               />
 
               <StatusFilters 
@@ -598,6 +1063,17 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
                 handleArrayChange={handleArrayChange}
                 handleApply={handleApply}
                 isMobile={isMobile}
+                facets={facets}
+                scope={scope}
+              />
+
+              <ListingTypeFilters 
+                filters={filters}
+                handleChange={handleChange}
+                handleArrayChange={handleArrayChange}
+                handleApply={handleApply}
+                isMobile={isMobile}
+                facets={facets}
               />
 
               <PriceRangeFilters 
@@ -608,6 +1084,14 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
                 isMobile={isMobile}
               />
 
+              <PaymentPlanFilters 
+                filters={filters}
+                handleChange={handleChange}
+                handleArrayChange={handleArrayChange}
+                handleApply={handleApply}
+                isMobile={isMobile}
+              />
+
               <AreaRangeFilters 
                 filters={filters}
                 handleChange={handleChange}
@@ -622,6 +1106,18 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
                 handleArrayChange={handleArrayChange}
                 handleApply={handleApply}
                 isMobile={isMobile}
+                facets={facets}
+              />
+
+              <AmenityFilters 
+                filters={filters}
+                handleChange={handleChange}
+                handleArrayChange={handleArrayChange}
+                handleApply={handleApply}
+                amenities={amenities}
+                isLoadingAmenities={isLoadingAmenities}
+                isMobile={isMobile}
+                facets={facets}
               />
             </div>
 
@@ -677,7 +1173,7 @@ export const ApartmentFiltersComponent: React.FC<ApartmentFiltersProps> = ({ onF
                   isMobile ? "w-full h-12" : "flex-1 h-11"
                 )}
               >
-                Apply Filters
+                {facets ? `Show ${facets.total} result${facets.total === 1 ? '' : 's'}` : 'Apply Filters'}
               </Button>
               <Button 
                 onClick={handleReset} 
@@ -8,14 +8,19 @@ import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { useTheme } from 'next-themes';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { Moon, Sun, Home, PlusCircle, MessageSquare, Heart, LogOut, Menu, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { authApi } from '@/services/api';
+import { Moon, Sun, Home, PlusCircle, MessageSquare, Heart, LogOut, MonitorOff, KeyRound, MailWarning, ShieldAlert, ShieldCheck, Eye, Menu, X } from 'lucide-react';
 
 export const Header = () => {
-  const { isAuthenticated, isAdmin, logout, user } = useAuth();
+  const { isAuthenticated, hasPermission, logout, logoutAllDevices, stopImpersonating, user } = useAuth();
   const { theme, setTheme } = useTheme();
   const router = useRouter();
   const isMobile = useIsMobile();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [isExitingImpersonation, setIsExitingImpersonation] = useState(false);
+  const { toast } = useToast();
 
   const handleLogout = () => {
     logout();
@@ -23,14 +28,55 @@ export const Header = () => {
     setIsMenuOpen(false);
   };
 
+  const handleLogoutAllDevices = async () => {
+    await logoutAllDevices();
+    router.push('/login');
+    setIsMenuOpen(false);
+  };
+
+  const handleStopImpersonating = async () => {
+    setIsExitingImpersonation(true);
+    try {
+      await stopImpersonating();
+      router.push('/');
+    } finally {
+      setIsExitingImpersonation(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setIsResending(true);
+    try {
+      await authApi.resendVerification();
+      toast({
+        title: 'Verification email sent',
+        description: `Check your inbox at ${user?.email}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not send email',
+        description: error instanceof Error ? error.message : 'Please try again later',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   const closeMenu = () => setIsMenuOpen(false);
 
+  // An admin is viewing the app as this user; account banners are theirs, not the admin's
+  const isImpersonating = isAuthenticated && !!user?.impersonator;
+
+  // Two-factor authentication is offered to agents and admins
+  const canUseTwoFactor = user?.role === 'AGENT' || user?.role === 'ADMIN';
+
   // Navigation items
   const navigationItems = isAuthenticated ? [
     { href: '/', icon: Home, label: 'Browse', show: true },
-    { href: '/sell/new', icon: PlusCircle, label: 'Add Listing', show: isAdmin },
+    { href: '/sell/new', icon: PlusCircle, label: 'Add Listing', show: hasPermission('listing:create') },
     { href: '/messages', icon: MessageSquare, label: 'Messages', show: true },
-    { href: '/watchlist', icon: Heart, label: 'Watchlist', show: !isAdmin },
+    { href: '/watchlist', icon: Heart, label: 'Watchlist', show: hasPermission('watchlist:use') },
   ].filter(item => item.show) : [];
 
   const renderNavigationItems = (onItemClick?: () => void) => (
@@ -52,6 +98,28 @@ export const Header = () => {
 
   return (
     <header className="sticky top-0 z-50 border-b border-border bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/60">
+      {/* Impersonation bar */}
+      {isImpersonating && (
+        <div className="border-b border-border bg-violet-600 text-white">
+          <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2">
+              <Eye className="w-4 h-4 shrink-0" />
+              <span>
+                Viewing as <strong>{user?.name}</strong> ({user?.email}) &mdash; read-only, signed in as {user?.impersonator?.name}
+              </span>
+            </div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleStopImpersonating}
+              disabled={isExitingImpersonation}
+            >
+              {isExitingImpersonation ? 'Exiting...' : 'Exit'}
+            </Button>
+          </div>
+        </div>
+      )}
+
       <div className="container mx-auto px-4 py-3 sm:py-4">
         <div className="flex items-center justify-between">
           {/* Logo */}
@@ -83,7 +151,22 @@ export const Header = () => {
                   <span className="text-sm text-muted-foreground hidden lg:inline">
                     {user?.name} ({user?.role})
                   </span>
-                  <Button variant="ghost" size="sm" onClick={handleLogout}>
+                  {canUseTwoFactor && (
+                    <Link href="/security">
+                      <Button variant="ghost" size="sm" title="Two-factor authentication">
+                        <ShieldCheck className="w-4 h-4" />
+                      </Button>
+                    </Link>
+                  )}
+                  <Link href="/change-password">
+                    <Button variant="ghost" size="sm" title="Change password">
+                      <KeyRound className="w-4 h-4" />
+                    </Button>
+                  </Link>
+                  <Button variant="ghost" size="sm" onClick={handleLogoutAllDevices} title="Sign out of all devices">
+                    <MonitorOff className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={handleLogout} title="Sign out">
                     <LogOut className="w-4 h-4" />
                   </Button>
                 </div>
@@ -140,8 +223,30 @@ export const Header = () => {
                         </div>
                       </div>
 
-                      {/* Logout Button */}
-                      <div className="p-4 border-t">
+                      {/* Logout Buttons */}
+                      <div className="p-4 border-t space-y-2">
+                        {canUseTwoFactor && (
+                          <Link href="/security" onClick={closeMenu}>
+                            <Button variant="outline" className="w-full justify-start">
+                              <ShieldCheck className="w-4 h-4 mr-3" />
+                              Two-Factor Authentication
+                            </Button>
+                          </Link>
+                        )}
+                        <Link href="/change-password" onClick={closeMenu}>
+                          <Button variant="outline" className="w-full justify-start">
+                            <KeyRound className="w-4 h-4 mr-3" />
+                            Change Password
+                          </Button>
+                        </Link>
+                        <Button
+                          variant="outline"
+                          onClick={handleLogoutAllDevices}
+                          className="w-full justify-start"
+                        >
+                          <MonitorOff className="w-4 h-4 mr-3" />
+                          Sign Out of All Devices
+                        </Button>
                         <Button
                           variant="destructive"
                           onClick={handleLogout}
@@ -159,6 +264,43 @@ export const Header = () => {
           )}
         </div>
       </div>
+
+      {/* Two-factor enrollment banner */}
+      {isAuthenticated && !isImpersonating && user?.twoFactorRequired && (
+        <div className="border-t border-border bg-red-50 dark:bg-red-950/40">
+          <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 text-red-900 dark:text-red-200">
+              <ShieldAlert className="w-4 h-4 shrink-0" />
+              <span>Your role requires two-factor authentication. Set it up to continue using Nawy.</span>
+            </div>
+            <Link href="/security">
+              <Button variant="outline" size="sm">Set Up Now</Button>
+            </Link>
+          </div>
+        </div>
+      )}
+
+      {/* Email verification banner */}
+      {isAuthenticated && !isImpersonating && user && !user.isVerified && (
+        <div className="border-t border-border bg-amber-50 dark:bg-amber-950/40">
+          <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 text-amber-900 dark:text-amber-200">
+              <MailWarning className="w-4 h-4 shrink-0" />
+              <span>
+                Verify your email to list apartments, message owners and book visits. We sent a link to {user.email}.
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleResendVerification}
+              disabled={isResending}
+            >
+              {isResending ? 'Sending...' : 'Resend Email'}
+            </Button>
+          </div>
+        </div>
+      )}
     </header>
   );
 };
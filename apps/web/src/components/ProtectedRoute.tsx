@@ -4,14 +4,17 @@ import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { LoadingScreen } from '@/components/ui/loading-screen';
+import type { Permission } from '@/services/api';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  adminOnly?: boolean;
+  // Send users whose role lacks this permission back to the home page
+  permission?: Permission;
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminOnly = false }) => {
-  const { isAuthenticated, isAdmin, isLoading } = useAuth();
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { isAuthenticated, hasPermission, isLoading } = useAuth();
+  const isAllowed = !permission || hasPermission(permission);
   const router = useRouter();
   const [isRedirecting, setIsRedirecting] = useState(false);
 
@@ -20,12 +23,12 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminO
       if (!isAuthenticated) {
         setIsRedirecting(true);
         router.push('/login');
-      } else if (adminOnly && !isAdmin) {
+      } else if (!isAllowed) {
         setIsRedirecting(true);
         router.push('/');
       }
     }
-  }, [isAuthenticated, isAdmin, adminOnly, isLoading, router]);
+  }, [isAuthenticated, isAllowed, isLoading, router]);
 
   if (isLoading) {
     return null;
@@ -39,7 +42,7 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, adminO
     return <LoadingScreen message="Redirecting to login..." />;
   }
 
-  if (adminOnly && !isAdmin) {
+  if (!isAllowed) {
     return <LoadingScreen message="Access denied. Redirecting..." />;
   }
 
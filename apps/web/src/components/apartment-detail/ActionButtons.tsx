@@ -2,34 +2,69 @@
 
 import { MessageCircle, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import type { ListingAction } from '@/services/api';
+
+// Lifecycle steps the lister can take from the listing page
+export type ListingPageAction = Extract<ListingAction, 'submit' | 'renew'>;
+
+const LISTING_ACTION_LABELS: Record<ListingPageAction, { label: string; pending: string }> = {
+  submit: { label: 'Submit for Review', pending: 'Submitting...' },
+  renew: { label: 'Renew Listing', pending: 'Renewing...' }
+};
 
 interface ActionButtonsProps {
-  isAdmin: boolean;
+  // Listers and moderators manage the listing instead of contacting the seller
+  canEdit: boolean;
   canContact: boolean;
   isSendingMessage: boolean;
   onSendMessage: () => void;
   onEdit?: () => void;
+  // Drafts can be sent to the moderation queue, and expiring listings renewed, from here
+  listingAction?: ListingPageAction | null;
+  isApplyingListingAction?: boolean;
+  onListingAction?: () => void;
   className?: string;
 }
 
 export const ActionButtons: React.FC<ActionButtonsProps> = ({
-  isAdmin,
+  canEdit,
   canContact,
   isSendingMessage,
   onSendMessage,
   onEdit,
+  listingAction,
+  isApplyingListingAction,
+  onListingAction,
   className
 }) => {
-  if (isAdmin) {
+  if (canEdit) {
     return (
       <div className={className}>
-        <Button 
-          className="w-full" 
-          variant="outline"
-          onClick={onEdit}
-        >
-          Edit Listing
-        </Button>
+        <div className="space-y-3">
+          {listingAction && (
+            <Button
+              className="w-full"
+              onClick={onListingAction}
+              disabled={isApplyingListingAction}
+            >
+              {isApplyingListingAction ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {LISTING_ACTION_LABELS[listingAction].pending}
+                </>
+              ) : (
+                LISTING_ACTION_LABELS[listingAction].label
+              )}
+            </Button>
+          )}
+          <Button 
+            className="w-full" 
+            variant="outline"
+            onClick={onEdit}
+          >
+            Edit Listing
+          </Button>
+        </div>
       </div>
     );
   }
@@ -1,14 +1,16 @@
 'use client';
 
-import { Home, MapPin, Heart } from 'lucide-react';
+import { Home, MapPin, Heart, TrendingDown } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Apartment } from '@/services/api';
+import { Apartment, ApartmentPriceChange } from '@/services/api';
 import { PropertyDetails } from './PropertyDetails';
-import { formatPrice } from '@/lib/utils';
+import { PriceHistoryChart } from './PriceHistoryChart';
+import { formatEnumLabel, formatPrice } from '@/lib/utils';
 
 interface ApartmentInfoProps {
   apartment: Apartment;
+  priceHistory: ApartmentPriceChange[];
   isInWatchlist: boolean;
   canToggleWatchlist: boolean;
   onToggleWatchlist: () => void;
@@ -17,6 +19,7 @@ interface ApartmentInfoProps {
 
 export const ApartmentInfo: React.FC<ApartmentInfoProps> = ({
   apartment,
+  priceHistory,
   isInWatchlist,
   canToggleWatchlist,
   onToggleWatchlist,
@@ -61,10 +64,10 @@ export const ApartmentInfo: React.FC<ApartmentInfoProps> = ({
           </Badge>
         )}
         <Badge 
-          variant={apartment.status === 'ACTIVE' ? 'default' : 'secondary'} 
+          variant={apartment.status === 'PUBLISHED' ? 'default' : 'secondary'} 
           className="text-sm px-3 py-1"
         >
-          {apartment.status}
+          {formatEnumLabel(apartment.status)}
         </Badge>
       </div>
 
@@ -72,8 +75,15 @@ export const ApartmentInfo: React.FC<ApartmentInfoProps> = ({
       {apartment.priceEgp && (
         <div className="mb-6">
           <p className="text-4xl font-bold text-primary">
-            {formatPrice(apartment.priceEgp)}
+            {formatPrice(apartment.priceEgp, 'EGP', 'en-US', apartment.listingType === 'RENT' ? apartment.rentPeriod : null)}
           </p>
+          {apartment.priceDropPercent && apartment.priceDroppedAt && (
+            <p className="flex items-center text-sm font-medium text-green-600 mt-1">
+              <TrendingDown className="w-4 h-4 mr-1" />
+              Price dropped {Number(apartment.priceDropPercent)}% on {new Date(apartment.priceDroppedAt).toLocaleDateString()}
+            </p>
+          )}
+          <PriceHistoryChart priceHistory={priceHistory} className="mt-4" />
         </div>
       )}
 
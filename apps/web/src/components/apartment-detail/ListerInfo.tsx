@@ -1,7 +1,12 @@
 'use client';
 
-import { User, Mail, Phone } from 'lucide-react';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { User, Mail, Phone, Eye } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
 import { Apartment } from '@/services/api';
 
 interface ListerInfoProps {
@@ -10,9 +15,31 @@ interface ListerInfoProps {
 }
 
 export const ListerInfo: React.FC<ListerInfoProps> = ({ apartment, className }) => {
+  const { user, hasPermission, impersonate } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSwitching, setIsSwitching] = useState(false);
+
   if (!apartment.lister) return null;
 
   const { lister } = apartment;
+  // Support staff can open the app as the lister to see what they see
+  const canViewAs = hasPermission('user:impersonate') && !user?.impersonator && user?.id !== apartment.listerId;
+
+  const handleViewAs = async () => {
+    setIsSwitching(true);
+    try {
+      await impersonate(apartment.listerId);
+      router.push('/messages');
+    } catch (error) {
+      toast({
+        title: 'Could not view as this user',
+        description: error instanceof Error ? error.message : 'Please try again later',
+        variant: 'destructive',
+      });
+      setIsSwitching(false);
+    }
+  };
 
   return (
     <div className={className}>
@@ -45,6 +72,18 @@ export const ListerInfo: React.FC<ListerInfoProps> = ({ apartment, className })
                 </div>
               )}
             </div>
+            {canViewAs && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleViewAs}
+                disabled={isSwitching}
+                title="Open the app as this user (read-only)"
+              >
+                <Eye className="w-4 h-4 mr-2" />
+                {isSwitching ? 'Switching...' : 'View as'}
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,141 @@
+'use client';
+
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ApartmentPaymentPlan, PaymentSchedule } from '@/services/api';
+import { cn, formatEnumLabel, formatPrice } from '@/lib/utils';
+
+interface PaymentPlansProps {
+  paymentPlans: ApartmentPaymentPlan[];
+  selectedPlanId: string | null;
+  schedule: PaymentSchedule | null;
+  isLoadingSchedule: boolean;
+  onSelectPlan: (planId: string | null) => void;
+  className?: string;
+}
+
+// Plan dates are calendar dates, sent as midnight UTC
+const formatPlanDate = (date: string) => new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+// The developer's installment plans for the unit, with the full schedule of the selected one
+export const PaymentPlans: React.FC<PaymentPlansProps> = ({
+  paymentPlans,
+  selectedPlanId,
+  schedule,
+  isLoadingSchedule,
+  onSelectPlan,
+  className
+}) => {
+  if (paymentPlans.length === 0) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <CalendarClock className="w-5 h-5 text-primary" />
+          Payment plans
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {paymentPlans.map((plan) => {
+            const isSelected = plan.id === selectedPlanId;
+            return (
+              <div
+                key={plan.id}
+                className={cn(
+                  'rounded-lg border p-4 space-y-2',
+                  isSelected ? 'border-primary bg-primary/5' : 'border-border/40'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="font-semibold">{plan.name}</h3>
+                  {plan.apartmentId && <Badge variant="secondary">This unit</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {Number(plan.downPaymentPercent)}% down, {formatEnumLabel(plan.installmentFrequency)} installments
+                  over {plan.years} {plan.years === 1 ? 'year' : 'years'}
+                  {Number(plan.maintenanceFeePercent) > 0 && `, ${Number(plan.maintenanceFeePercent)}% maintenance`}
+                </p>
+                {plan.summary && (
+                  <div className="text-sm space-y-1">
+                    <div>
+                      <span className="text-muted-foreground">Down payment: </span>
+                      <span className="font-medium">{formatPrice(plan.summary.downPaymentEgp)}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Monthly: </span>
+                      <span className="font-medium">{formatPrice(plan.summary.monthlyInstallmentEgp)}</span>
+                    </div>
+                  </div>
+                )}
+                {plan.deliveryDate && (
+                  <p className="text-xs text-muted-foreground">Delivery {formatPlanDate(plan.deliveryDate)}</p>
+                )}
+                {plan.summary && (
+                  <Button
+                    variant={isSelected ? 'secondary' : 'outline'}
+                    size="sm"
+                    onClick={() => onSelectPlan(isSelected ? null : plan.id)}
+                  >
+                    {isSelected ? 'Hide schedule' : 'Show schedule'}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {selectedPlanId && isLoadingSchedule && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        )}
+
+        {selectedPlanId && !isLoadingSchedule && schedule?.planId === selectedPlanId && (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell>Down payment</TableCell>
+                  <TableCell>{formatPlanDate(schedule.downPayment.dueDate)}</TableCell>
+                  <TableCell className="text-right">{formatPrice(schedule.downPayment.amountEgp)}</TableCell>
+                </TableRow>
+                {schedule.installments.map((installment) => (
+                  <TableRow key={installment.number}>
+                    <TableCell>Installment {installment.number} of {schedule.installmentCount}</TableCell>
+                    <TableCell>{formatPlanDate(installment.dueDate)}</TableCell>
+                    <TableCell className="text-right">{formatPrice(installment.amountEgp)}</TableCell>
+                  </TableRow>
+                ))}
+                {schedule.maintenanceFee.amountEgp > 0 && (
+                  <TableRow>
+                    <TableCell>Maintenance fee</TableCell>
+                    <TableCell>
+                      {schedule.maintenanceFee.dueDate ? formatPlanDate(schedule.maintenanceFee.dueDate) : 'On delivery'}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPrice(schedule.maintenanceFee.amountEgp)}</TableCell>
+                  </TableRow>
+                )}
+                <TableRow className="font-semibold">
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatPrice(schedule.totalEgp)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
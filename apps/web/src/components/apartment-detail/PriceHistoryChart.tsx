@@ -0,0 +1,84 @@
+'use client';
+
+import { ApartmentPriceChange } from '@/services/api';
+import { formatPrice } from '@/lib/utils';
+
+interface PriceHistoryChartProps {
+  priceHistory: ApartmentPriceChange[];
+  className?: string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 80;
+const PADDING = 6;
+
+// A step line of the asking price over time, from the first price to today
+export const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({
+  priceHistory,
+  className
+}) => {
+  // Nothing to chart until the price has changed at least once
+  if (priceHistory.length < 2) return null;
+
+  const points = priceHistory.map((change) => ({
+    time: new Date(change.createdAt).getTime(),
+    price: Number(change.newPriceEgp),
+    change
+  }));
+  const now = Date.now();
+  const firstTime = points[0].time;
+  const prices = points.map((point) => point.price);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+
+  const x = (time: number) =>
+    PADDING + ((time - firstTime) / Math.max(now - firstTime, 1)) * (WIDTH - 2 * PADDING);
+  const y = (price: number) =>
+    maxPrice === minPrice
+      ? HEIGHT / 2
+      : PADDING + ((maxPrice - price) / (maxPrice - minPrice)) * (HEIGHT - 2 * PADDING);
+
+  // Each price holds until the next change, and the current one until today
+  const path = points
+    .map((point, index) => {
+      const next = points[index + 1]?.time ?? now;
+      return `${index === 0 ? 'M' : 'L'}${x(point.time)},${y(point.price)} L${x(next)},${y(point.price)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className={className}>
+      <h3 className="text-sm font-semibold mb-2">Price history</h3>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-20 text-primary"
+        role="img"
+        aria-label={`Price changed ${priceHistory.length - 1} times, from ${formatPrice(points[0].price)} to ${formatPrice(points[points.length - 1].price)}`}
+      >
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={2} />
+        {points.map((point) => (
+          <circle
+            key={point.change.id}
+            cx={x(point.time)}
+            cy={y(point.price)}
+            r={3}
+            className={point.change.dropPercent ? 'fill-green-600' : 'fill-current'}
+          >
+            <title>
+              {`${formatPrice(point.price)} on ${new Date(point.time).toLocaleDateString()}${
+                point.change.dropPercent ? ` (-${point.change.dropPercent}%)` : ''
+              }`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>{new Date(firstTime).toLocaleDateString()}</span>
+        <span>
+          {formatPrice(minPrice)} – {formatPrice(maxPrice)}
+        </span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+};
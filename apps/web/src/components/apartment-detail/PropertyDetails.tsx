@@ -1,7 +1,8 @@
 'use client';
 
-import { Bed, Bath, Square, Calendar } from 'lucide-react';
+import { Bed, Bath, Square, Calendar, CalendarCheck, CalendarClock, Sofa, Wallet } from 'lucide-react';
 import { Apartment } from '@/services/api';
+import { formatPrice } from '@/lib/utils';
 
 interface PropertyDetailsProps {
   apartment: Apartment;
@@ -33,6 +34,31 @@ export const PropertyDetails: React.FC<PropertyDetailsProps> = ({ apartment, cla
       label: 'Listed',
       value: apartment.createdAt ? new Date(apartment.createdAt).toLocaleDateString() : null,
       suffix: ''
+    },
+    {
+      icon: CalendarCheck,
+      label: 'Available from',
+      // A calendar date, sent as midnight UTC
+      value: apartment.availableFrom ? new Date(apartment.availableFrom).toLocaleDateString(undefined, { timeZone: 'UTC' }) : null,
+      suffix: ''
+    },
+    {
+      icon: Sofa,
+      label: 'Furnishing',
+      value: apartment.furnished ? 'Furnished' : null,
+      suffix: ''
+    },
+    {
+      icon: Wallet,
+      label: 'Deposit',
+      value: apartment.depositEgp ? formatPrice(apartment.depositEgp) : null,
+      suffix: 'deposit'
+    },
+    {
+      icon: CalendarClock,
+      label: 'Minimum lease',
+      value: apartment.minLeaseMonths,
+      suffix: apartment.minLeaseMonths === 1 ? 'month minimum' : 'months minimum'
     }
   ].filter(detail => detail.value !== null && detail.value !== undefined);
 
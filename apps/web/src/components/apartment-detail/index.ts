@@ -1,6 +1,8 @@
 export { ImageGallery } from './ImageGallery';
 export { ApartmentInfo } from './ApartmentInfo';
 export { PropertyDetails } from './PropertyDetails';
+export { PriceHistoryChart } from './PriceHistoryChart';
+export { PaymentPlans } from './PaymentPlans';
 export { ListerInfo } from './ListerInfo';
 export { ActionButtons } from './ActionButtons';
-export { RelatedApartments } from './RelatedApartments';
\ No newline at end of file
+export { RelatedApartments } from './RelatedApartments';export type { ListingPageAction } from './ActionButtons';
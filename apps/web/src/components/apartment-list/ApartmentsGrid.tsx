@@ -10,7 +10,7 @@ interface ApartmentsGridProps {
   apartments: Apartment[];
   isLoading: boolean;
   watchlist: string[];
-  isAdmin: boolean;
+  canUseWatchlist: boolean;
   onToggleWatchlist: (apartmentId: string) => void;
 }
 
@@ -18,7 +18,7 @@ export const ApartmentsGrid: React.FC<ApartmentsGridProps> = ({
   apartments,
   isLoading,
   watchlist,
-  isAdmin,
+  canUseWatchlist,
   onToggleWatchlist,
 }) => {
   const isMobile = useIsMobile();
@@ -41,7 +41,7 @@ export const ApartmentsGrid: React.FC<ApartmentsGridProps> = ({
           apartment={apartment}
           index={index}
           watchlist={watchlist}
-          isAdmin={isAdmin}
+          canUseWatchlist={canUseWatchlist}
           onToggleWatchlist={onToggleWatchlist}
           isMobile={isMobile}
         />
@@ -54,7 +54,7 @@ interface ApartmentGridItemProps {
   apartment: Apartment;
   index: number;
   watchlist: string[];
-  isAdmin: boolean;
+  canUseWatchlist: boolean;
   onToggleWatchlist: (apartmentId: string) => void;
   isMobile: boolean;
 }
@@ -63,13 +63,13 @@ const ApartmentGridItem: React.FC<ApartmentGridItemProps> = ({
   apartment,
   index,
   watchlist,
-  isAdmin,
+  canUseWatchlist,
   onToggleWatchlist,
   isMobile,
 }) => {
   const isInWatchlist = watchlist.includes(apartment.id);
   const shouldPrioritizeImage = index < 6; // Prioritize loading first 6 images
-  const watchlistHandler = isAdmin ? undefined : onToggleWatchlist;
+  const watchlistHandler = canUseWatchlist ? onToggleWatchlist : undefined;
 
   return (
     <div
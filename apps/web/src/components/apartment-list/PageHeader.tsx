@@ -1,15 +1,27 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
-import { RefreshCw, Search, SlidersHorizontal } from 'lucide-react';
+import { ArrowUpDown, RefreshCw, Search, SlidersHorizontal } from 'lucide-react';
 import { EnhancedTooltip } from '@/components/ui/enhanced-tooltip';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { ApartmentFilters, ApartmentScope, SortOrder } from '@/services/api';
 import { formatNumber, cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 
+type SortBy = ApartmentFilters['sortBy'];
+
 interface PageHeaderProps {
   totalFiltered: number;
   activeFiltersCount: number;
   isLoading: boolean;
+  sortBy?: SortBy;
+  sortOrder?: SortOrder;
+  isSearching: boolean;
+  onSortChange: (sortBy?: SortBy, sortOrder?: SortOrder) => void;
+  scope: ApartmentScope;
+  availableScopes: ApartmentScope[];
+  onScopeChange: (scope: ApartmentScope) => void;
   onRefresh: () => void;
 }
 
@@ -17,6 +29,13 @@ export const PageHeader: React.FC<PageHeaderProps> = ({
   totalFiltered,
   activeFiltersCount,
   isLoading,
+  sortBy,
+  sortOrder,
+  isSearching,
+  onSortChange,
+  scope,
+  availableScopes,
+  onScopeChange,
   onRefresh,
 }) => {
   const hasActiveFilters = activeFiltersCount > 0;
@@ -37,30 +56,63 @@ export const PageHeader: React.FC<PageHeaderProps> = ({
           <HeaderContent 
             totalFiltered={totalFiltered} 
             hasActiveFilters={hasActiveFilters}
+            scope={scope}
             isMobile={isMobile} 
           />
           <HeaderActions
             hasActiveFilters={hasActiveFilters}
             activeFiltersCount={activeFiltersCount}
             isLoading={isLoading}
+            sortBy={sortBy}
+            sortOrder={sortOrder}
+            isSearching={isSearching}
+            onSortChange={onSortChange}
             onRefresh={onRefresh}
             isMobile={isMobile}
           />
         </div>
+        {availableScopes.length > 1 && (
+          <ScopeTabs
+            scope={scope}
+            availableScopes={availableScopes}
+            onScopeChange={onScopeChange}
+            isMobile={isMobile}
+          />
+        )}
       </div>
     </div>
   );
 };
 
+const SCOPE_CONTENT: Record<ApartmentScope, { tab: string; title: string; subtitle: string }> = {
+  browse: {
+    tab: 'Browse',
+    title: 'Find Your Dream Apartment',
+    subtitle: 'Browse through our collection of premium apartments with advanced filters',
+  },
+  mine: {
+    tab: 'My listings',
+    title: 'My Listings',
+    subtitle: 'Every apartment you have listed, whatever its status',
+  },
+  all: {
+    tab: 'All listings',
+    title: 'All Listings',
+    subtitle: 'Every listing on the platform, including inactive and sold ones',
+  },
+};
+
 interface HeaderContentProps {
   totalFiltered: number;
   hasActiveFilters: boolean;
+  scope: ApartmentScope;
   isMobile: boolean;
 }
 
 const HeaderContent: React.FC<HeaderContentProps> = ({ 
   totalFiltered, 
   hasActiveFilters, 
+  scope,
   isMobile 
 }) => {
   return (
@@ -69,13 +121,13 @@ const HeaderContent: React.FC<HeaderContentProps> = ({
         "font-bold text-foreground leading-tight",
         isMobile ? "text-xl" : "text-2xl lg:text-3xl"
       )}>
-        Find Your Dream Apartment
+        {SCOPE_CONTENT[scope].title}
       </h1>
       <p className={cn(
         "text-muted-foreground max-w-2xl leading-relaxed",
         isMobile ? "text-sm" : "text-base"
       )}>
-        Browse through our collection of premium apartments with advanced filters
+        {SCOPE_CONTENT[scope].subtitle}
       </p>
       <ApartmentCountDisplay
         apartmentCount={totalFiltered}
@@ -129,10 +181,37 @@ const ApartmentCountDisplay: React.FC<ApartmentCountDisplayProps> = ({
   );
 };
 
+interface ScopeTabsProps {
+  scope: ApartmentScope;
+  availableScopes: ApartmentScope[];
+  onScopeChange: (scope: ApartmentScope) => void;
+  isMobile: boolean;
+}
+
+const ScopeTabs: React.FC<ScopeTabsProps> = ({ scope, availableScopes, onScopeChange, isMobile }) => (
+  <Tabs
+    value={scope}
+    onValueChange={(value) => onScopeChange(value as ApartmentScope)}
+    className={isMobile ? "mt-4" : "mt-6"}
+  >
+    <TabsList className={cn("bg-background/70", isMobile && "w-full")}>
+      {availableScopes.map(option => (
+        <TabsTrigger key={option} value={option} className={cn(isMobile && "flex-1")}>
+          {SCOPE_CONTENT[option].tab}
+        </TabsTrigger>
+      ))}
+    </TabsList>
+  </Tabs>
+);
+
 interface HeaderActionsProps {
   hasActiveFilters: boolean;
   activeFiltersCount: number;
   isLoading: boolean;
+  sortBy?: SortBy;
+  sortOrder?: SortOrder;
+  isSearching: boolean;
+  onSortChange: (sortBy?: SortBy, sortOrder?: SortOrder) => void;
   onRefresh: () => void;
   isMobile: boolean;
 }
@@ -141,6 +220,10 @@ const HeaderActions: React.FC<HeaderActionsProps> = ({
   hasActiveFilters,
   activeFiltersCount,
   isLoading,
+  sortBy,
+  sortOrder,
+  isSearching,
+  onSortChange,
   onRefresh,
   isMobile,
 }) => {
@@ -149,11 +232,75 @@ const HeaderActions: React.FC<HeaderActionsProps> = ({
       "flex gap-3",
       isMobile ? "flex-row" : "flex-row lg:flex-col lg:items-end lg:gap-2"
     )}>
+      <SortSelect
+        sortBy={sortBy}
+        sortOrder={sortOrder}
+        isSearching={isSearching}
+        onSortChange={onSortChange}
+        isMobile={isMobile}
+      />
       <RefreshButton isLoading={isLoading} onRefresh={onRefresh} isMobile={isMobile} />
     </div>
   );
 };
 
+// "default" leaves the order to the API: best match while searching, newest otherwise
+const SORT_OPTIONS: { value: string; label: string; sortBy?: SortBy; sortOrder?: SortOrder }[] = [
+  { value: 'default', label: 'Newest first' },
+  { value: 'newest:desc', label: 'Newest first', sortBy: 'newest', sortOrder: 'desc' },
+  { value: 'price:asc', label: 'Price: low to high', sortBy: 'price', sortOrder: 'asc' },
+  { value: 'price:desc', label: 'Price: high to low', sortBy: 'price', sortOrder: 'desc' },
+  { value: 'price-per-sqm:asc', label: 'Price per m²: lowest', sortBy: 'price-per-sqm', sortOrder: 'asc' },
+  { value: 'area:desc', label: 'Area: largest', sortBy: 'area', sortOrder: 'desc' },
+  { value: 'area:asc', label: 'Area: smallest', sortBy: 'area', sortOrder: 'asc' },
+  { value: 'bedrooms:desc', label: 'Most bedrooms', sortBy: 'bedrooms', sortOrder: 'desc' },
+  { value: 'most-watched:desc', label: 'Most watched', sortBy: 'most-watched', sortOrder: 'desc' },
+  { value: 'best-rated:desc', label: 'Best rated', sortBy: 'best-rated', sortOrder: 'desc' },
+];
+
+interface SortSelectProps {
+  sortBy?: SortBy;
+  sortOrder?: SortOrder;
+  isSearching: boolean;
+  onSortChange: (sortBy?: SortBy, sortOrder?: SortOrder) => void;
+  isMobile: boolean;
+}
+
+const SortSelect: React.FC<SortSelectProps> = ({ sortBy, sortOrder, isSearching, onSortChange, isMobile }) => {
+  // Without a search the default already is newest first, so only one of the two is offered
+  const value = sortBy && (isSearching || sortBy !== 'newest') ? `${sortBy}:${sortOrder ?? 'desc'}` : 'default';
+  const options = SORT_OPTIONS
+    .filter(option => isSearching || option.value !== 'newest:desc')
+    .map(option => option.value === 'default' && isSearching ? { ...option, label: 'Best match' } : option);
+
+  const handleChange = (next: string) => {
+    const option = SORT_OPTIONS.find(candidate => candidate.value === next);
+    onSortChange(option?.sortBy, option?.sortOrder);
+  };
+
+  return (
+    <Select value={value} onValueChange={handleChange}>
+      <SelectTrigger
+        aria-label="Sort apartments"
+        className={cn(
+          "gap-2 backdrop-blur-sm bg-background/90 border-primary/30 shadow-sm",
+          isMobile ? "h-10 flex-1" : "h-9 w-[200px]"
+        )}
+      >
+        <ArrowUpDown className="w-4 h-4 text-primary shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
 interface RefreshButtonProps {
   isLoading: boolean;
   onRefresh: () => void;
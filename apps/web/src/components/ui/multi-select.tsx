@@ -14,6 +14,8 @@ export interface MultiSelectOption {
   label: string;
   disabled?: boolean;
   description?: string;
+  // Shown next to the label, e.g. how many results the option would give
+  count?: number;
 }
 
 interface MultiSelectProps {
@@ -175,6 +177,11 @@ export const MultiSelect: React.FC<MultiSelectProps> = ({
                         </div>
                       )}
                     </div>
+                    {option.count !== undefined && (
+                      <span className="text-xs text-muted-foreground tabular-nums">
+                        {option.count}
+                      </span>
+                    )}
                     <Check
                       className={cn(
                         'ml-auto h-4 w-4',
@@ -1,11 +1,21 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
-import { authApi, User } from '@/services/api';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { authApi, User, SessionInfo, Permission } from '@/services/api';
+
+// `challengeToken` is set when the password was accepted but a 2FA code is still needed
+interface LoginResult {
+  success: boolean;
+  challengeToken?: string;
+}
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string, rememberMe: boolean) => Promise<boolean>;
+  login: (email: string, password: string, rememberMe: boolean) => Promise<LoginResult>;
+  verifyTwoFactor: (
+    challengeToken: string,
+    factor: { code?: string; recoveryCode?: string }
+  ) => Promise<boolean>;
   register: (userData: {
     email: string;
     password: string;
@@ -14,69 +24,185 @@ interface AuthContextType {
     role?: 'USER' | 'AGENT';
   }) => Promise<boolean>;
   logout: () => void;
+  logoutAllDevices: () => Promise<void>;
+  // Admins only: switch to a read-only session as another user, and back
+  impersonate: (userId: string) => Promise<void>;
+  stopImpersonating: () => Promise<void>;
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
-  isAdmin: boolean;
+  hasPermission: (permission: Permission) => boolean;
   isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// The tokens are httpOnly cookies managed by the API (their lifetime follows "remember me").
+// Only the access token expiry is kept here so that open tabs can coordinate refreshes.
+const EXPIRES_AT_KEY = 'authTokenExpiresAt';
+
+const storeExpiry = (session: SessionInfo) => {
+  localStorage.setItem(EXPIRES_AT_KEY, String(Date.now() + session.expiresIn * 1000));
+};
+
+const clearExpiry = () => {
+  localStorage.removeItem(EXPIRES_AT_KEY);
+};
+
+// Web Lock held while the tokens are rotated
+const REFRESH_LOCK = 'auth-token-refresh';
+
+// Rotates the tokens unless another tab already has. Resolves to when the access token expires,
+// or null when the session is gone (revoked, expired or reused).
+const rotateTokens = async (): Promise<number | null> => {
+  const expiresAt = Number(localStorage.getItem(EXPIRES_AT_KEY));
+  if (expiresAt - Date.now() > REFRESH_MARGIN_MS * 2) {
+    return expiresAt;
+  }
+
+  try {
+    const response = await authApi.refresh();
+    if (!response.success) return null;
+
+    storeExpiry(response.data);
+    return Date.now() + response.data.expiresIn * 1000;
+  } catch (error) {
+    console.error('Failed to refresh session:', error);
+    return null;
+  }
+};
+
+// Every tab schedules its refresh from the same stored expiry, and the API treats a refresh
+// token presented twice as stolen. Tabs therefore take turns, and the ones that wait find the
+// new expiry when they get the lock.
+const refreshTokens = (): Promise<number | null> => {
+  if (!navigator.locks) {
+    return rotateTokens();
+  }
+  return navigator.locks.request(REFRESH_LOCK, rotateTokens);
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  useEffect(() => {
-    initializeAuth();
+  const cancelRefresh = useCallback(() => {
+    if (refreshTimer.current) {
+      clearTimeout(refreshTimer.current);
+      refreshTimer.current = null;
+    }
   }, []);
 
-  const initializeAuth = async () => {
+  // Keeps refreshing the tokens shortly before each expiry until the session is gone
+  const scheduleRefresh = useCallback((expiresAt: number) => {
+    const schedule = (at: number) => {
+      cancelRefresh();
+      const delay = Math.max(at - Date.now() - REFRESH_MARGIN_MS, 0);
+      refreshTimer.current = setTimeout(async () => {
+        const nextExpiresAt = await refreshTokens();
+        if (nextExpiresAt === null) {
+          // Sign out locally
+          clearExpiry();
+          setUser(null);
+          return;
+        }
+        schedule(nextExpiresAt);
+      }, delay);
+    };
+
+    schedule(expiresAt);
+  }, [cancelRefresh]);
+
+  const initializeAuth = useCallback(async () => {
     try {
        if (globalThis.window === undefined) return;
-      const token = localStorage.getItem('authToken') || sessionStorage.getItem('authToken');
-      if (token) {
-        // Verify token with the server
-        const response = await authApi.me();
-        if (response.success) {
-          setUser(response.data);
-        } else {
-          // Invalid token, clear it
-          clearTokens();
-        }
+      // Make sure the access cookie is fresh before verifying it with the server
+      // (fails without a session cookie, which simply means we are signed out)
+      const expiresAt = await refreshTokens();
+      if (expiresAt === null) {
+        clearExpiry();
+        return;
+      }
+      scheduleRefresh(expiresAt);
+
+      const response = await authApi.me();
+      if (response.success) {
+        setUser(response.data);
+      } else {
+        clearExpiry();
       }
     } catch (error) {
       console.error('Failed to initialize auth:', error);
-      clearTokens();
+      clearExpiry();
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [scheduleRefresh]);
 
-  const clearTokens = () => {
-    localStorage.removeItem('authToken');
-    sessionStorage.removeItem('authToken');
-  };
+  useEffect(() => {
+    initializeAuth();
+    return cancelRefresh;
+  }, [initializeAuth, cancelRefresh]);
 
-  const login = async (email: string, password: string, rememberMe: boolean): Promise<boolean> => {
+  // Reload the profile, e.g. after the email address has been verified
+  const refreshUser = useCallback(async () => {
     try {
-      const response = await authApi.login(email, password);
-      
+      const response = await authApi.me();
       if (response.success) {
-        setUser(response.data.user);
-        
-        // Store token based on rememberMe preference
-        const storage = rememberMe ? localStorage : sessionStorage;
-        storage.setItem('authToken', response.data.token);
-        
-        return true;
+        setUser(response.data);
       }
-      return false;
+    } catch (error) {
+      console.error('Failed to refresh user:', error);
+    }
+  }, []);
+
+  // The profile comes from /auth/me, which also carries the effective permissions
+  const startSession = useCallback(async (session: SessionInfo) => {
+    storeExpiry(session);
+    scheduleRefresh(Date.now() + session.expiresIn * 1000);
+    await refreshUser();
+  }, [scheduleRefresh, refreshUser]);
+
+  const login = useCallback(async (email: string, password: string, rememberMe: boolean): Promise<LoginResult> => {
+    try {
+      const response = await authApi.login(email, password, rememberMe);
+
+      if (!response.success) {
+        return { success: false };
+      }
+
+      if ('twoFactorRequired' in response.data) {
+        return { success: true, challengeToken: response.data.challengeToken };
+      }
+
+      // The API has set the session cookies; "remember me" decides their lifetime
+      await startSession(response.data);
+
+      return { success: true };
     } catch (error) {
       console.error('Login failed:', error);
-      return false;
+      // Surface the server message (e.g. lockouts with their retry time) to the form
+      throw error;
+    }
+  }, [startSession]);
+
+  const verifyTwoFactor = useCallback(async (
+    challengeToken: string,
+    factor: { code?: string; recoveryCode?: string }
+  ): Promise<boolean> => {
+    const response = await authApi.verifyTwoFactor(challengeToken, factor);
+
+    if (response.success) {
+      await startSession(response.data);
+      return true;
     }
-  };
+    return false;
+  }, [startSession]);
 
-  const register = async (userData: {
+  const register = useCallback(async (userData: {
     email: string;
     password: string;
     name: string;
@@ -85,13 +211,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }): Promise<boolean> => {
     try {
       const response = await authApi.register(userData);
-      
+
       if (response.success) {
-        setUser(response.data.user);
-        
-        // Store token in localStorage by default for new registrations
-        localStorage.setItem('authToken', response.data.token);
-        
+        // New registrations are remembered by default
+        await startSession(response.data);
+
         return true;
       }
       return false;
@@ -99,27 +223,78 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error('Registration failed:', error);
       return false;
     }
-  };
+  }, [startSession]);
 
-  const logout = () => {
+  const logout = useCallback(() => {
+    cancelRefresh();
     authApi.logout().catch((error) => {
       console.error('Logout API call failed:', error);
     });
     setUser(null);
-    clearTokens();
-  };
+    clearExpiry();
+  }, [cancelRefresh]);
+
+  const logoutAllDevices = useCallback(async () => {
+    cancelRefresh();
+    try {
+      await authApi.logoutAll();
+    } catch (error) {
+      console.error('Logout from all devices failed:', error);
+    } finally {
+      clearExpiry();
+      setUser(null);
+    }
+  }, [cancelRefresh]);
+
+  // Errors (e.g. trying to view an admin account) are left to the caller to report
+  const impersonate = useCallback(async (userId: string) => {
+    const response = await authApi.impersonate(userId);
+    await startSession(response.data);
+  }, [startSession]);
+
+  const stopImpersonating = useCallback(async () => {
+    try {
+      const response = await authApi.stopImpersonating();
+      if (response.data) {
+        await startSession(response.data);
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to stop impersonating:', error);
+    }
+    // The admin's own session is gone as well
+    cancelRefresh();
+    clearExpiry();
+    setUser(null);
+  }, [startSession, cancelRefresh]);
 
   const contextValue = useMemo(
     () => ({
       user,
       login,
+      verifyTwoFactor,
       register,
       logout,
+      logoutAllDevices,
+      impersonate,
+      stopImpersonating,
+      refreshUser,
       isAuthenticated: !!user,
-      isAdmin: user?.role === 'ADMIN',
+      hasPermission: (permission: Permission) => !!user?.permissions?.includes(permission),
       isLoading,
     }),
-    [user, isLoading]
+    [
+      user,
+      login,
+      verifyTwoFactor,
+      register,
+      logout,
+      logoutAllDevices,
+      impersonate,
+      stopImpersonating,
+      refreshUser,
+      isLoading
+    ]
   );
 
   return (
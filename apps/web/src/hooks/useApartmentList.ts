@@ -1,12 +1,15 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { apartmentApi, watchlistApi, Apartment, ApartmentFilters, ApartmentSearchBody } from '@/services/api';
+import { apartmentApi, watchlistApi, Apartment, ApartmentFilters, ApartmentScope, ApartmentSearchBody, SortOrder } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 
+type ApartmentSortOption = ApartmentFilters['sortBy'];
+
 interface PaginationState {
-  page: number;
+  // Cursor for the page after the loaded ones; null once the end is reached
+  nextCursor: string | null;
   limit: number;
   total: number;
   totalFiltered: number; 
@@ -24,7 +27,7 @@ export const useApartmentList = () => {
   const [watchlist, setWatchlist] = useState<string[]>([]);
   const [currentFilters, setCurrentFilters] = useState<ApartmentFilters>({});
   const [pagination, setPagination] = useState<PaginationState>({
-    page: 1,
+    nextCursor: null,
     limit: 12,
     total: 0,
     totalFiltered: 0,
@@ -37,7 +40,7 @@ export const useApartmentList = () => {
   });
 
   const { toast } = useToast();
-  const { user, isAdmin } = useAuth();
+  const { user, hasPermission } = useAuth();
 
   const updateLoadingState = useCallback((updates: Partial<LoadingState>) => {
     setLoadingState(prev => ({ ...prev, ...updates }));
@@ -58,12 +61,13 @@ export const useApartmentList = () => {
     });
   }, [toast]);
 
+  // Without a cursor the first page is loaded (with totals); with one, the next page is appended
   const fetchApartments = useCallback(async (
     filters?: ApartmentFilters, 
-    page: number = 1, 
-    reset: boolean = true
+    after?: string
   ) => {
-    const isFirstPage = page === 1;
+    const isFirstPage = !after;
+    const reset = isFirstPage;
     
     updateLoadingState({
       isLoading: isFirstPage,
@@ -78,6 +82,19 @@ export const useApartmentList = () => {
         (Array.isArray(filters.status) && filters.status.length > 1) ||
         (Array.isArray(filters.bedrooms) && filters.bedrooms.length > 0) ||
         (Array.isArray(filters.bathrooms) && filters.bathrooms.length > 0) ||
+        // Amenity filters are only accepted by the search endpoint
+        (filters.amenities?.length ?? 0) > 0 ||
+        (filters.anyAmenities?.length ?? 0) > 0 ||
+        // So are the listing type and rental terms
+        filters.listingType !== undefined ||
+        (filters.rentPeriods?.length ?? 0) > 0 ||
+        filters.furnished !== undefined ||
+        filters.maxDeposit !== undefined ||
+        filters.leaseMonths !== undefined ||
+        filters.availableBy !== undefined ||
+        // And the payment plan limits
+        filters.maxDownPayment !== undefined ||
+        filters.maxMonthlyInstallment !== undefined ||
         // Also use the new endpoint if we have any arrays at all
         Array.isArray(filters.projectId) ||
         Array.isArray(filters.cityId) ||
@@ -93,18 +110,33 @@ export const useApartmentList = () => {
           cityIds: Array.isArray(filters?.cityId) ? filters.cityId : (filters?.cityId ? [filters.cityId] : undefined),
           listerIds: filters?.listerId ? [filters.listerId] : undefined,
           statuses: Array.isArray(filters?.status) ? filters.status : (filters?.status ? [filters.status] : undefined),
+          listingType: filters?.listingType,
+          rentPeriods: filters?.rentPeriods,
+          furnished: filters?.furnished,
+          maxDeposit: filters?.maxDeposit,
+          leaseMonths: filters?.leaseMonths,
+          availableBy: filters?.availableBy,
           minPrice: filters?.minPrice,
           maxPrice: filters?.maxPrice,
+          maxDownPayment: filters?.maxDownPayment,
+          maxMonthlyInstallment: filters?.maxMonthlyInstallment,
           minArea: filters?.minArea,
           maxArea: filters?.maxArea,
-          // For bedrooms/bathrooms, if we get an array from the UI, we'll need to convert it appropriately
-          // For now, let's take the first value or convert it to what the API expects
-          bedrooms: Array.isArray(filters?.bedrooms) && filters.bedrooms.length > 0 ? filters.bedrooms[0] : 
-                   (typeof filters?.bedrooms === 'number' ? filters.bedrooms : undefined),
-          bathrooms: Array.isArray(filters?.bathrooms) && filters.bathrooms.length > 0 ? filters.bathrooms[0] : 
-                    (typeof filters?.bathrooms === 'number' ? filters.bathrooms : undefined),
+          bedrooms: Array.isArray(filters?.bedrooms) ? filters.bedrooms : 
+                   (typeof filters?.bedrooms === 'number' ? [filters.bedrooms] : undefined),
+          minBedrooms: filters?.minBedrooms,
+          maxBedrooms: filters?.maxBedrooms,
+          bathrooms: Array.isArray(filters?.bathrooms) ? filters.bathrooms : 
+                    (typeof filters?.bathrooms === 'number' ? [filters.bathrooms] : undefined),
+          minBathrooms: filters?.minBathrooms,
+          maxBathrooms: filters?.maxBathrooms,
+          amenities: filters?.amenities,
+          anyAmenities: filters?.anyAmenities,
           search: filters?.search,
-          page,
+          scope: filters?.scope,
+          sortBy: filters?.sortBy,
+          sortOrder: filters?.sortOrder,
+          after,
           limit: pagination.limit,
         };
         
@@ -120,7 +152,7 @@ export const useApartmentList = () => {
         // Use the original GET /apartments endpoint for simple queries
         response = await apartmentApi.getAll({
           ...filters,
-          page,
+          after,
           limit: pagination.limit,
         });
       }
@@ -139,28 +171,25 @@ export const useApartmentList = () => {
         
         setApartments(prev => reset ? newApartments : [...prev, ...newApartments]);
 
-        // Update pagination info
-        const hasMore = newApartments.length === pagination.limit;
-        
-        // Get totalFiltered from meta object (prioritize meta if available)
+        // Get cursor and totalFiltered from meta object (prioritize meta if available)
         const metaData = 'meta' in response ? response.meta : (response as any).meta;
-        const totalFiltered = metaData?.totalFiltered ?? metaData?.total ?? ('totalFiltered' in response ? response.totalFiltered : 0);
+        const nextCursor = metaData?.nextCursor ?? null;
         
         console.log('Meta data:', metaData);
-        console.log('totalFiltered from meta:', totalFiltered);
         
         setPagination(prev => ({
           ...prev,
-          page,
-          hasMore,
+          nextCursor,
+          hasMore: nextCursor !== null,
           total: reset ? newApartments.length : prev.total + newApartments.length,
-          totalFiltered: totalFiltered,
+          // Cursor pages come without totals, so the first page's count is kept
+          totalFiltered: metaData?.totalFiltered ?? prev.totalFiltered,
         }));
       } else {
         if (reset) {
           setApartments([]);
         }
-        setPagination(prev => ({ ...prev, hasMore: false }));
+        setPagination(prev => ({ ...prev, nextCursor: null, hasMore: false }));
       }
     } catch (error) {
       console.error('Failed to fetch apartments:', error);
@@ -190,20 +219,39 @@ export const useApartmentList = () => {
     }
   }, [user]);
 
-  const handleFilterChange = useCallback((filters: ApartmentFilters) => {
+  const applyFilters = useCallback((filters: ApartmentFilters) => {
     setCurrentFilters(filters);
-    setPagination(prev => ({ ...prev, page: 1, total: 0, totalFiltered: 0 }));
-    fetchApartments(filters, 1, true);
+    setPagination(prev => ({ ...prev, nextCursor: null, total: 0, totalFiltered: 0 }));
+    fetchApartments(filters);
   }, [fetchApartments]);
 
+  // The filter panel doesn't know about sorting or scope, so those carry over
+  const handleFilterChange = useCallback((filters: ApartmentFilters) => {
+    applyFilters({
+      ...filters,
+      scope: filters.scope ?? currentFilters.scope,
+      sortBy: filters.sortBy ?? currentFilters.sortBy,
+      sortOrder: filters.sortOrder ?? currentFilters.sortOrder,
+    });
+  }, [applyFilters, currentFilters.scope, currentFilters.sortBy, currentFilters.sortOrder]);
+
+  const handleScopeChange = useCallback((scope: ApartmentScope) => {
+    applyFilters({ ...currentFilters, scope });
+  }, [applyFilters, currentFilters]);
+
+  const handleSortChange = useCallback((sortBy?: ApartmentSortOption, sortOrder?: SortOrder) => {
+    applyFilters({ ...currentFilters, sortBy, sortOrder });
+  }, [applyFilters, currentFilters]);
+
   const handleLoadMore = useCallback(() => {
-    const nextPage = pagination.page + 1;
-    fetchApartments(currentFilters, nextPage, false);
-  }, [pagination.page, currentFilters, fetchApartments]);
+    if (pagination.nextCursor) {
+      fetchApartments(currentFilters, pagination.nextCursor);
+    }
+  }, [pagination.nextCursor, currentFilters, fetchApartments]);
 
   const handleRefresh = useCallback(() => {
-    setPagination(prev => ({ ...prev, page: 1, total: 0, totalFiltered: 0 }));
-    fetchApartments(currentFilters, 1, true);
+    setPagination(prev => ({ ...prev, nextCursor: null, total: 0, totalFiltered: 0 }));
+    fetchApartments(currentFilters);
   }, [currentFilters, fetchApartments]);
 
   const toggleWatchlist = useCallback(async (apartmentId: string) => {
@@ -231,7 +279,10 @@ export const useApartmentList = () => {
   }, [user, watchlist, showErrorToast, showSuccessToast]);
 
   const getActiveFiltersCount = useCallback(() => {
-    return Object.values(currentFilters).filter(value => 
+    // Sorting changes the order, not the results, and the scope is picked separately,
+    // so neither counts as a filter
+    return Object.entries(currentFilters).filter(([key, value]) => 
+      key !== 'sortBy' && key !== 'sortOrder' && key !== 'scope' &&
       value !== null && value !== undefined && value !== '' && 
       !(Array.isArray(value) && value.length === 0)
     ).length;
@@ -239,6 +290,13 @@ export const useApartmentList = () => {
 
   const hasActiveFilters = getActiveFiltersCount() > 0;
 
+  // Listers can switch to their own listings, moderators to every listing
+  const availableScopes: ApartmentScope[] = [
+    'browse',
+    ...(hasPermission('listing:create') || hasPermission('listing:moderate') ? ['mine' as const] : []),
+    ...(hasPermission('listing:moderate') ? ['all' as const] : []),
+  ];
+
   // Initial load
   useEffect(() => {
     const loadInitialData = async () => {
@@ -247,7 +305,7 @@ export const useApartmentList = () => {
       updateLoadingState({ isInitialLoad: false });
     };
     loadInitialData();
-  }, []);
+  }, [fetchApartments, updateLoadingState]);
 
   // Fetch watchlist when user changes
   useEffect(() => {
@@ -267,13 +325,16 @@ export const useApartmentList = () => {
     // Computed values
     hasActiveFilters,
     activeFiltersCount: getActiveFiltersCount(),
+    availableScopes,
     
     // Auth
     user,
-    isAdmin,
+    canUseWatchlist: hasPermission('watchlist:use'),
     
     // Actions
     handleFilterChange,
+    handleSortChange,
+    handleScopeChange,
     handleLoadMore,
     handleRefresh,
     toggleWatchlist,
@@ -47,29 +47,39 @@ export function formatNumber(
   }).format(numValue);
 }
 
+const RENT_PERIOD_UNITS: Record<string, string> = {
+  DAILY: 'day',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
 /**
  * Formats a price with currency
  * @param price - The price to format
  * @param currency - The currency code (default: 'EGP')
  * @param locale - The locale for formatting (default: 'en-EG')
+ * @param rentPeriod - For rentals, the period the price is charged per ("25,000 EGP / month")
  */
 export function formatPrice(
   price: NumberOrString,
   currency: string = 'EGP',
-  locale: string = 'en-US'
+  locale: string = 'en-US',
+  rentPeriod?: string | null
 ): string {
   if (price === null || price === undefined || price === '') return '0 ' + currency;
   
   const numPrice = typeof price === 'string' ? Number.parseFloat(price) : price;
   if (Number.isNaN(numPrice)) return '0 ' + currency;
 
+  const per = rentPeriod && RENT_PERIOD_UNITS[rentPeriod] ? ` / ${RENT_PERIOD_UNITS[rentPeriod]}` : '';
+
   // For EGP, use simple number formatting with currency suffix
   if (currency === 'EGP') {
-    return `${formatNumber(numPrice)} ${currency}`;
+    return `${formatNumber(numPrice)} ${currency}${per}`;
   }
 
   // For other currencies, use proper currency formatting
-  return formatNumber(numPrice, { style: 'currency', currency, locale });
+  return formatNumber(numPrice, { style: 'currency', currency, locale }) + per;
 }
 
 /**
@@ -101,6 +111,15 @@ export function truncateText(text: string | null | undefined, maxLength: number
   return text.slice(0, maxLength) + '...';
 }
 
+/**
+ * Turns an enum value such as a listing status into a label ("PENDING_REVIEW" -> "Pending review")
+ * @param value - The enum value to format
+ */
+export function formatEnumLabel(value: string): string {
+  const words = value.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
 /**
  * Debounce function to limit the rate of function execution
  * @param func - The function to debounce
@@ -10,23 +10,55 @@ import {
   ApartmentInfo,
   ListerInfo,
   ActionButtons,
-  RelatedApartments
+  PaymentPlans,
+  RelatedApartments,
+  type ListingPageAction
 } from '@/components/apartment-detail';
-import { apartmentApi, Apartment, messagesApi, watchlistApi } from '@/services/api';
+import {
+  apartmentApi,
+  Apartment,
+  ApartmentPaymentPlan,
+  ApartmentPriceChange,
+  PaymentSchedule,
+  messagesApi,
+  watchlistApi
+} from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, ArrowLeft } from 'lucide-react';
 
+// Published listings can be renewed once they are this close to expiring
+const RENEWAL_WINDOW_DAYS = 7;
+
+// The next lifecycle step offered to the lister: submitting a draft, or renewing an expired or expiring listing
+function nextListingAction(apartment: Apartment): ListingPageAction | null {
+  if (apartment.status === 'DRAFT') {
+    return 'submit';
+  }
+  const expiresSoon = apartment.expiresAt
+    && new Date(apartment.expiresAt).getTime() - Date.now() < RENEWAL_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  if (apartment.status === 'EXPIRED' || (apartment.status === 'PUBLISHED' && expiresSoon)) {
+    return 'renew';
+  }
+  return null;
+}
+
 const ApartmentDetail = () => {
   const params = useParams();
   const id = params?.id as string;
   const [apartment, setApartment] = useState<Apartment | null>(null);
   const [relatedApartments, setRelatedApartments] = useState<Apartment[]>([]);
+  const [priceHistory, setPriceHistory] = useState<ApartmentPriceChange[]>([]);
+  const [paymentPlans, setPaymentPlans] = useState<ApartmentPaymentPlan[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null);
+  const [paymentSchedule, setPaymentSchedule] = useState<PaymentSchedule | null>(null);
+  const [isLoadingSchedule, setIsLoadingSchedule] = useState(false);
   const [watchlist, setWatchlist] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingRelated, setIsLoadingRelated] = useState(false);
   const [isSendingMessage, setIsSendingMessage] = useState(false);
-  const { user, isAdmin } = useAuth();
+  const [isApplyingListingAction, setIsApplyingListingAction] = useState(false);
+  const { user, hasPermission } = useAuth();
   const { toast } = useToast();
   const router = useRouter();
 
@@ -64,6 +96,52 @@ const ApartmentDetail = () => {
     }
   }, []);
 
+  const fetchPriceHistory = useCallback(async (apartmentId: string) => {
+    try {
+      const response = await apartmentApi.getPriceHistory(apartmentId);
+      if (response.success) {
+        setPriceHistory(response.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to load price history:', error);
+      // The chart is left out when the history cannot be loaded
+    }
+  }, []);
+
+  const fetchPaymentPlans = useCallback(async (apartmentId: string) => {
+    try {
+      const response = await apartmentApi.getPaymentPlans(apartmentId);
+      if (response.success) {
+        setPaymentPlans(response.data || []);
+      }
+    } catch (error) {
+      console.error('Failed to load payment plans:', error);
+      // The payment plans section is left out when they cannot be loaded
+    }
+  }, []);
+
+  const handleSelectPlan = async (planId: string | null) => {
+    setSelectedPlanId(planId);
+    if (!planId || paymentSchedule?.planId === planId) return;
+
+    setIsLoadingSchedule(true);
+    try {
+      const response = await apartmentApi.getPaymentSchedule(id, planId);
+      if (response.success) {
+        setPaymentSchedule(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load payment schedule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the payment schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingSchedule(false);
+    }
+  };
+
   const fetchUserWatchlist = useCallback(async () => {
     if (!user) return;
     try {
@@ -81,8 +159,10 @@ const ApartmentDetail = () => {
     if (id) {
       fetchApartment(id);
       fetchRelatedApartments(id);
+      fetchPriceHistory(id);
+      fetchPaymentPlans(id);
     }
-  }, [id, fetchApartment, fetchRelatedApartments]);
+  }, [id, fetchApartment, fetchRelatedApartments, fetchPriceHistory, fetchPaymentPlans]);
 
   useEffect(() => {
     if (user) {
@@ -210,6 +290,28 @@ const ApartmentDetail = () => {
     }
   };
 
+  const handleListingAction = async (action: ListingPageAction) => {
+    if (!apartment) return;
+    setIsApplyingListingAction(true);
+    try {
+      const response = await apartmentApi.transition(apartment.id, action);
+      const { status, statusChangedAt, expiresAt } = response.data;
+      setApartment({ ...apartment, status, statusChangedAt, expiresAt });
+      toast(action === 'submit'
+        ? { title: 'Submitted for review', description: 'Your listing will be published once a moderator approves it.' }
+        : { title: 'Listing renewed', description: `Your listing stays published until ${new Date(expiresAt!).toLocaleDateString()}.` });
+    } catch (error) {
+      console.error(`Failed to ${action} listing:`, error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `Failed to ${action} listing`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsApplyingListingAction(false);
+    }
+  };
+
   const handleEditApartment = () => {
     if (!apartment) return;
     // Navigate to edit page - this would be implemented when edit functionality is added
@@ -246,6 +348,7 @@ const ApartmentDetail = () => {
   const images = apartment.images && apartment.images.length > 0 
     ? apartment.images.map(img => img.imageUrl) 
     : [];
+  const listingAction = nextListingAction(apartment);
 
   return (
     <div className="min-h-screen bg-background">
@@ -277,8 +380,9 @@ const ApartmentDetail = () => {
             <CardContent className="p-6 space-y-6 flex-1 flex flex-col">
               <ApartmentInfo
                 apartment={apartment}
+                priceHistory={priceHistory}
                 isInWatchlist={watchlist.includes(apartment.id)}
-                canToggleWatchlist={user !== null && !isAdmin}
+                canToggleWatchlist={hasPermission('watchlist:use')}
                 onToggleWatchlist={handleToggleWatchlist}
               />
 
@@ -286,23 +390,35 @@ const ApartmentDetail = () => {
 
               <div className="mt-auto">
                 <ActionButtons
-                  isAdmin={isAdmin}
+                  canEdit={apartment.listerId === user?.id || hasPermission('listing:moderate')}
                   canContact={user !== null && apartment.lister !== null}
                   isSendingMessage={isSendingMessage}
                   onSendMessage={handleSendMessage}
                   onEdit={handleEditApartment}
+                  listingAction={listingAction}
+                  isApplyingListingAction={isApplyingListingAction}
+                  onListingAction={() => listingAction && handleListingAction(listingAction)}
                 />
               </div>
             </CardContent>
           </Card>
         </div>
 
+        <PaymentPlans
+          paymentPlans={paymentPlans}
+          selectedPlanId={selectedPlanId}
+          schedule={paymentSchedule}
+          isLoadingSchedule={isLoadingSchedule}
+          onSelectPlan={handleSelectPlan}
+          className="mb-12"
+        />
+
         {/* Related Apartments Section */}
         <RelatedApartments
           relatedApartments={relatedApartments}
           isLoading={isLoadingRelated}
           watchlist={watchlist}
-          canToggleWatchlist={user !== null && !isAdmin}
+          canToggleWatchlist={hasPermission('watchlist:use')}
           onToggleWatchlist={handleRelatedWatchlistToggle}
         />
       </main>
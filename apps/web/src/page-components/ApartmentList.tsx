@@ -30,12 +30,16 @@ const ApartmentList = () => {
   const {
     apartments,
     watchlist,
+    currentFilters,
     pagination,
     loadingState,
     hasActiveFilters,
     activeFiltersCount,
-    isAdmin,
+    availableScopes,
+    canUseWatchlist,
     handleFilterChange,
+    handleSortChange,
+    handleScopeChange,
     handleLoadMore,
     handleRefresh,
     toggleWatchlist,
@@ -78,7 +82,7 @@ const ApartmentList = () => {
           apartments={apartments}
           isLoading={loadingState.isLoading}
           watchlist={watchlist}
-          isAdmin={isAdmin}
+          canUseWatchlist={canUseWatchlist}
           onToggleWatchlist={toggleWatchlist}
         />
         <LoadMoreSection
@@ -98,10 +102,20 @@ const ApartmentList = () => {
           totalFiltered={pagination.totalFiltered}
           activeFiltersCount={activeFiltersCount}
           isLoading={loadingState.isLoading}
+          sortBy={currentFilters.sortBy}
+          sortOrder={currentFilters.sortOrder}
+          isSearching={!!currentFilters.search}
+          onSortChange={handleSortChange}
+          scope={currentFilters.scope ?? 'browse'}
+          availableScopes={availableScopes}
+          onScopeChange={handleScopeChange}
           onRefresh={handleRefresh}
         />
 
-        <ApartmentFiltersComponent onFilterChange={handleFilterChange} />
+        <ApartmentFiltersComponent
+          scope={currentFilters.scope}
+          onFilterChange={handleFilterChange}
+        />
 
         {renderApartmentsContent()}
       </ResponsiveSection>
@@ -12,17 +12,6 @@ import { messagesApi, type Conversation } from '@/services/api';
 import { MessageSquare, Clock, User, Home } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
-interface ConversationsResponse {
-  success: boolean;
-  data: Conversation[];
-  meta: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
 const Messages = () => {
   const router = useRouter();
   const { user } = useAuth();
@@ -43,14 +32,20 @@ const Messages = () => {
       setLoading(true);
       setError(null);
       
-      const response: ConversationsResponse = await messagesApi.getConversations({
+      const response = await messagesApi.getConversations({
         page,
         limit: 20,
       });
 
       if (response.success) {
         setConversations(response.data);
-        setPagination(response.meta);
+        // Page requests always come back with totals
+        setPagination({
+          page: response.meta.page ?? page,
+          limit: response.meta.limit,
+          total: response.meta.total ?? 0,
+          totalPages: response.meta.totalPages ?? 0,
+        });
       } else {
         setError('Failed to fetch conversations');
       }
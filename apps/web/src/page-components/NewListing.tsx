@@ -7,14 +7,29 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { apartmentApi, citiesApi, projectsApi, City, Project } from '@/services/api';
+import { apartmentApi, citiesApi, projectsApi, City, ListingType, Project, RentPeriod } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { ArrowLeft, ImageIcon, Upload, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from '@/components/ui/dropdown-menu';
 
+// A draft stays private; submitting sends the listing to the moderation queue
+type ListingSaveStatus = 'DRAFT' | 'PENDING_REVIEW';
+
+const LISTING_TYPE_OPTIONS = [
+  { value: 'SALE', label: 'For sale' },
+  { value: 'RENT', label: 'For rent' },
+];
+
+const RENT_PERIOD_OPTIONS = [
+  { value: 'MONTHLY', label: 'Per month' },
+  { value: 'YEARLY', label: 'Per year' },
+  { value: 'DAILY', label: 'Per day' },
+];
+
 interface UploadedImage {
   id: string;
   file: File;
@@ -31,12 +46,21 @@ const NewListing = () => {
     bathrooms: '',
     areaSqm: '',
     priceEgp: '',
+    listingType: 'SALE',
+    // Rental terms, only sent for rentals
+    rentPeriod: 'MONTHLY',
+    depositEgp: '',
+    minLeaseMonths: '',
+    // 'true' when furnished
+    furnished: '',
+    availableFrom: '',
     address: '',
     description: '',
   });
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  // Which of the two save buttons is in flight
+  const [savingAs, setSavingAs] = useState<ListingSaveStatus | null>(null);
   const [cities, setCities] = useState<City[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [newProjectName, setNewProjectName] = useState('');
@@ -150,7 +174,8 @@ const NewListing = () => {
     fileInputRef.current?.click();
   };
 
-  const validateFormData = () => {
+  // Drafts may be saved incomplete; only the fields given are checked
+  const validateFormData = (status: ListingSaveStatus) => {
     const errors: string[] = [];
 
     if (!formData.unitName.trim()) {
@@ -161,7 +186,7 @@ const NewListing = () => {
       errors.push('Project ID must be a valid UUID.');
     }
 
-    if (!formData.priceEgp || Number.isNaN(Number(formData.priceEgp)) || Number(formData.priceEgp) <= 0) {
+    if ((status === 'PENDING_REVIEW' || formData.priceEgp) && (!formData.priceEgp || Number.isNaN(Number(formData.priceEgp)) || Number(formData.priceEgp) <= 0)) {
       errors.push('Price must be a positive number.');
     }
 
@@ -177,6 +202,17 @@ const NewListing = () => {
       errors.push('Area must be a positive number.');
     }
 
+    if (formData.listingType === 'RENT') {
+      if (formData.depositEgp && (Number.isNaN(Number(formData.depositEgp)) || Number(formData.depositEgp) < 0)) {
+        errors.push('Deposit must be a non-negative number.');
+      }
+
+      const minLeaseMonths = Number(formData.minLeaseMonths);
+      if (formData.minLeaseMonths && (!Number.isInteger(minLeaseMonths) || minLeaseMonths < 1 || minLeaseMonths > 120)) {
+        errors.push('Minimum lease must be between 1 and 120 months.');
+      }
+    }
+
     if (errors.length > 0) {
       toast({
         title: 'Validation Error',
@@ -281,10 +317,8 @@ const NewListing = () => {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!validateFormData()) {
+  const saveListing = async (status: ListingSaveStatus) => {
+    if (!validateFormData(status)) {
       return;
     }
 
@@ -297,25 +331,35 @@ const NewListing = () => {
       return;
     }
 
-    setIsLoading(true);
+    setSavingAs(status);
 
     try {
-      await apartmentApi.create({
+      const response = await apartmentApi.create({
         unitName: formData.unitName,
         projectId: formData.projectId,
         bedrooms: formData.bedrooms ? Number(formData.bedrooms) : undefined,
         bathrooms: formData.bathrooms ? Number(formData.bathrooms) : undefined,
         areaSqm: formData.areaSqm ? Number(formData.areaSqm) : undefined,
-        priceEgp: Number(formData.priceEgp),
+        priceEgp: formData.priceEgp ? Number(formData.priceEgp) : undefined,
+        listingType: formData.listingType as ListingType,
+        ...(formData.listingType === 'RENT' && {
+          rentPeriod: formData.rentPeriod as RentPeriod,
+          depositEgp: formData.depositEgp ? Number(formData.depositEgp) : undefined,
+          minLeaseMonths: formData.minLeaseMonths ? Number(formData.minLeaseMonths) : undefined,
+        }),
+        furnished: formData.furnished === 'true',
+        availableFrom: formData.availableFrom || undefined,
         address: formData.address,
         description: formData.description,
         listerId: user.id,
-        status: 'ACTIVE',
+        status,
       });
 
       toast({
-        title: 'Success',
-        description: 'Apartment listing created successfully',
+        title: status === 'DRAFT' ? 'Draft saved' : 'Submitted for review',
+        description: status === 'DRAFT'
+          ? 'Your listing is saved as a draft. Submit it for review when it is ready.'
+          : 'Your listing will be published once a moderator approves it.',
       });
       
       // Cleanup object URLs
@@ -323,7 +367,7 @@ const NewListing = () => {
         URL.revokeObjectURL(img.preview);
       }
       
-      router.push('/');
+      router.push(`/apartment/${response.data.id}`);
     } catch (error) {
       console.error('Failed to create listing:', error);
       toast({
@@ -332,10 +376,15 @@ const NewListing = () => {
         variant: 'destructive',
       });
     } finally {
-      setIsLoading(false);
+      setSavingAs(null);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveListing('PENDING_REVIEW');
+  };
+
   const renderDropdown = (options: { value: string; label: string }[], value: string, onChange: (value: string) => void, placeholder: string) => (
     <DropdownMenu>
       <DropdownMenuTrigger className="w-full px-4 py-2 border rounded-md text-left">
@@ -465,16 +514,90 @@ const NewListing = () => {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="priceEgp">Price (EGP) *</Label>
-                <Input
-                  id="priceEgp"
-                  type="number"
-                  placeholder="e.g., 4500000"
-                  value={formData.priceEgp}
-                  onChange={(e) => handleChange('priceEgp', e.target.value)}
-                  required
-                  min="0"
-                />
+                <Label htmlFor="listingType">Listing Type *</Label>
+                {renderDropdown(
+                  LISTING_TYPE_OPTIONS,
+                  formData.listingType,
+                  value => handleChange('listingType', value),
+                  'Select a listing type'
+                )}
+              </div>
+
+              <div className={cn('grid grid-cols-1 gap-4', formData.listingType === 'RENT' && 'md:grid-cols-2')}>
+                <div className="space-y-2">
+                  <Label htmlFor="priceEgp">{formData.listingType === 'RENT' ? 'Rent (EGP) *' : 'Price (EGP) *'}</Label>
+                  <Input
+                    id="priceEgp"
+                    type="number"
+                    placeholder={formData.listingType === 'RENT' ? 'e.g., 25000' : 'e.g., 4500000'}
+                    value={formData.priceEgp}
+                    onChange={(e) => handleChange('priceEgp', e.target.value)}
+                    required
+                    min="0"
+                  />
+                </div>
+
+                {formData.listingType === 'RENT' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rentPeriod">Rent Period *</Label>
+                    {renderDropdown(
+                      RENT_PERIOD_OPTIONS,
+                      formData.rentPeriod,
+                      value => handleChange('rentPeriod', value),
+                      'Select a period'
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {formData.listingType === 'RENT' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="depositEgp">Deposit (EGP)</Label>
+                    <Input
+                      id="depositEgp"
+                      type="number"
+                      placeholder="e.g., 50000"
+                      value={formData.depositEgp}
+                      onChange={(e) => handleChange('depositEgp', e.target.value)}
+                      min="0"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="minLeaseMonths">Minimum Lease (months)</Label>
+                    <Input
+                      id="minLeaseMonths"
+                      type="number"
+                      placeholder="e.g., 12"
+                      value={formData.minLeaseMonths}
+                      onChange={(e) => handleChange('minLeaseMonths', e.target.value)}
+                      min="1"
+                      max="120"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="availableFrom">Available From</Label>
+                  <Input
+                    id="availableFrom"
+                    type="date"
+                    value={formData.availableFrom}
+                    onChange={(e) => handleChange('availableFrom', e.target.value)}
+                  />
+                </div>
+
+                <div className="flex items-center gap-2 h-10">
+                  <Checkbox
+                    id="furnished"
+                    checked={formData.furnished === 'true'}
+                    onCheckedChange={(checked) => handleChange('furnished', checked === true ? 'true' : '')}
+                  />
+                  <Label htmlFor="furnished">Furnished</Label>
+                </div>
               </div>
 
               <div className="space-y-2">
@@ -594,9 +717,20 @@ const NewListing = () => {
                 )}
               </div>
 
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? 'Creating...' : 'Create Listing'}
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full sm:flex-1"
+                  disabled={savingAs !== null}
+                  onClick={() => saveListing('DRAFT')}
+                >
+                  {savingAs === 'DRAFT' ? 'Saving...' : 'Save Draft'}
+                </Button>
+                <Button type="submit" className="w-full sm:flex-1" disabled={savingAs !== null}>
+                  {savingAs === 'PENDING_REVIEW' ? 'Submitting...' : 'Submit for Review'}
+                </Button>
+              </div>
             </form>
           </CardContent>
         </Card>
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { authApi } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+
+const ResetPassword = () => {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({
+        title: 'Passwords do not match',
+        description: 'Please enter the same password twice',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await authApi.resetPassword(token!, password);
+      toast({
+        title: 'Password reset',
+        description: 'You can now sign in with your new password',
+      });
+      router.push('/login');
+    } catch (error) {
+      console.error('Reset password error:', error);
+      toast({
+        title: 'Reset failed',
+        description: error instanceof Error ? error.message : 'Failed to reset password',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">Choose a new password</CardTitle>
+          <CardDescription>
+            All devices signed in to your account will be signed out
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {token ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reset-password">New Password</Label>
+                <Input
+                  id="reset-password"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={8}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reset-confirm-password">Confirm Password</Label>
+                <Input
+                  id="reset-confirm-password"
+                  type="password"
+                  placeholder="Repeat the new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={8}
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? 'Resetting...' : 'Reset Password'}
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              This reset link is invalid. Please request a new one.
+            </p>
+          )}
+
+          <div className="text-center">
+            <Link href={token ? '/login' : '/forgot-password'} className="text-sm text-primary hover:underline">
+              {token ? 'Back to sign in' : 'Request a new link'}
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
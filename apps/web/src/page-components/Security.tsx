@@ -0,0 +1,279 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { Header } from '@/components/Header';
+import { authApi, TwoFactorStatus, TwoFactorSetup } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+
+const Security = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { refreshUser } = useAuth();
+  const { toast } = useToast();
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await authApi.twoFactorStatus();
+      setStatus(response.data);
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load security settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await authApi.setupTwoFactor();
+      setSetup(response.data);
+      setCode('');
+    } catch (error) {
+      showError(error, 'Failed to start two-factor setup');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await authApi.enableTwoFactor(code.replace(/\s/g, ''));
+      setRecoveryCodes(response.data.recoveryCodes);
+      setSetup(null);
+      setCode('');
+      toast({
+        title: 'Two-factor authentication enabled',
+        description: 'Save your recovery codes somewhere safe',
+      });
+      await Promise.all([loadStatus(), refreshUser()]);
+    } catch (error) {
+      showError(error, 'Failed to enable two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await authApi.regenerateRecoveryCodes(code.replace(/\s/g, ''));
+      setRecoveryCodes(response.data.recoveryCodes);
+      setCode('');
+      await loadStatus();
+    } catch (error) {
+      showError(error, 'Failed to regenerate recovery codes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsSubmitting(true);
+    try {
+      await authApi.disableTwoFactor(password, code.replace(/\s/g, ''));
+      setRecoveryCodes([]);
+      setCode('');
+      setPassword('');
+      toast({
+        title: 'Two-factor authentication disabled',
+      });
+      await Promise.all([loadStatus(), refreshUser()]);
+    } catch (error) {
+      showError(error, 'Failed to disable two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({ title: 'Recovery codes copied' });
+  };
+
+  const renderRecoveryCodes = () => recoveryCodes.length > 0 && (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Recovery codes</p>
+        <Button variant="ghost" size="sm" onClick={copyRecoveryCodes}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each code can be used once to sign in if you lose access to your authenticator app.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {recoveryCodes.map((recoveryCode) => (
+          <span key={recoveryCode}>{recoveryCode}</span>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 flex justify-center">
+        <Card className="w-full max-w-lg">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-2xl">Two-Factor Authentication</CardTitle>
+              {status && (
+                <Badge variant={status.enabled ? 'default' : 'secondary'}>
+                  {status.enabled ? 'Enabled' : 'Disabled'}
+                </Badge>
+              )}
+            </div>
+            <CardDescription>
+              Protect your account with a code from an authenticator app in addition to your password
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {isLoading && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            )}
+
+            {status && !status.available && (
+              <p className="text-sm text-muted-foreground">
+                Two-factor authentication is available for agent and admin accounts.
+              </p>
+            )}
+
+            {status?.available && !status.enabled && !setup && (
+              <div className="space-y-4">
+                {status.required && (
+                  <p className="text-sm text-destructive">
+                    Your role requires two-factor authentication. Set it up to continue using Nawy.
+                  </p>
+                )}
+                <Button onClick={handleStartSetup} disabled={isSubmitting}>
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  {isSubmitting ? 'Preparing...' : 'Set Up Two-Factor Authentication'}
+                </Button>
+              </div>
+            )}
+
+            {setup && (
+              <form onSubmit={handleEnable} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Scan this QR code with your authenticator app, or enter the secret manually, then type the 6-digit code it shows.
+                </p>
+                <div className="flex justify-center">
+                  <Image src={setup.qrCode} alt="Two-factor QR code" width={192} height={192} unoptimized />
+                </div>
+                <p className="text-center font-mono text-sm break-all">{setup.secret}</p>
+                <div className="space-y-2">
+                  <Label htmlFor="enable-code">Verification Code</Label>
+                  <Input
+                    id="enable-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    maxLength={6}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Verifying...' : 'Enable'}
+                </Button>
+              </form>
+            )}
+
+            {renderRecoveryCodes()}
+
+            {status?.enabled && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {status.recoveryCodesRemaining} recovery codes remaining.
+                </p>
+
+                <form onSubmit={handleRegenerate} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="manage-code">Authentication Code</Label>
+                    <Input
+                      id="manage-code"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      placeholder="123456"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      maxLength={6}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" variant="outline" className="w-full" disabled={isSubmitting}>
+                    Regenerate Recovery Codes
+                  </Button>
+                </form>
+
+                {!status.required && (
+                  <div className="space-y-4 border-t pt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="disable-password">Password</Label>
+                      <Input
+                        id="disable-password"
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                      />
+                    </div>
+                    <Button
+                      variant="destructive"
+                      className="w-full"
+                      onClick={handleDisable}
+                      disabled={isSubmitting || !password || !code}
+                    >
+                      <ShieldOff className="w-4 h-4 mr-2" />
+                      Disable Two-Factor Authentication
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Security;
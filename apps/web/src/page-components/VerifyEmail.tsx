@@ -0,0 +1,83 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { authApi } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+
+type VerificationStatus = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmail = () => {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<VerificationStatus>(token ? 'verifying' : 'failed');
+  const [errorMessage, setErrorMessage] = useState('This verification link is invalid.');
+  const { isAuthenticated, refreshUser } = useAuth();
+  // Tokens are single-use, so make sure we only submit once (effects run twice in dev)
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    authApi.verifyEmail(token)
+      .then(async () => {
+        setStatus('verified');
+        await refreshUser();
+      })
+      .catch((error) => {
+        console.error('Email verification error:', error);
+        setErrorMessage(error instanceof Error ? error.message : 'Failed to verify email');
+        setStatus('failed');
+      });
+  }, [token, refreshUser]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">Email verification</CardTitle>
+          <CardDescription>Confirming your email address</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center text-center space-y-4 py-6">
+          {status === 'verifying' && (
+            <>
+              <Loader2 className="w-12 h-12 animate-spin text-primary" />
+              <p className="text-sm text-muted-foreground">Verifying your email...</p>
+            </>
+          )}
+
+          {status === 'verified' && (
+            <>
+              <CheckCircle2 className="w-12 h-12 text-primary" />
+              <p className="text-sm text-muted-foreground">
+                Your email is verified. You now have full access to Nawy.
+              </p>
+            </>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <XCircle className="w-12 h-12 text-destructive" />
+              <p className="text-sm text-muted-foreground">
+                {errorMessage} Sign in and use the banner at the top of the page to get a new link.
+              </p>
+            </>
+          )}
+
+          {status !== 'verifying' && (
+            <Link href={isAuthenticated ? '/' : '/login'}>
+              <Button>{isAuthenticated ? 'Browse Apartments' : 'Go to Sign In'}</Button>
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -2,30 +2,105 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:4
 
 //#region Type Definitions
 // Type definitions based on the Swagger API
-export type UserRole = 'ADMIN' | 'USER' | 'AGENT';
-export type ApartmentStatus = 'ACTIVE' | 'INACTIVE' | 'SOLD';
+// Capabilities granted by the user's role (mirrors the API's permission catalog)
+export type Permission =
+  | 'listing:create'
+  | 'listing:moderate'
+  | 'catalog:create'
+  | 'catalog:manage'
+  | 'review:moderate'
+  | 'visit:manage'
+  | 'watchlist:use'
+  | 'account:two_factor'
+  | 'user:manage'
+  | 'user:impersonate'
+  | 'role:manage'
+  | 'audit:read';
+export type ApartmentStatus =
+  | 'DRAFT'
+  | 'PENDING_REVIEW'
+  | 'PUBLISHED'
+  | 'RESERVED'
+  | 'RENTED'
+  | 'SOLD'
+  | 'EXPIRED'
+  | 'ARCHIVED';
+export type ListingType = 'SALE' | 'RENT';
+// What a rental's price is charged per
+export type RentPeriod = 'DAILY' | 'MONTHLY' | 'YEARLY';
+// Lifecycle transitions, each exposed as POST /apartments/:id/<action>
+export type ListingAction =
+  | 'submit'
+  | 'withdraw'
+  | 'approve'
+  | 'reject'
+  | 'reserve'
+  | 'release'
+  | 'mark-rented'
+  | 'mark-sold'
+  | 'expire'
+  | 'renew'
+  | 'archive'
+  | 'restore';
 
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: UserRole;
+  role: string;
   phone?: string;
   avatarUrl?: string;
   isVerified: boolean;
+  twoFactorEnabled?: boolean;
+  // The role requires 2FA but the user has not enrolled yet
+  twoFactorRequired?: boolean;
+  // Effective permissions; only returned for the signed-in user
+  permissions?: Permission[];
+  // Set while an admin is viewing the app as this user
+  impersonator?: Impersonator | null;
   lastLogin?: string;
   createdAt: string;
   updatedAt?: string;
 }
 
+export interface Impersonator {
+  id: string;
+  email: string;
+  name: string;
+}
+
+// The tokens themselves live in httpOnly cookies; only the access token lifetime is exposed
+export interface SessionInfo {
+  expiresIn: number;
+}
+
 export interface LoginResponse {
   success: boolean;
-  data: {
+  data: SessionInfo & {
     user: User;
-    token: string;
   };
 }
 
+// Returned by /auth/login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  available: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
 export interface City {
   id: string;
   name: string;
@@ -51,13 +126,30 @@ export interface Apartment {
   bedrooms?: number;
   bathrooms?: number;
   areaSqm?: number;
+  // The sale price, or the rent per rentPeriod
   priceEgp?: number;
+  listingType: ListingType;
+  // Rental terms, only set on RENT listings
+  rentPeriod?: RentPeriod | null;
+  depositEgp?: number | null;
+  minLeaseMonths?: number | null;
+  furnished?: boolean;
+  availableFrom?: string | null;
   address?: string;
   latitude?: number;
   longitude?: number;
   description?: string;
+  pricePerSqm?: number;
+  averageRating?: number;
   listerId: string;
   status: ApartmentStatus;
+  statusChangedAt?: string;
+  publishedAt?: string | null;
+  // Published listings drop out of search at this time unless renewed
+  expiresAt?: string | null;
+  // Set while the last price change was a reduction
+  priceDropPercent?: number | null;
+  priceDroppedAt?: string | null;
   createdAt: string;
   updatedAt?: string;
   project?: Project;
@@ -66,6 +158,71 @@ export interface Apartment {
   amenities?: ApartmentAmenity[];
 }
 
+export interface ApartmentStatusChange {
+  id: string;
+  action: ListingAction;
+  fromStatus: ApartmentStatus;
+  toStatus: ApartmentStatus;
+  note: string | null;
+  actorId: string | null;
+  createdAt: string;
+}
+
+export interface ApartmentPriceChange {
+  id: string;
+  // Null for the price the listing was first given
+  oldPriceEgp: number | null;
+  newPriceEgp: number;
+  dropPercent: number | null;
+  createdAt: string;
+}
+
+export type InstallmentFrequency = 'MONTHLY' | 'QUARTERLY' | 'SEMI_ANNUAL' | 'YEARLY';
+
+// A developer installment plan, offered for every unit of a project or for one unit
+export interface PaymentPlan {
+  id: string;
+  projectId: string | null;
+  apartmentId: string | null;
+  name: string;
+  downPaymentPercent: number;
+  years: number;
+  installmentFrequency: InstallmentFrequency;
+  maintenanceFeePercent: number;
+  deliveryDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What a plan costs for one unit; the monthly amount spreads the installments evenly per month
+export interface PaymentPlanSummary {
+  downPaymentEgp: number;
+  monthlyInstallmentEgp: number;
+  maintenanceFeeEgp: number;
+}
+
+export interface ApartmentPaymentPlan extends PaymentPlan {
+  // Null for rentals and listings without a price
+  summary: PaymentPlanSummary | null;
+}
+
+export interface ScheduledPayment {
+  dueDate: string;
+  amountEgp: number;
+}
+
+export interface PaymentSchedule {
+  planId: string;
+  priceEgp: number;
+  startDate: string;
+  downPayment: ScheduledPayment;
+  installmentCount: number;
+  installments: (ScheduledPayment & { number: number })[];
+  // Due on delivery; dueDate is null when the plan has no delivery date
+  maintenanceFee: { dueDate: string | null; amountEgp: number };
+  totalEgp: number;
+}
+
 export interface ApartmentImage {
   id: string;
   apartmentId: string;
@@ -80,20 +237,66 @@ export interface ApartmentAmenity {
   amenity: string;
 }
 
+export interface AmenityCount {
+  amenity: string;
+  count: number;
+}
+
+export type ApartmentSort =
+  | 'newest'
+  | 'price'
+  | 'area'
+  | 'price-per-sqm'
+  | 'bedrooms'
+  | 'most-watched'
+  | 'best-rated'
+  | 'distance';
+
+export type SortOrder = 'asc' | 'desc';
+
+// browse: other people's PUBLISHED listings; mine: the caller's own; all: every listing (moderators)
+export type ApartmentScope = 'browse' | 'mine' | 'all';
+
 export interface ApartmentFilters {
   projectId?: string | string[];
   cityId?: string | string[];
   listerId?: string;
   status?: ApartmentStatus | ApartmentStatus[];
+  // Listing type and rental terms (search endpoint only)
+  listingType?: ListingType;
+  rentPeriods?: RentPeriod[];
+  furnished?: boolean;
+  maxDeposit?: number;
+  // Intended lease length; listings asking for a longer minimum lease are left out
+  leaseMonths?: number;
+  // Available on or before this date (YYYY-MM-DD)
+  availableBy?: string;
   minPrice?: number;
   maxPrice?: number;
+  // Sale listings with a payment plan within both limits, in EGP (search endpoint only)
+  maxDownPayment?: number;
+  maxMonthlyInstallment?: number;
   minArea?: number;
   maxArea?: number;
+  // Exact counts, or-ed with the min/max range: "1, 2 or 5+" is bedrooms [1, 2] with minBedrooms 5
   bedrooms?: number | number[];
+  minBedrooms?: number;
+  maxBedrooms?: number;
   bathrooms?: number | number[];
+  minBathrooms?: number;
+  maxBathrooms?: number;
+  // Must have all of `amenities` and at least one of `anyAmenities` (search endpoint only)
+  amenities?: string[];
+  anyAmenities?: string[];
   search?: string;
+  scope?: ApartmentScope;
+  sortBy?: Exclude<ApartmentSort, 'distance'>;
+  sortOrder?: SortOrder;
   page?: number;
   limit?: number;
+  after?: string;
+  before?: string;
+  includeTotal?: boolean;
 }
 
 export interface ApartmentSearchBody {
@@ -101,15 +304,82 @@ export interface ApartmentSearchBody {
   cityIds?: string[];
   listerIds?: string[];
   statuses?: ApartmentStatus[];
+  listingType?: ListingType;
+  rentPeriods?: RentPeriod[];
+  furnished?: boolean;
+  maxDeposit?: number;
+  leaseMonths?: number;
+  availableBy?: string;
   minPrice?: number;
   maxPrice?: number;
+  maxDownPayment?: number;
+  maxMonthlyInstallment?: number;
   minArea?: number;
   maxArea?: number;
-  bedrooms?: number;
-  bathrooms?: number;
+  bedrooms?: number[];
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  bathrooms?: number[];
+  minBathrooms?: number;
+  maxBathrooms?: number;
+  amenities?: string[];
+  anyAmenities?: string[];
   search?: string;
+  scope?: ApartmentScope;
+  sortBy?: ApartmentSort;
+  sortOrder?: SortOrder;
   page?: number;
   limit?: number;
+  after?: string;
+  before?: string;
+  includeTotal?: boolean;
+}
+
+// Cursor pages carry nextCursor/prevCursor; totals are only present for page requests
+// or when includeTotal is set
+export interface PageMeta {
+  page?: number;
+  limit: number;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+  hasMore?: boolean;
+  total?: number;
+  totalPages?: number;
+}
+
+export interface ApartmentPageMeta extends PageMeta {
+  totalFiltered?: number;
+}
+
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface Histogram {
+  min: number | null;
+  max: number | null;
+  buckets: HistogramBucket[];
+}
+
+// Result counts per filter option; each facet is counted without its own filter
+export interface ApartmentFacets {
+  total: number;
+  cities: (FacetCount & { name: string })[];
+  projects: (FacetCount & { name: string; cityId: string })[];
+  statuses: FacetCount<ApartmentStatus>[];
+  listingTypes: FacetCount<ListingType>[];
+  bedrooms: FacetCount<number>[];
+  bathrooms: FacetCount<number>[];
+  amenities: FacetCount[];
+  price: Histogram;
+  area: Histogram;
 }
 
 export interface WatchlistItem {
@@ -149,13 +419,31 @@ export interface Conversation {
 //#endregion
 
 //#region Helper Functions
-// Helper function to get auth headers
-const getAuthHeaders = () => {
-  const token = localStorage.getItem('authToken') || sessionStorage.getItem('authToken');
-  return {
-    'Content-Type': 'application/json',
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
+// Helper function to get auth headers (the session itself travels in httpOnly cookies)
+const getAuthHeaders = () => ({
+  'Content-Type': 'application/json',
+});
+
+// Helper function to read the CSRF token the API sets as a readable cookie
+const getCsrfToken = () => {
+  if (typeof document === 'undefined') return undefined;
+  const match = document.cookie.match(/(?:^|;\s*)nawy_csrf=([^;]*)/);
+  return match ? decodeURIComponent(match[1]) : undefined;
+};
+
+// Helper function wrapping fetch: sends the session cookies and, for writes, the CSRF header
+const apiFetch = (url: string, init: RequestInit = {}) => {
+  const method = (init.method || 'GET').toUpperCase();
+  const csrfToken = method === 'GET' ? undefined : getCsrfToken();
+  return fetch(url, {
+    ...init,
+    credentials: 'include',
+    headers: {
+      'X-Auth-Mode': 'cookie',
+      ...(csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+      ...init.headers,
+    },
+  });
 };
 
 // Helper function to handle API responses
@@ -197,23 +485,41 @@ const convertFiltersToSearchBody = (filters: ApartmentFilters): ApartmentSearchB
   }
   
   // Copy simple properties
+  if (filters.listingType) searchBody.listingType = filters.listingType;
+  if (filters.rentPeriods?.length) searchBody.rentPeriods = filters.rentPeriods;
+  if (filters.furnished !== undefined) searchBody.furnished = filters.furnished;
+  if (filters.maxDeposit !== undefined) searchBody.maxDeposit = filters.maxDeposit;
+  if (filters.leaseMonths !== undefined) searchBody.leaseMonths = filters.leaseMonths;
+  if (filters.availableBy) searchBody.availableBy = filters.availableBy;
   if (filters.minPrice !== undefined) searchBody.minPrice = filters.minPrice;
   if (filters.maxPrice !== undefined) searchBody.maxPrice = filters.maxPrice;
+  if (filters.maxDownPayment !== undefined) searchBody.maxDownPayment = filters.maxDownPayment;
+  if (filters.maxMonthlyInstallment !== undefined) searchBody.maxMonthlyInstallment = filters.maxMonthlyInstallment;
   if (filters.minArea !== undefined) searchBody.minArea = filters.minArea;
   if (filters.maxArea !== undefined) searchBody.maxArea = filters.maxArea;
   
-  // For bedrooms/bathrooms, take the first value if it's an array for simplicity
-  // The UI typically sends single values anyway
   if (filters.bedrooms !== undefined) {
-    searchBody.bedrooms = Array.isArray(filters.bedrooms) ? filters.bedrooms[0] : filters.bedrooms;
+    searchBody.bedrooms = Array.isArray(filters.bedrooms) ? filters.bedrooms : [filters.bedrooms];
   }
+  if (filters.minBedrooms !== undefined) searchBody.minBedrooms = filters.minBedrooms;
+  if (filters.maxBedrooms !== undefined) searchBody.maxBedrooms = filters.maxBedrooms;
   if (filters.bathrooms !== undefined) {
-    searchBody.bathrooms = Array.isArray(filters.bathrooms) ? filters.bathrooms[0] : filters.bathrooms;
+    searchBody.bathrooms = Array.isArray(filters.bathrooms) ? filters.bathrooms : [filters.bathrooms];
   }
+  if (filters.minBathrooms !== undefined) searchBody.minBathrooms = filters.minBathrooms;
+  if (filters.maxBathrooms !== undefined) searchBody.maxBathrooms = filters.maxBathrooms;
+  if (filters.amenities?.length) searchBody.amenities = filters.amenities;
+  if (filters.anyAmenities?.length) searchBody.anyAmenities = filters.anyAmenities;
   
   if (filters.search) searchBody.search = filters.search;
+  if (filters.scope) searchBody.scope = filters.scope;
+  if (filters.sortBy) searchBody.sortBy = filters.sortBy;
+  if (filters.sortOrder) searchBody.sortOrder = filters.sortOrder;
   if (filters.page !== undefined) searchBody.page = filters.page;
   if (filters.limit !== undefined) searchBody.limit = filters.limit;
+  if (filters.after) searchBody.after = filters.after;
+  if (filters.before) searchBody.before = filters.before;
+  if (filters.includeTotal !== undefined) searchBody.includeTotal = filters.includeTotal;
   
   return searchBody;
 };
@@ -222,11 +528,36 @@ const convertFiltersToSearchBody = (filters: ApartmentFilters): ApartmentSearchB
 //#region Authentication API (/auth/*)
 // Authentication API
 export const authApi = {
-  async login(email: string, password: string): Promise<LoginResponse> {
-    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+  async login(
+    email: string,
+    password: string,
+    rememberMe = false
+  ): Promise<{ success: boolean; data: LoginResponse['data'] | TwoFactorChallenge }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/login`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, password }),
+      body: JSON.stringify({ email, password, rememberMe }),
+    });
+    return handleResponse(response);
+  },
+
+  async verifyTwoFactor(
+    challengeToken: string,
+    factor: { code?: string; recoveryCode?: string }
+  ): Promise<LoginResponse> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/2fa/verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ challengeToken, ...factor }),
+    });
+    return handleResponse(response);
+  },
+
+  async refresh(): Promise<{ success: boolean; data: SessionInfo }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
     });
     return handleResponse(response);
   },
@@ -238,7 +569,7 @@ export const authApi = {
     phone?: string;
     role?: 'USER' | 'AGENT';
   }): Promise<LoginResponse> {
-    const response = await fetch(`${API_BASE_URL}/auth/register`, {
+    const response = await apiFetch(`${API_BASE_URL}/auth/register`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(userData),
@@ -247,16 +578,129 @@ export const authApi = {
   },
 
   async me(): Promise<{ success: boolean; data: User }> {
-    const response = await fetch(`${API_BASE_URL}/auth/me`, {
+    const response = await apiFetch(`${API_BASE_URL}/auth/me`, {
       headers: getAuthHeaders(),
     });
     return handleResponse(response);
   },
 
   async logout(): Promise<{ success: boolean; message: string }> {
-    const response = await fetch(`${API_BASE_URL}/auth/logout`, {
+    const response = await apiFetch(`${API_BASE_URL}/auth/logout`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({}),
+    });
+    return handleResponse(response);
+  },
+
+  async logoutAll(): Promise<{ success: boolean; message: string }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/logout-all`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({}),
+    });
+    return handleResponse(response);
+  },
+
+  async impersonate(userId: string): Promise<{ success: boolean; message: string; data: SessionInfo & { expiresAt: string } }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/impersonate/${userId}`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({}),
+    });
+    return handleResponse(response);
+  },
+
+  // `data` is missing when the admin's own session ended in the meantime
+  async stopImpersonating(): Promise<{ success: boolean; message: string; data?: SessionInfo }> {
+    // No body, so no JSON content type either
+    const response = await apiFetch(`${API_BASE_URL}/auth/impersonate`, {
+      method: 'DELETE',
+    });
+    return handleResponse(response);
+  },
+
+  async verifyEmail(token: string): Promise<{ success: boolean; message: string }> {
+    const searchParams = new URLSearchParams({ token });
+    const response = await apiFetch(buildUrl(`${API_BASE_URL}/auth/verify`, searchParams));
+    return handleResponse(response);
+  },
+
+  async resendVerification(): Promise<{ success: boolean; message: string }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/resend-verification`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({}),
+    });
+    return handleResponse(response);
+  },
+
+  async twoFactorStatus(): Promise<{ success: boolean; data: TwoFactorStatus }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/2fa`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  async setupTwoFactor(): Promise<{ success: boolean; data: TwoFactorSetup }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/2fa/setup`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({}),
+    });
+    return handleResponse(response);
+  },
+
+  async enableTwoFactor(code: string): Promise<{ success: boolean; data: { recoveryCodes: string[] } }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/2fa/enable`, {
       method: 'POST',
       headers: getAuthHeaders(),
+      body: JSON.stringify({ code }),
+    });
+    return handleResponse(response);
+  },
+
+  async disableTwoFactor(password: string, code: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/2fa/disable`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ password, code }),
+    });
+    return handleResponse(response);
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<{ success: boolean; data: { recoveryCodes: string[] } }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/2fa/recovery-codes`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ code }),
+    });
+    return handleResponse(response);
+  },
+
+  async forgotPassword(email: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/forgot-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+    return handleResponse(response);
+  },
+
+  async resetPassword(token: string, password: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/reset-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, password }),
+    });
+    return handleResponse(response);
+  },
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiFetch(`${API_BASE_URL}/auth/change-password`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ currentPassword, newPassword }),
     });
     return handleResponse(response);
   },
@@ -274,17 +718,17 @@ export const citiesApi = {
     if (params?.limit) searchParams.append('limit', params.limit.toString());
 
     const url = buildUrl(`${API_BASE_URL}/cities`, searchParams);
-    const response = await fetch(url);
+    const response = await apiFetch(url);
     return handleResponse(response);
   },
 
   async getById(id: string) {
-    const response = await fetch(`${API_BASE_URL}/cities/${id}`);
+    const response = await apiFetch(`${API_BASE_URL}/cities/${id}`);
     return handleResponse(response);
   },
 
   async create(city: { name: string; country: string }): Promise<{ success: boolean; data: City }> {
-    const response = await fetch(`${API_BASE_URL}/cities`, {
+    const response = await apiFetch(`${API_BASE_URL}/cities`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify(city),
@@ -305,17 +749,17 @@ export const projectsApi = {
     if (params?.limit) searchParams.append('limit', params.limit.toString());
 
     const url = buildUrl(`${API_BASE_URL}/projects`, searchParams);
-    const response = await fetch(url);
+    const response = await apiFetch(url);
     return handleResponse(response);
   },
 
   async getById(id: string) {
-    const response = await fetch(`${API_BASE_URL}/projects/${id}`);
+    const response = await apiFetch(`${API_BASE_URL}/projects/${id}`);
     return handleResponse(response);
   },
 
   async create(project: { name: string; cityId: string; description?: string }): Promise<{ success: boolean; data: Project }> {
-    const response = await fetch(`${API_BASE_URL}/projects`, {
+    const response = await apiFetch(`${API_BASE_URL}/projects`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify(project),
@@ -328,7 +772,7 @@ export const projectsApi = {
 //#region Apartments API (/apartments/*)
 // Apartments API
 export const apartmentApi = {
-  async getAll(filters?: ApartmentFilters): Promise<{ success: boolean; data: Apartment[]; totalFiltered?: number; total?: number }> {
+  async getAll(filters?: ApartmentFilters): Promise<{ success: boolean; data: Apartment[]; totalFiltered?: number; total?: number; meta?: ApartmentPageMeta }> {
     const params = new URLSearchParams();
     
     // Handle array parameters by appending multiple values
@@ -355,31 +799,41 @@ export const apartmentApi = {
     if (filters?.maxPrice) params.append('maxPrice', filters.maxPrice.toString());
     if (filters?.minArea) params.append('minArea', filters.minArea.toString());
     if (filters?.maxArea) params.append('maxArea', filters.maxArea.toString());
-    if (filters?.bedrooms) {
+    if (filters?.bedrooms !== undefined) {
       const bedrooms = Array.isArray(filters.bedrooms) ? filters.bedrooms : [filters.bedrooms];
       for (const bed of bedrooms) {
         params.append('bedrooms', bed.toString());
       }
     }
-    if (filters?.bathrooms) {
+    if (filters?.minBedrooms !== undefined) params.append('minBedrooms', filters.minBedrooms.toString());
+    if (filters?.maxBedrooms !== undefined) params.append('maxBedrooms', filters.maxBedrooms.toString());
+    if (filters?.bathrooms !== undefined) {
       const bathrooms = Array.isArray(filters.bathrooms) ? filters.bathrooms : [filters.bathrooms];
       for (const bath of bathrooms) {
         params.append('bathrooms', bath.toString());
       }
     }
+    if (filters?.minBathrooms !== undefined) params.append('minBathrooms', filters.minBathrooms.toString());
+    if (filters?.maxBathrooms !== undefined) params.append('maxBathrooms', filters.maxBathrooms.toString());
     if (filters?.search) params.append('search', filters.search);
+    if (filters?.scope) params.append('scope', filters.scope);
+    if (filters?.sortBy) params.append('sortBy', filters.sortBy);
+    if (filters?.sortOrder) params.append('sortOrder', filters.sortOrder);
     if (filters?.page) params.append('page', filters.page.toString());
     if (filters?.limit) params.append('limit', filters.limit.toString());
+    if (filters?.after) params.append('after', filters.after);
+    if (filters?.before) params.append('before', filters.before);
+    if (filters?.includeTotal !== undefined) params.append('includeTotal', String(filters.includeTotal));
 
     const url = buildUrl(`${API_BASE_URL}/apartments`, params);
-    const response = await fetch(url, {
+    const response = await apiFetch(url, {
       headers: getAuthHeaders(),
     });
     return handleResponse(response);
   },
 
-  async search(searchBody: ApartmentSearchBody): Promise<{ success: boolean; data: Apartment[]; meta?: { totalFiltered: number; total: number; page: number; limit: number; totalPages: number } }> {
-    const response = await fetch(`${API_BASE_URL}/apartments/search`, {
+  async search(searchBody: ApartmentSearchBody): Promise<{ success: boolean; data: Apartment[]; meta?: ApartmentPageMeta }> {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/search`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify(searchBody),
@@ -387,15 +841,24 @@ export const apartmentApi = {
     return handleResponse(response);
   },
 
+  async getFacets(filters: ApartmentFilters): Promise<{ success: boolean; data: ApartmentFacets }> {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/facets`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(convertFiltersToSearchBody(filters)),
+    });
+    return handleResponse(response);
+  },
+
   async getById(id: string): Promise<{ success: boolean; data: Apartment }> {
-    const response = await fetch(`${API_BASE_URL}/apartments/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/${id}`, {
       headers: getAuthHeaders(),
     });
     return handleResponse(response);
   },
 
   async getRelated(id: string): Promise<{ success: boolean; data: Apartment[] }> {
-    const response = await fetch(`${API_BASE_URL}/apartments/${id}/related`, {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/${id}/related`, {
       headers: getAuthHeaders(),
     });
     return handleResponse(response);
@@ -409,14 +872,21 @@ export const apartmentApi = {
     bathrooms?: number;
     areaSqm?: number;
     priceEgp?: number;
+    listingType?: ListingType;
+    rentPeriod?: RentPeriod;
+    depositEgp?: number;
+    minLeaseMonths?: number;
+    furnished?: boolean;
+    availableFrom?: string;
     address?: string;
     latitude?: number;
     longitude?: number;
     description?: string;
     listerId: string;
-    status?: ApartmentStatus;
+    // Drafts stay private; PENDING_REVIEW submits the listing for moderation straight away
+    status?: 'DRAFT' | 'PENDING_REVIEW';
   }): Promise<{ success: boolean; data: Apartment }> {
-    const response = await fetch(`${API_BASE_URL}/apartments`, {
+    const response = await apiFetch(`${API_BASE_URL}/apartments`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify(apartment),
@@ -424,8 +894,9 @@ export const apartmentApi = {
     return handleResponse(response);
   },
 
-  async update(id: string, apartment: Partial<Apartment>): Promise<{ success: boolean; data: Apartment }> {
-    const response = await fetch(`${API_BASE_URL}/apartments/${id}`, {
+  // The status is not editable here; see transition()
+  async update(id: string, apartment: Partial<Omit<Apartment, 'status'>>): Promise<{ success: boolean; data: Apartment }> {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/${id}`, {
       method: 'PUT',
       headers: getAuthHeaders(),
       body: JSON.stringify(apartment),
@@ -434,12 +905,92 @@ export const apartmentApi = {
   },
 
   async delete(id: string): Promise<{ success: boolean; message: string }> {
-    const response = await fetch(`${API_BASE_URL}/apartments/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/${id}`, {
       method: 'DELETE',
       headers: getAuthHeaders(),
     });
     return handleResponse(response);
   },
+
+  // Moves a listing along its lifecycle; `transitions` lists what can be done next
+  async transition(id: string, action: ListingAction, note?: string): Promise<{
+    success: boolean;
+    data: Pick<Apartment, 'id' | 'status' | 'statusChangedAt' | 'publishedAt' | 'expiresAt'> & { transitions: ListingAction[] };
+  }> {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/${id}/${action}`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(note ? { note } : {}),
+    });
+    return handleResponse(response);
+  },
+
+  async getStatusHistory(id: string): Promise<{ success: boolean; data: ApartmentStatusChange[] }> {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/${id}/status-history`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  async getPriceHistory(id: string): Promise<{ success: boolean; data: ApartmentPriceChange[] }> {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/${id}/price-history`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  // The unit's own payment plans, then its project's
+  async getPaymentPlans(id: string): Promise<{ success: boolean; data: ApartmentPaymentPlan[] }> {
+    const response = await apiFetch(`${API_BASE_URL}/apartments/${id}/payment-plans`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  // Every payment of buying the unit on a plan, starting on `startDate` (YYYY-MM-DD, defaults to today)
+  async getPaymentSchedule(id: string, planId: string, startDate?: string): Promise<{ success: boolean; data: PaymentSchedule }> {
+    const searchParams = new URLSearchParams();
+    if (startDate) searchParams.append('startDate', startDate);
+
+    const url = buildUrl(`${API_BASE_URL}/apartments/${id}/payment-plans/${planId}/schedule`, searchParams);
+    const response = await apiFetch(url, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  // Listings waiting for review, longest waiting first (moderators only)
+  async getModerationQueue(params?: { page?: number; limit?: number }): Promise<{
+    success: boolean;
+    data: (Apartment & { submittedAt: string })[];
+    meta: { page: number; limit: number; total: number; totalPages: number };
+  }> {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.append('page', params.page.toString());
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+
+    const url = buildUrl(`${API_BASE_URL}/apartments/moderation-queue`, searchParams);
+    const response = await apiFetch(url, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+};
+//#endregion
+
+//#region Amenities API (/apartment-amenities/*)
+// Amenities API
+export const amenitiesApi = {
+  // Distinct amenities across all listings, most common first
+  async getAll(params?: { search?: string; limit?: number }): Promise<AmenityCount[]> {
+    const searchParams = new URLSearchParams();
+    if (params?.search) searchParams.append('search', params.search);
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+
+    const url = buildUrl(`${API_BASE_URL}/apartment-amenities`, searchParams);
+    const response = await apiFetch(url);
+    return handleResponse(response);
+  },
 };
 //#endregion
 
@@ -453,14 +1004,14 @@ export const watchlistApi = {
     if (params?.limit) searchParams.append('limit', params.limit.toString());
 
     const url = buildUrl(`${API_BASE_URL}/watchlists`, searchParams);
-    const response = await fetch(url, {
+    const response = await apiFetch(url, {
       headers: getAuthHeaders(),
     });
     return handleResponse(response);
   },
 
   async add(userId: string, apartmentId: string): Promise<{ success: boolean; data: WatchlistItem }> {
-    const response = await fetch(`${API_BASE_URL}/watchlists`, {
+    const response = await apiFetch(`${API_BASE_URL}/watchlists`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify({ userId, apartmentId }),
@@ -469,12 +1020,8 @@ export const watchlistApi = {
   },
 
   async remove(userId: string, apartmentId: string): Promise<{ success: boolean; message: string }> {
-    const token = localStorage.getItem('authToken') || sessionStorage.getItem('authToken');
-    const response = await fetch(`${API_BASE_URL}/watchlists/${userId}/${apartmentId}`, {
+    const response = await apiFetch(`${API_BASE_URL}/watchlists/${userId}/${apartmentId}`, {
       method: 'DELETE',
-      headers: {
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
     });
     return handleResponse(response);
   },
@@ -488,17 +1035,23 @@ export const messagesApi = {
   async getConversations(params?: {
     page?: number;
     limit?: number;
+    after?: string;
+    before?: string;
+    includeTotal?: boolean;
   }): Promise<{ 
     success: boolean; 
     data: Conversation[]; 
-    meta: { page: number; limit: number; total: number; totalPages: number } 
+    meta: PageMeta 
   }> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append('page', params.page.toString());
     if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.after) searchParams.append('after', params.after);
+    if (params?.before) searchParams.append('before', params.before);
+    if (params?.includeTotal !== undefined) searchParams.append('includeTotal', String(params.includeTotal));
 
     const url = buildUrl(`${API_BASE_URL}/conversations`, searchParams);
-    const response = await fetch(url, {
+    const response = await apiFetch(url, {
       headers: getAuthHeaders(),
     });
     return handleResponse(response);
@@ -508,19 +1061,24 @@ export const messagesApi = {
   async getConversationMessages(conversationId: string, params?: {
     page?: number;
     limit?: number;
+    // Cursors from meta: before=nextCursor loads older messages, after=prevCursor newer ones
+    after?: string;
     before?: string;
+    includeTotal?: boolean;
   }): Promise<{ 
     success: boolean; 
     data: Message[]; 
-    meta: { page: number; limit: number; total: number; totalPages: number } 
+    meta: PageMeta 
   }> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append('page', params.page.toString());
     if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.after) searchParams.append('after', params.after);
     if (params?.before) searchParams.append('before', params.before);
+    if (params?.includeTotal !== undefined) searchParams.append('includeTotal', String(params.includeTotal));
 
     const url = buildUrl(`${API_BASE_URL}/conversations/${conversationId}/messages`, searchParams);
-    const response = await fetch(url, {
+    const response = await apiFetch(url, {
       headers: getAuthHeaders(),
     });
     return handleResponse(response);
@@ -531,7 +1089,7 @@ export const messagesApi = {
     apartmentId: string;
     message: string;
   }): Promise<{ success: boolean; data: Conversation }> {
-    const response = await fetch(`${API_BASE_URL}/conversations`, {
+    const response = await apiFetch(`${API_BASE_URL}/conversations`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify(data),
@@ -544,7 +1102,7 @@ export const messagesApi = {
     content: string;
     messageType?: 'TEXT' | 'IMAGE' | 'SYSTEM';
   }): Promise<{ success: boolean; data: Message }> {
-    const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/messages`, {
+    const response = await apiFetch(`${API_BASE_URL}/conversations/${conversationId}/messages`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify({
@@ -557,7 +1115,7 @@ export const messagesApi = {
 
   // Mark a specific message as read
   async markMessageAsRead(messageId: string): Promise<{ success: boolean; data: Message }> {
-    const response = await fetch(`${API_BASE_URL}/messages/${messageId}/read`, {
+    const response = await apiFetch(`${API_BASE_URL}/messages/${messageId}/read`, {
       method: 'PUT',
       headers: getAuthHeaders(),
     });
@@ -566,7 +1124,7 @@ export const messagesApi = {
 
   // Get unread count for a specific conversation
   async getUnreadCount(conversationId: string): Promise<{ success: boolean; data: { count: number } }> {
-    const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/unread-count`, {
+    const response = await apiFetch(`${API_BASE_URL}/conversations/${conversationId}/unread-count`, {
       headers: getAuthHeaders(),
     });
     return handleResponse(response);